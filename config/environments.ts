@@ -11,8 +11,16 @@ export const environments = {
     currencyRates: {
       persistedFreshMs: 24 * 60 * 60 * 1000,
       persistedTtlDays: 30,
+      // Tried in order; later providers fill in rates earlier ones miss.
+      providers: ['currencyapi', 'ecb', 'static'],
+      providerTimeoutMs: 5000,
+      pegs: ['BGN:EUR:1.95583'], // PEGGED:ANCHOR:UNITS_PER_ANCHOR
     },
     ratesAdminGroup: 'rates-admins',
+    recurringAdminGroup: 'recurring-admins',
+    budgetAlerts: {
+      thresholds: [80, 100], // percent of a category's monthly limit
+    },
   },
 
   prod: {
@@ -31,7 +39,15 @@ export const environments = {
     currencyRates: {
       persistedFreshMs: 24 * 60 * 60 * 1000,
       persistedTtlDays: 30,
+      // Tried in order; later providers fill in rates earlier ones miss.
+      providers: ['currencyapi', 'ecb', 'static'],
+      providerTimeoutMs: 5000,
+      pegs: ['BGN:EUR:1.95583'], // PEGGED:ANCHOR:UNITS_PER_ANCHOR
     },
     ratesAdminGroup: 'rates-admins',
+    recurringAdminGroup: 'recurring-admins',
+    budgetAlerts: {
+      thresholds: [80, 100], // percent of a category's monthly limit
+    },
   },
 };
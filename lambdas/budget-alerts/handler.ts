@@ -0,0 +1,56 @@
+import type { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import {
+  DynamoDBBatchItemFailure,
+  DynamoDBRecord,
+  DynamoDBStreamHandler,
+} from 'aws-lambda';
+import {
+  findBudgetAlerts,
+  getBudgetAlertThresholds,
+  sendBudgetAlert,
+} from '../../utils/budget-alerts';
+
+const toImage = (
+  image?: Record<string, unknown>,
+): Record<string, unknown> | undefined =>
+  image ? unmarshall(image as Record<string, AttributeValue>) : undefined;
+
+const processRecord = async (record: DynamoDBRecord, thresholds: number[]) => {
+  if (record.eventName === 'REMOVE') {
+    return;
+  }
+
+  const alerts = findBudgetAlerts(
+    toImage(record.dynamodb?.OldImage),
+    toImage(record.dynamodb?.NewImage),
+    thresholds,
+  );
+  for (const alert of alerts) {
+    await sendBudgetAlert(alert);
+  }
+};
+
+export const handler: DynamoDBStreamHandler = async (event) => {
+  const thresholds = getBudgetAlertThresholds();
+  const batchItemFailures: DynamoDBBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    try {
+      await processRecord(record, thresholds);
+    } catch (err) {
+      console.error('budget-alerts: failed to process record', {
+        eventId: record.eventID,
+        error: (err as Error).message,
+      });
+      // Alerts already sent are recorded on the category, so retrying the
+      // batch from here never publishes them twice.
+      batchItemFailures.push({
+        itemIdentifier: record.dynamodb?.SequenceNumber ?? '',
+      });
+      break;
+    }
+  }
+
+  return { batchItemFailures };
+};
@@ -0,0 +1,12 @@
+import { ScheduledHandler } from 'aws-lambda';
+import { seedDefaultLimits } from '../../utils/category-limits';
+
+export const handler: ScheduledHandler = async () => {
+  const summary = await seedDefaultLimits();
+  console.log('Category default limits seeded', summary);
+  if (summary.failures) {
+    throw new Error(
+      `Failed to seed ${summary.failures} of ${summary.processed} categories`,
+    );
+  }
+};
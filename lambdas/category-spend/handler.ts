@@ -0,0 +1,54 @@
+import type { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import {
+  DynamoDBBatchItemFailure,
+  DynamoDBRecord,
+  DynamoDBStreamHandler,
+} from 'aws-lambda';
+import {
+  applyCategorySpendDeltas,
+  computeCategorySpendDeltas,
+} from '../../utils/category-spend';
+
+const toImage = (
+  image?: Record<string, unknown>,
+): Record<string, unknown> | undefined =>
+  image ? unmarshall(image as Record<string, AttributeValue>) : undefined;
+
+const processRecord = async (record: DynamoDBRecord) => {
+  const oldImage = toImage(record.dynamodb?.OldImage);
+  const newImage = toImage(record.dynamodb?.NewImage);
+
+  // The recurring materializer already books spend for the occurrences it
+  // creates, so only later edits and deletes of those rows are applied here.
+  if (record.eventName === 'INSERT' && newImage?.recurrenceInstanceId) {
+    return;
+  }
+
+  await applyCategorySpendDeltas(
+    computeCategorySpendDeltas(oldImage, newImage),
+    record.eventID,
+  );
+};
+
+export const handler: DynamoDBStreamHandler = async (event) => {
+  const batchItemFailures: DynamoDBBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    try {
+      await processRecord(record);
+    } catch (err) {
+      console.error('category-spend: failed to apply record', {
+        eventId: record.eventID,
+        error: (err as Error).message,
+      });
+      // Stream batches are ordered; retry from the first failed record.
+      batchItemFailures.push({
+        itemIdentifier: record.dynamodb?.SequenceNumber ?? '',
+      });
+      break;
+    }
+  }
+
+  return { batchItemFailures };
+};
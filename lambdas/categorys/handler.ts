@@ -1,29 +1,33 @@
 import { v4 as uuidv4 } from 'uuid';
 import { APIGatewayEvent, APIGatewayProxyHandler } from 'aws-lambda';
 import {
+  ConditionalCheckFailedException,
   DeleteItemCommand,
   DynamoDBClient,
   GetItemCommand,
   PutItemCommand,
   QueryCommand,
+  UpdateItemCommand,
 } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import {
   BASE_CURRENCY_CODE,
   buildResponse,
-  convertFromBaseCurrency,
   convertToBaseCurrency,
   createRateContext,
   getUserPreferredCurrency,
   normalizeCurrencyCode,
   toCurrencyNumber,
 } from '../../utils';
-import type {
-  Category,
-  CategoryResponse,
-  CurrencyCode,
-} from '../../types/budget';
+import type { Category, CurrencyCode } from '../../types/budget';
 import type { RateContext } from '../../utils';
+import {
+  applyDefaultLimit,
+  buildCategoryUpdate,
+  buildEnsureMonthsUpdate,
+  shapeCategoryResponse,
+  validateCategoryPayload,
+} from './helpers';
 
 const client = new DynamoDBClient({});
 const TABLE_NAME = process.env.TABLE_NAME!;
@@ -50,46 +54,6 @@ const normalizeMonthlyData = async (
   return Object.fromEntries(entries);
 };
 
-const shapeCategoryResponse = async (
-  rawCategory: Category,
-  preferredCurrency: CurrencyCode,
-  rateContext: RateContext,
-): Promise<CategoryResponse> => {
-  const baseCurrency = rawCategory.baseCurrency || BASE_CURRENCY_CODE;
-  const monthlyDataEntries = await Promise.all(
-    Object.entries(rawCategory.monthlyData ?? {}).map(
-      async ([month, value]) => {
-        const limitBase = toCurrencyNumber(value.baseLimit ?? 0);
-        const spentBase = toCurrencyNumber(value.baseSpent ?? 0);
-
-        if (preferredCurrency === baseCurrency) {
-          return [month, { limit: limitBase, spent: spentBase }];
-        }
-
-        const [limitConverted, spentConverted] = await Promise.all([
-          convertFromBaseCurrency(limitBase, preferredCurrency, rateContext),
-          convertFromBaseCurrency(spentBase, preferredCurrency, rateContext),
-        ]);
-
-        return [
-          month,
-          {
-            limit: limitConverted.amount,
-            spent: spentConverted.amount,
-          },
-        ];
-      },
-    ),
-  );
-
-  return {
-    ...rawCategory,
-    currency: preferredCurrency,
-    baseCurrency,
-    monthlyData: Object.fromEntries(monthlyDataEntries),
-  } as CategoryResponse;
-};
-
 export const handler: APIGatewayProxyHandler = async (
   event: APIGatewayEvent,
 ) => {
@@ -155,6 +119,10 @@ export const handler: APIGatewayProxyHandler = async (
 
     if (httpMethod === 'POST' && body) {
       const payload = JSON.parse(body);
+      const invalidMessage = validateCategoryPayload(payload);
+      if (invalidMessage) {
+        return buildResponse(400, { message: invalidMessage }, origin);
+      }
       const preferredCurrency = await preferredCurrencyPromise;
       const categoryId = payload.id ?? uuidv4();
       const month = new Date().toISOString().slice(0, 7); // 'YYYY-MM'
@@ -169,7 +137,7 @@ export const handler: APIGatewayProxyHandler = async (
             >)
           : {
               [month]: {
-                limit: payload.limit,
+                limit: payload.limit ?? payload.defaultLimit,
                 spent: payload.spent ?? 0,
               },
             };
@@ -180,16 +148,21 @@ export const handler: APIGatewayProxyHandler = async (
         rateContext,
       );
 
-      const newCategory: Category = {
-        id: categoryId,
-        userId,
-        name: payload.name,
-        color: payload.color,
-        type: payload.type,
-        currency: preferredCurrency,
-        baseCurrency: BASE_CURRENCY_CODE,
-        monthlyData,
-      };
+      const newCategory: Category = applyDefaultLimit(
+        {
+          id: categoryId,
+          userId,
+          name: payload.name,
+          color: payload.color,
+          type: payload.type,
+          currency: preferredCurrency,
+          baseCurrency: BASE_CURRENCY_CODE,
+          rolloverPolicy: payload.rolloverPolicy ?? 'none',
+          monthlyData,
+        },
+        payload,
+        inputCurrency,
+      );
 
       await client.send(
         new PutItemCommand({
@@ -209,6 +182,10 @@ export const handler: APIGatewayProxyHandler = async (
 
     if (httpMethod === 'PUT' && id && body) {
       const payload = JSON.parse(body);
+      const invalidMessage = validateCategoryPayload(payload);
+      if (invalidMessage) {
+        return buildResponse(400, { message: invalidMessage }, origin);
+      }
 
       const { Item } = await client.send(
         new GetItemCommand({ TableName: TABLE_NAME, Key: marshall({ id }) }),
@@ -230,33 +207,75 @@ export const handler: APIGatewayProxyHandler = async (
         >) ?? {};
       const preferredCurrency = await preferredCurrencyPromise;
 
-      const normalizedIncoming = Object.keys(incomingMonthlyData).length
-        ? await normalizeMonthlyData(
+      // Only limits are taken from the client; spend is kept up to date by
+      // the transactions stream and must not be overwritten here.
+      const monthLimits = Object.fromEntries(
+        Object.entries(
+          await normalizeMonthlyData(
             incomingMonthlyData,
             preferredCurrency,
             rateContext,
-          )
-        : {};
-
-      const mergedMonthlyData: Category['monthlyData'] = {
-        ...existing.monthlyData,
-        ...normalizedIncoming,
-      };
-
-      const updated: Category = {
-        ...existing,
-        name: payload.name ?? existing.name,
-        color: payload.color ?? existing.color,
-        type: payload.type ?? existing.type,
-        currency: preferredCurrency,
-        baseCurrency: BASE_CURRENCY_CODE,
-        monthlyData: mergedMonthlyData,
-      };
+          ),
+        ).map(([month, entry]) => [month, entry.baseLimit ?? 0]),
+      );
 
-      await client.send(
-        new PutItemCommand({ TableName: TABLE_NAME, Item: marshall(updated) }),
+      const withSettings = applyDefaultLimit(
+        {
+          ...existing,
+          name: payload.name ?? existing.name,
+          color: payload.color ?? existing.color,
+          type: payload.type ?? existing.type,
+          rolloverPolicy:
+            payload.rolloverPolicy ?? existing.rolloverPolicy ?? 'none',
+          currency: preferredCurrency,
+          baseCurrency: BASE_CURRENCY_CODE,
+        },
+        payload,
+        payload.currency ?? preferredCurrency,
       );
 
+      const Key = marshall({ id });
+      const months = Object.keys(monthLimits);
+      let updated: Category;
+      try {
+        if (months.length) {
+          await client.send(
+            new UpdateItemCommand({
+              TableName: TABLE_NAME,
+              Key,
+              ...buildEnsureMonthsUpdate(months, userId),
+            }),
+          );
+        }
+        const { Attributes } = await client.send(
+          new UpdateItemCommand({
+            TableName: TABLE_NAME,
+            Key,
+            ...buildCategoryUpdate(
+              {
+                name: withSettings.name,
+                color: withSettings.color,
+                type: withSettings.type,
+                rolloverPolicy: withSettings.rolloverPolicy,
+                currency: withSettings.currency,
+                baseCurrency: withSettings.baseCurrency,
+                defaultLimit: withSettings.defaultLimit,
+                defaultLimitCurrency: withSettings.defaultLimitCurrency,
+              },
+              monthLimits,
+              userId,
+            ),
+            ReturnValues: 'ALL_NEW',
+          }),
+        );
+        updated = unmarshall(Attributes!) as Category;
+      } catch (err) {
+        if (err instanceof ConditionalCheckFailedException) {
+          return buildResponse(404, { message: 'Category not found' }, origin);
+        }
+        throw err;
+      }
+
       const shaped = await shapeCategoryResponse(
         updated,
         preferredCurrency,
@@ -0,0 +1,90 @@
+import { marshall } from '@aws-sdk/util-dynamodb';
+import type { UpdateItemCommandInput } from '@aws-sdk/client-dynamodb';
+import type { Category } from '../../../types/budget';
+
+export type CategorySettings = Pick<
+  Category,
+  | 'name'
+  | 'color'
+  | 'type'
+  | 'rolloverPolicy'
+  | 'currency'
+  | 'baseCurrency'
+  | 'defaultLimit'
+  | 'defaultLimitCurrency'
+>;
+
+type UpdateParts = Pick<
+  UpdateItemCommandInput,
+  | 'UpdateExpression'
+  | 'ConditionExpression'
+  | 'ExpressionAttributeNames'
+  | 'ExpressionAttributeValues'
+>;
+
+/**
+ * Adds an empty entry for each month the category does not have yet, so
+ * a later update can set fields inside it.
+ */
+export const buildEnsureMonthsUpdate = (
+  months: string[],
+  userId: string,
+): UpdateParts => ({
+  UpdateExpression: `SET ${months
+    .map((_, index) => `#md.#m${index} = if_not_exists(#md.#m${index}, :empty)`)
+    .join(', ')}`,
+  ConditionExpression: '#userId = :userId',
+  ExpressionAttributeNames: {
+    '#userId': 'userId',
+    '#md': 'monthlyData',
+    ...Object.fromEntries(months.map((month, index) => [`#m${index}`, month])),
+  },
+  ExpressionAttributeValues: marshall({ ':userId': userId, ':empty': {} }),
+});
+
+/**
+ * Update for a category PUT. Settings left undefined are removed, and only
+ * the base limit of each edited month is written, so the spend that the
+ * stream consumer maintains is never touched by the client. The months must
+ * exist already, see {@link buildEnsureMonthsUpdate}.
+ */
+export const buildCategoryUpdate = (
+  settings: CategorySettings,
+  monthLimits: Record<string, number>,
+  userId: string,
+): UpdateParts => {
+  const names: Record<string, string> = { '#userId': 'userId' };
+  const values: Record<string, unknown> = { ':userId': userId };
+  const sets: string[] = [];
+  const removes: string[] = [];
+
+  Object.entries(settings).forEach(([field, value], index) => {
+    names[`#f${index}`] = field;
+    if (value === undefined) {
+      removes.push(`#f${index}`);
+    } else {
+      values[`:f${index}`] = value;
+      sets.push(`#f${index} = :f${index}`);
+    }
+  });
+
+  Object.entries(monthLimits).forEach(([month, baseLimit], index) => {
+    names['#md'] = 'monthlyData';
+    names['#bl'] = 'baseLimit';
+    names[`#m${index}`] = month;
+    values[`:m${index}`] = baseLimit;
+    sets.push(`#md.#m${index}.#bl = :m${index}`);
+  });
+
+  return {
+    UpdateExpression: [
+      sets.length ? `SET ${sets.join(', ')}` : '',
+      removes.length ? `REMOVE ${removes.join(', ')}` : '',
+    ]
+      .filter(Boolean)
+      .join(' '),
+    ConditionExpression: '#userId = :userId',
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: marshall(values),
+  };
+};
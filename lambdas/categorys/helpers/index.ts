@@ -0,0 +1,3 @@
+export * from './build-category-update';
+export * from './shape-category-response';
+export * from './validate-category-payload';
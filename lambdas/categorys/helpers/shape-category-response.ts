@@ -0,0 +1,73 @@
+import {
+  BASE_CURRENCY_CODE,
+  computeCategoryRollover,
+  convertFromBaseCurrency,
+  toCurrencyNumber,
+} from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type {
+  Category,
+  CategoryResponse,
+  CurrencyCode,
+} from '../../../types/budget';
+
+export const shapeCategoryResponse = async (
+  rawCategory: Category,
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+): Promise<CategoryResponse> => {
+  const baseCurrency = rawCategory.baseCurrency || BASE_CURRENCY_CODE;
+  const rollover = computeCategoryRollover(rawCategory);
+  const monthlyDataEntries = await Promise.all(
+    Object.entries(rawCategory.monthlyData ?? {}).map(
+      async ([month, value]) => {
+        const limitBase = toCurrencyNumber(value.baseLimit ?? 0);
+        const spentBase = toCurrencyNumber(value.baseSpent ?? 0);
+        const { carryIn: carryInBase, effectiveLimit: effectiveLimitBase } =
+          rollover[month];
+
+        if (preferredCurrency === baseCurrency) {
+          return [
+            month,
+            {
+              limit: limitBase,
+              spent: spentBase,
+              carryIn: carryInBase,
+              effectiveLimit: effectiveLimitBase,
+            },
+          ];
+        }
+
+        const [
+          limitConverted,
+          spentConverted,
+          carryInConverted,
+          effectiveLimitConverted,
+        ] = await Promise.all(
+          [limitBase, spentBase, carryInBase, effectiveLimitBase].map(
+            (amount) =>
+              convertFromBaseCurrency(amount, preferredCurrency, rateContext),
+          ),
+        );
+
+        return [
+          month,
+          {
+            limit: limitConverted.amount,
+            spent: spentConverted.amount,
+            carryIn: carryInConverted.amount,
+            effectiveLimit: effectiveLimitConverted.amount,
+          },
+        ];
+      },
+    ),
+  );
+
+  return {
+    ...rawCategory,
+    currency: preferredCurrency,
+    baseCurrency,
+    rolloverPolicy: rawCategory.rolloverPolicy ?? 'none',
+    monthlyData: Object.fromEntries(monthlyDataEntries),
+  } as CategoryResponse;
+};
@@ -0,0 +1,61 @@
+import {
+  ROLLOVER_POLICIES,
+  isRolloverPolicy,
+  normalizeCurrencyCode,
+  toCurrencyNumber,
+} from '../../../utils';
+import type { Category } from '../../../types/budget';
+
+/**
+ * Checks the optional category settings, returning the message for a 400
+ * or undefined when the payload is acceptable. Omitted settings are fine:
+ * POST falls back to defaults and PUT keeps the stored values.
+ */
+export const validateCategoryPayload = (
+  payload: Record<string, unknown>,
+): string | undefined => {
+  if (
+    payload.rolloverPolicy !== undefined &&
+    !isRolloverPolicy(payload.rolloverPolicy)
+  ) {
+    return `rolloverPolicy must be one of ${ROLLOVER_POLICIES.join(', ')}`;
+  }
+
+  const { defaultLimit } = payload;
+  if (
+    defaultLimit !== undefined &&
+    defaultLimit !== null &&
+    (typeof defaultLimit !== 'number' ||
+      !Number.isFinite(defaultLimit) ||
+      defaultLimit < 0)
+  ) {
+    return 'defaultLimit must be a non-negative number';
+  }
+
+  return undefined;
+};
+
+/**
+ * Applies `defaultLimit` from the payload, stored in the currency the
+ * request uses for its limits. `null` removes the default.
+ */
+export const applyDefaultLimit = (
+  category: Category,
+  payload: Record<string, unknown>,
+  inputCurrency: string,
+): Category => {
+  if (payload.defaultLimit === undefined) {
+    return category;
+  }
+
+  const updated = { ...category };
+  if (payload.defaultLimit === null) {
+    delete updated.defaultLimit;
+    delete updated.defaultLimitCurrency;
+    return updated;
+  }
+
+  updated.defaultLimit = toCurrencyNumber(payload.defaultLimit);
+  updated.defaultLimitCurrency = normalizeCurrencyCode(inputCurrency);
+  return updated;
+};
@@ -0,0 +1,187 @@
+import { APIGatewayEvent, APIGatewayProxyHandler } from 'aws-lambda';
+import {
+  BASE_CURRENCY_CODE,
+  buildFileResponse,
+  buildResponse,
+  createRateContext,
+  getUserPreferredCurrency,
+  toCsv,
+} from '../../utils';
+import type { CurrencyCode } from '../../types/budget';
+import {
+  EXPORT_URL_TTL_SECONDS,
+  storeExportFile,
+} from '../../utils/export-store';
+import {
+  queryCategoriesByUser,
+  queryGoalsByUser,
+  queryTransactionsByUser,
+} from '../../utils/ledger-store';
+import { queryRecurringByUser } from '../../utils/recurring/store';
+import {
+  CATEGORY_EXPORT_COLUMNS,
+  GOAL_EXPORT_COLUMNS,
+  RECURRING_EXPORT_COLUMNS,
+  TRANSACTION_EXPORT_COLUMNS,
+  limitCategoryMonths,
+  parseExportQuery,
+  toCategoryExportRows,
+  toGoalExportRow,
+  toRecurringExportRow,
+  toTransactionExportRow,
+  withExportAmounts,
+  withValuations,
+} from './helpers';
+import type { ExportEntity, ExportQuery } from './helpers';
+
+// Lambda proxy responses are capped at 6 MB, so larger files go through S3.
+const INLINE_EXPORT_MAX_BYTES = 5 * 1024 * 1024;
+
+const buildFileName = (name: string, query: ExportQuery) => {
+  const range = [query.from, query.to].filter(Boolean).join('_');
+  return `${name}${range ? `-${range}` : ''}.${query.format}`;
+};
+
+const queryValuedTransactions = async (
+  userId: string,
+  query: ExportQuery,
+  preferredCurrency: CurrencyCode,
+) =>
+  withValuations(
+    (
+      await queryTransactionsByUser(userId, { from: query.from, to: query.to })
+    ).map(withExportAmounts),
+    preferredCurrency,
+    createRateContext(),
+  );
+
+const buildCsv = async (
+  userId: string,
+  entity: ExportEntity,
+  query: ExportQuery,
+): Promise<string> => {
+  switch (entity) {
+    case 'categories': {
+      const categories = limitCategoryMonths(
+        await queryCategoriesByUser(userId),
+        query.from,
+        query.to,
+      );
+      return toCsv(
+        categories.flatMap(toCategoryExportRows),
+        CATEGORY_EXPORT_COLUMNS,
+      );
+    }
+    case 'goals':
+      return toCsv(
+        (await queryGoalsByUser(userId)).map(toGoalExportRow),
+        GOAL_EXPORT_COLUMNS,
+      );
+    case 'recurring-transactions':
+      return toCsv(
+        (await queryRecurringByUser(userId)).map(toRecurringExportRow),
+        RECURRING_EXPORT_COLUMNS,
+      );
+    default:
+      return toCsv(
+        (
+          await queryValuedTransactions(
+            userId,
+            query,
+            await getUserPreferredCurrency(userId),
+          )
+        ).map(toTransactionExportRow),
+        TRANSACTION_EXPORT_COLUMNS,
+      );
+  }
+};
+
+/**
+ * Returns the file inline when it fits in a proxy response. Otherwise it is
+ * uploaded and the client is redirected to a presigned download URL, which
+ * the body repeats for callers that do not follow redirects.
+ */
+const buildExportResponse = async (
+  userId: string,
+  body: string,
+  contentType: string,
+  fileName: string,
+  origin?: string,
+) => {
+  if (Buffer.byteLength(body) <= INLINE_EXPORT_MAX_BYTES) {
+    return buildFileResponse(body, contentType, fileName, origin);
+  }
+
+  const url = await storeExportFile(userId, body, contentType, fileName);
+  const response = buildResponse(
+    303,
+    { url, expiresInSeconds: EXPORT_URL_TTL_SECONDS },
+    origin,
+  );
+  return { ...response, headers: { ...response.headers, Location: url } };
+};
+
+export const handler: APIGatewayProxyHandler = async (
+  event: APIGatewayEvent,
+) => {
+  const origin = event.headers.origin || event.headers.Origin;
+
+  const userId = event.requestContext.authorizer?.claims?.sub;
+  if (!userId) {
+    return buildResponse(401, { message: 'Unauthorized' }, origin);
+  }
+
+  let query: ExportQuery;
+  try {
+    query = parseExportQuery(event.queryStringParameters);
+  } catch (error) {
+    return buildResponse(400, { message: (error as Error).message }, origin);
+  }
+
+  try {
+    if (query.format === 'csv') {
+      const csv = await buildCsv(userId, query.entity, query);
+      return buildExportResponse(
+        userId,
+        csv,
+        'text/csv; charset=utf-8',
+        buildFileName(query.entity, query),
+        origin,
+      );
+    }
+
+    // Amounts are exported as stored (base plus original currency) together
+    // with the snapshot captured at write time. Transactions also carry their
+    // preferred-currency value at the historical and at today's rate.
+    const [transactions, categories, goals, recurringTransactions] =
+      await Promise.all([
+        getUserPreferredCurrency(userId).then((preferredCurrency) =>
+          queryValuedTransactions(userId, query, preferredCurrency),
+        ),
+        queryCategoriesByUser(userId),
+        queryGoalsByUser(userId),
+        queryRecurringByUser(userId),
+      ]);
+
+    const ledger = {
+      exportedAt: new Date().toISOString(),
+      baseCurrency: BASE_CURRENCY_CODE,
+      from: query.from,
+      to: query.to,
+      transactions,
+      categories: limitCategoryMonths(categories, query.from, query.to),
+      goals,
+      recurringTransactions: recurringTransactions.map(withExportAmounts),
+    };
+
+    return buildExportResponse(
+      userId,
+      JSON.stringify(ledger),
+      'application/json',
+      buildFileName('ledger', query),
+      origin,
+    );
+  } catch (err) {
+    return buildResponse(500, { error: (err as Error).message }, origin);
+  }
+};
@@ -0,0 +1,3 @@
+export * from './parse-export-query';
+export * from './to-export-rows';
+export * from './with-valuations';
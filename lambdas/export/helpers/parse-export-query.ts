@@ -0,0 +1,60 @@
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportEntity =
+  | 'transactions'
+  | 'categories'
+  | 'goals'
+  | 'recurring-transactions';
+
+export interface ExportQuery {
+  format: ExportFormat;
+  entity: ExportEntity; // only used by the csv format, json carries everything
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+}
+
+const EXPORT_ENTITIES: ExportEntity[] = [
+  'transactions',
+  'categories',
+  'goals',
+  'recurring-transactions',
+];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (value: string | undefined, name: string) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (
+    !DATE_REGEX.test(value) ||
+    Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+  ) {
+    throw new Error(`${name} must be a date in the format YYYY-MM-DD`);
+  }
+  return value;
+};
+
+export const parseExportQuery = (
+  params: Record<string, string | undefined> | null | undefined,
+): ExportQuery => {
+  const query = params ?? {};
+
+  const format = query.format ?? 'json';
+  if (format !== 'csv' && format !== 'json') {
+    throw new Error('format must be either csv or json');
+  }
+
+  const entity = (query.entity ?? 'transactions') as ExportEntity;
+  if (!EXPORT_ENTITIES.includes(entity)) {
+    throw new Error(`entity must be one of ${EXPORT_ENTITIES.join(', ')}`);
+  }
+
+  const from = parseDate(query.from, 'from');
+  const to = parseDate(query.to, 'to');
+  if (from && to && from > to) {
+    throw new Error('from must not be after to');
+  }
+
+  return { format, entity, from, to };
+};
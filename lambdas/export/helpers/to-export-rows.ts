@@ -0,0 +1,194 @@
+import { BASE_CURRENCY_CODE } from '../../../utils';
+import type {
+  Category,
+  ExchangeRateSnapshot,
+  Goal,
+  RecurringTransaction,
+  Transaction,
+} from '../../../types/budget';
+import type { ValuedTransaction } from './with-valuations';
+
+type ExportRow = Record<string, unknown>;
+
+const SNAPSHOT_COLUMNS = [
+  'rateFrom',
+  'rateTo',
+  'rate',
+  'rateProvider',
+  'rateCapturedAt',
+];
+
+const toSnapshotFields = (snapshot?: ExchangeRateSnapshot): ExportRow => ({
+  rateFrom: snapshot?.fromCurrency,
+  rateTo: snapshot?.toCurrency,
+  rate: snapshot?.rate,
+  rateProvider: snapshot?.provider,
+  rateCapturedAt: snapshot?.capturedAt,
+});
+
+/** Legacy items only stored `amount`, which was already the base value. */
+const toAmountFields = (item: Transaction | RecurringTransaction) => {
+  const baseAmount = item.baseAmount ?? item.amount;
+  const baseCurrency = item.baseCurrency ?? BASE_CURRENCY_CODE;
+  return {
+    baseAmount,
+    baseCurrency,
+    originalAmount: item.originalAmount ?? baseAmount,
+    originalCurrency: item.originalCurrency ?? baseCurrency,
+  };
+};
+
+/** Stored item with its base and original amounts always present. */
+export const withExportAmounts = <T extends Transaction | RecurringTransaction>(
+  item: T,
+): T => ({ ...item, ...toAmountFields(item) });
+
+export const TRANSACTION_EXPORT_COLUMNS = [
+  'id',
+  'isoDate',
+  'date',
+  'description',
+  'category',
+  'type',
+  'baseAmount',
+  'baseCurrency',
+  'originalAmount',
+  'originalCurrency',
+  'valuationCurrency',
+  'historicalAmount',
+  'currentAmount',
+  ...SNAPSHOT_COLUMNS,
+  'splits',
+  'recurrenceId',
+  'recurrenceInstanceDate',
+];
+
+export const toTransactionExportRow = (item: ValuedTransaction): ExportRow => ({
+  id: item.id,
+  isoDate: item.dateKey?.split('#')[0],
+  date: item.date,
+  description: item.description,
+  category: item.category,
+  type: item.type,
+  ...toAmountFields(item),
+  valuationCurrency: item.valuationCurrency,
+  historicalAmount: item.historicalAmount,
+  currentAmount: item.currentAmount,
+  ...toSnapshotFields(item.exchangeRateSnapshot),
+  splits: item.splits,
+  recurrenceId: item.recurrenceId,
+  recurrenceInstanceDate: item.recurrenceInstanceDate,
+});
+
+export const CATEGORY_EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'type',
+  'color',
+  'month',
+  'baseLimit',
+  'baseSpent',
+  'baseCurrency',
+];
+
+/** One row per category and month so limits can be compared over time. */
+export const toCategoryExportRows = (item: Category): ExportRow[] =>
+  Object.entries(item.monthlyData ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, entry]) => ({
+      id: item.id,
+      name: item.name,
+      type: item.type,
+      color: item.color,
+      month,
+      baseLimit: entry.baseLimit ?? entry.limit,
+      baseSpent: entry.baseSpent ?? entry.spent,
+      baseCurrency: item.baseCurrency ?? BASE_CURRENCY_CODE,
+    }));
+
+export const GOAL_EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'targetDate',
+  'target',
+  'current',
+  'baseCurrency',
+];
+
+export const toGoalExportRow = (item: Goal): ExportRow => ({
+  id: item.id,
+  name: item.name,
+  description: item.description,
+  targetDate: item.targetDate,
+  target: item.target,
+  current: item.current,
+  baseCurrency: item.baseCurrency ?? BASE_CURRENCY_CODE,
+});
+
+export const RECURRING_EXPORT_COLUMNS = [
+  'id',
+  'description',
+  'category',
+  'type',
+  'baseAmount',
+  'baseCurrency',
+  'originalAmount',
+  'originalCurrency',
+  ...SNAPSHOT_COLUMNS,
+  'frequency',
+  'interval',
+  'startDate',
+  'endDate',
+  'count',
+  'dayOfMonth',
+  'weekday',
+  'weekOfMonth',
+  'lastBusinessDay',
+  'nextOccurrence',
+  'status',
+];
+
+export const toRecurringExportRow = (
+  item: RecurringTransaction,
+): ExportRow => ({
+  id: item.id,
+  description: item.description,
+  category: item.category,
+  type: item.type,
+  ...toAmountFields(item),
+  ...toSnapshotFields(item.exchangeRateSnapshot),
+  frequency: item.rule?.frequency,
+  interval: item.rule?.interval,
+  startDate: item.rule?.startDate,
+  endDate: item.rule?.endDate,
+  count: item.rule?.count,
+  dayOfMonth: item.rule?.dayOfMonth,
+  weekday: item.rule?.weekday,
+  weekOfMonth: item.rule?.weekOfMonth,
+  lastBusinessDay: item.rule?.lastBusinessDay,
+  nextOccurrence: item.nextOccurrence,
+  status: item.status,
+});
+
+/** Keeps only the monthlyData entries that overlap the requested range. */
+export const limitCategoryMonths = (
+  categories: Category[],
+  from?: string,
+  to?: string,
+): Category[] => {
+  if (!from && !to) {
+    return categories;
+  }
+  const fromMonth = from?.slice(0, 7);
+  const toMonth = to?.slice(0, 7);
+  return categories.map((category) => ({
+    ...category,
+    monthlyData: Object.fromEntries(
+      Object.entries(category.monthlyData ?? {}).filter(
+        ([month]) =>
+          (!fromMonth || month >= fromMonth) && (!toMonth || month <= toMonth),
+      ),
+    ),
+  }));
+};
@@ -0,0 +1,30 @@
+import { valueAtCurrentRate, valueAtTransactionDate } from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type { CurrencyCode, Transaction } from '../../../types/budget';
+
+export interface ValuedTransaction extends Transaction {
+  valuationCurrency: CurrencyCode;
+  historicalAmount: number; // at the rate of the transaction's date
+  currentAmount: number; // at today's rate
+}
+
+/** Adds the preferred-currency value at both the historical and today's rate. */
+export const withValuations = (
+  items: Transaction[],
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+): Promise<ValuedTransaction[]> =>
+  Promise.all(
+    items.map(async (item) => {
+      const [historical, current] = await Promise.all([
+        valueAtTransactionDate(item, preferredCurrency, rateContext),
+        valueAtCurrentRate(item, preferredCurrency, rateContext),
+      ]);
+      return {
+        ...item,
+        valuationCurrency: preferredCurrency,
+        historicalAmount: historical.amount,
+        currentAmount: current.amount,
+      };
+    }),
+  );
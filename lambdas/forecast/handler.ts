@@ -0,0 +1,61 @@
+import { APIGatewayEvent, APIGatewayProxyHandler } from 'aws-lambda';
+import {
+  buildResponse,
+  createRateContext,
+  getUserPreferredCurrency,
+} from '../../utils';
+import {
+  queryCategoriesByUser,
+  queryTransactionsByUser,
+} from '../../utils/ledger-store';
+import { queryRecurringByUser } from '../../utils/recurring/store';
+import {
+  buildCashFlowForecast,
+  parseForecastMonths,
+  toForecastResponse,
+} from './helpers';
+
+export const handler: APIGatewayProxyHandler = async (
+  event: APIGatewayEvent,
+) => {
+  const origin = event.headers.origin || event.headers.Origin;
+
+  const userId = event.requestContext.authorizer?.claims?.sub;
+  if (!userId) {
+    return buildResponse(401, { message: 'Unauthorized' }, origin);
+  }
+
+  let months: number;
+  try {
+    months = parseForecastMonths(event.queryStringParameters?.months);
+  } catch (error) {
+    return buildResponse(400, { message: (error as Error).message }, origin);
+  }
+
+  const rateContext = createRateContext();
+
+  try {
+    const [preferredCurrency, transactions, categories, recurring] =
+      await Promise.all([
+        getUserPreferredCurrency(userId),
+        queryTransactionsByUser(userId),
+        queryCategoriesByUser(userId),
+        queryRecurringByUser(userId),
+      ]);
+
+    const forecast = buildCashFlowForecast(
+      new Date().toISOString().slice(0, 10),
+      months,
+      { transactions, categories, recurring },
+    );
+    const shaped = await toForecastResponse(
+      forecast,
+      preferredCurrency,
+      rateContext,
+    );
+
+    return buildResponse(200, shaped, origin);
+  } catch (err) {
+    return buildResponse(500, { error: (err as Error).message }, origin);
+  }
+};
@@ -0,0 +1,233 @@
+import {
+  BASE_CURRENCY_CODE,
+  allocateTransactionAmount,
+  applyOccurrenceAmount,
+  getBookedDate,
+  getNextOccurrence,
+  getOccurrenceOverride,
+  getRuleEndDate,
+  toCurrencyNumber,
+} from '../../../utils';
+import type {
+  CashFlowForecast,
+  Category,
+  ForecastCategory,
+  ForecastMonth,
+  RecurringTransaction,
+  Transaction,
+} from '../../../types/budget';
+
+export const FORECAST_LOOKBACK_MONTHS = 3;
+
+export interface ForecastLedger {
+  transactions: Transaction[];
+  categories: Category[];
+  recurring: RecurringTransaction[];
+}
+
+interface ForecastOccurrence {
+  month: string;
+  type: RecurringTransaction['type'];
+  category: string;
+  baseAmount: number;
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const addMonths = (month: string, offset: number) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + offset, 1))
+    .toISOString()
+    .slice(0, 7);
+};
+
+const daysInMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+};
+
+const toBaseAmount = (item: { baseAmount?: number; amount?: number }) =>
+  toCurrencyNumber(item.baseAmount ?? item.amount ?? 0);
+
+/**
+ * Every upcoming occurrence of the active rules up to `lastMonth`, with
+ * overrides applied. Overdue occurrences the materializer has not booked
+ * yet are counted in `firstMonth`.
+ */
+const expandRecurring = (
+  recurring: RecurringTransaction[],
+  firstMonth: string,
+  lastMonth: string,
+): ForecastOccurrence[] =>
+  recurring
+    .filter((item) => item.status === 'active')
+    .flatMap((item) => {
+      const occurrences: ForecastOccurrence[] = [];
+      const endDate = getRuleEndDate(item.rule);
+      for (
+        let date = item.nextOccurrence;
+        date.slice(0, 7) <= lastMonth && (!endDate || date <= endDate);
+        date = getNextOccurrence(item.rule, date)
+      ) {
+        const month = getBookedDate(item, date).slice(0, 7);
+        if (getOccurrenceOverride(item, date)?.skip || month > lastMonth) {
+          continue;
+        }
+        occurrences.push({
+          month: month < firstMonth ? firstMonth : month,
+          type: item.type,
+          category: item.category,
+          baseAmount: toBaseAmount(applyOccurrenceAmount(item, date)),
+        });
+      }
+      return occurrences;
+    });
+
+/** Monthly average of the non-recurring expense per category key. */
+const averageDiscretionarySpend = (
+  transactions: Transaction[],
+  firstMonth: string,
+) => {
+  const from = addMonths(firstMonth, -FORECAST_LOOKBACK_MONTHS);
+  const totals = new Map<string, number>();
+  transactions
+    .filter((txn) => {
+      const month = (txn.dateKey ?? '').slice(0, 7);
+      return (
+        txn.type === 'expense' &&
+        !txn.recurrenceId &&
+        month >= from &&
+        month < firstMonth
+      );
+    })
+    .forEach((txn) =>
+      allocateTransactionAmount(txn).forEach(({ category, baseAmount }) =>
+        totals.set(category, (totals.get(category) ?? 0) + baseAmount),
+      ),
+    );
+  return new Map(
+    [...totals].map(([category, total]) => [
+      category,
+      total / FORECAST_LOOKBACK_MONTHS,
+    ]),
+  );
+};
+
+/**
+ * Projects month-end balances from `today` on. The starting balance is the
+ * net of the ledger up to and including `today`; each month adds its recurring
+ * occurrences and subtracts the average non-recurring spend of the last
+ * three full months, prorated for what is left of the current month.
+ * Every amount in the result is expressed in the base currency.
+ */
+export const buildCashFlowForecast = (
+  today: string,
+  monthCount: number,
+  { transactions, categories, recurring }: ForecastLedger,
+): CashFlowForecast => {
+  const firstMonth = today.slice(0, 7);
+  const lastMonth = addMonths(firstMonth, monthCount - 1);
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const byName = new Map(
+    categories.map((category) => [category.name, category]),
+  );
+  const resolve = (key: string) => {
+    const category = byId.get(key) ?? byName.get(key);
+    return { category: category?.id ?? key, name: category?.name ?? key };
+  };
+
+  // Future-dated entries have not happened yet; recurring ones are projected.
+  const startingBalance = transactions
+    .filter((txn) => (txn.dateKey ?? '').slice(0, 10) <= today)
+    .reduce(
+      (sum, txn) =>
+        txn.type === 'income'
+          ? sum + toBaseAmount(txn)
+          : sum - toBaseAmount(txn),
+      0,
+    );
+  const occurrences = expandRecurring(recurring, firstMonth, lastMonth);
+  const averages = new Map<string, number>();
+  averageDiscretionarySpend(transactions, firstMonth).forEach((amount, key) => {
+    const { category } = resolve(key);
+    averages.set(category, (averages.get(category) ?? 0) + amount);
+  });
+  const daysLeft = daysInMonth(firstMonth) - Number(today.slice(8, 10)) + 1;
+
+  let balance = startingBalance;
+  const months: ForecastMonth[] = Array.from(
+    { length: monthCount },
+    (_, index) => {
+      const month = addMonths(firstMonth, index);
+      const share = index === 0 ? daysLeft / daysInMonth(month) : 1;
+      const inMonth = occurrences.filter((item) => item.month === month);
+      const recurringIncome = inMonth
+        .filter((item) => item.type === 'income')
+        .reduce((sum, item) => sum + item.baseAmount, 0);
+
+      const byCategory = new Map<string, ForecastCategory>();
+      const entryFor = (key: string) => {
+        const resolved = resolve(key);
+        const entry = byCategory.get(resolved.category) ?? {
+          ...resolved,
+          recurringExpense: 0,
+          estimatedSpend: 0,
+        };
+        byCategory.set(resolved.category, entry);
+        return entry;
+      };
+      inMonth
+        .filter((item) => item.type === 'expense')
+        .forEach((item) => {
+          entryFor(item.category).recurringExpense += item.baseAmount;
+        });
+      averages.forEach((amount, key) => {
+        entryFor(key).estimatedSpend += amount * share;
+      });
+
+      const entries = [...byCategory.values()];
+      const recurringExpense = entries.reduce(
+        (sum, entry) => sum + entry.recurringExpense,
+        0,
+      );
+      const estimatedSpend = entries.reduce(
+        (sum, entry) => sum + entry.estimatedSpend,
+        0,
+      );
+      const net = recurringIncome - recurringExpense - estimatedSpend;
+      const openingBalance = balance;
+      balance += net;
+
+      return {
+        month,
+        recurringIncome: round(recurringIncome),
+        recurringExpense: round(recurringExpense),
+        estimatedSpend: round(estimatedSpend),
+        net: round(net),
+        openingBalance: round(openingBalance),
+        closingBalance: round(balance),
+        categories: entries.map((entry) => ({
+          ...entry,
+          recurringExpense: round(entry.recurringExpense),
+          estimatedSpend: round(entry.estimatedSpend),
+        })),
+      };
+    },
+  );
+
+  const lowest = months.reduce(
+    (min, month) => Math.min(min, month.closingBalance),
+    round(startingBalance),
+  );
+
+  return {
+    currency: BASE_CURRENCY_CODE,
+    baseCurrency: BASE_CURRENCY_CODE,
+    startingBalance: round(startingBalance),
+    lookbackMonths: FORECAST_LOOKBACK_MONTHS,
+    lowestBalance: lowest,
+    firstNegativeMonth:
+      months.find((month) => month.closingBalance < 0)?.month ?? null,
+    months,
+  };
+};
@@ -0,0 +1,3 @@
+export * from './build-cash-flow-forecast';
+export * from './parse-forecast-months';
+export * from './to-forecast-response';
@@ -0,0 +1,17 @@
+const DEFAULT_FORECAST_MONTHS = 6;
+const MAX_FORECAST_MONTHS = 24;
+
+export const parseForecastMonths = (monthsParam?: string): number => {
+  if (!monthsParam) {
+    return DEFAULT_FORECAST_MONTHS;
+  }
+
+  const months = Number(monthsParam);
+  if (!Number.isInteger(months) || months < 1 || months > MAX_FORECAST_MONTHS) {
+    throw new Error(
+      `months must be an integer between 1 and ${MAX_FORECAST_MONTHS}`,
+    );
+  }
+
+  return months;
+};
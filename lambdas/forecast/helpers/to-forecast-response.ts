@@ -0,0 +1,80 @@
+import { convertFromBaseCurrency } from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type { CashFlowForecast, CurrencyCode } from '../../../types/budget';
+
+export const toForecastResponse = async (
+  forecast: CashFlowForecast,
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+): Promise<CashFlowForecast> => {
+  if (preferredCurrency === forecast.baseCurrency) {
+    return forecast;
+  }
+
+  const convert = async (value: number) =>
+    (await convertFromBaseCurrency(value, preferredCurrency, rateContext))
+      .amount;
+
+  const [startingBalance, lowestBalance] = await Promise.all(
+    [forecast.startingBalance, forecast.lowestBalance].map(convert),
+  );
+
+  const months = await Promise.all(
+    forecast.months.map(async (month) => {
+      const [
+        recurringIncome,
+        recurringExpense,
+        estimatedSpend,
+        net,
+        openingBalance,
+        closingBalance,
+      ] = await Promise.all(
+        [
+          month.recurringIncome,
+          month.recurringExpense,
+          month.estimatedSpend,
+          month.net,
+          month.openingBalance,
+          month.closingBalance,
+        ].map(convert),
+      );
+      const categories = await Promise.all(
+        month.categories.map(async (category) => {
+          const [categoryRecurring, categoryEstimated] = await Promise.all(
+            [category.recurringExpense, category.estimatedSpend].map(convert),
+          );
+          return {
+            ...category,
+            recurringExpense: categoryRecurring,
+            estimatedSpend: categoryEstimated,
+          };
+        }),
+      );
+      return {
+        ...month,
+        recurringIncome,
+        recurringExpense,
+        estimatedSpend,
+        net,
+        openingBalance,
+        closingBalance,
+        categories,
+      };
+    }),
+  );
+
+  const { snapshot } = await convertFromBaseCurrency(
+    0,
+    preferredCurrency,
+    rateContext,
+  );
+
+  return {
+    ...forecast,
+    currency: preferredCurrency,
+    startingBalance,
+    lowestBalance,
+    months,
+    exchangeRateSnapshot: snapshot,
+  };
+};
@@ -0,0 +1,113 @@
+import { APIGatewayEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import {
+  buildResponse,
+  getContributionDelta,
+  queryGoalContributions,
+  recordGoalContribution,
+} from '../../utils';
+import type { RateContext } from '../../utils';
+import type { CurrencyCode, Goal, GoalContribution } from '../../types/budget';
+import { buildGoalContribution, toContributionHistory } from './helpers';
+
+const client = new DynamoDBClient({});
+const TABLE_NAME = process.env.TABLE_NAME!;
+
+export interface ContributionRequestContext {
+  origin?: string;
+  preferredCurrency: CurrencyCode;
+  rateContext: RateContext;
+}
+
+/** Serves GET and POST /goals/{id}/contributions for the goal's owner. */
+export const handleContributionsRequest = async (
+  event: APIGatewayEvent,
+  goalId: string,
+  userId: string,
+  { origin, preferredCurrency, rateContext }: ContributionRequestContext,
+): Promise<APIGatewayProxyResult> => {
+  const { Item } = await client.send(
+    new GetItemCommand({
+      TableName: TABLE_NAME,
+      Key: marshall({ id: goalId }),
+    }),
+  );
+  if (!Item) {
+    return buildResponse(404, { message: 'Goal not found' }, origin);
+  }
+
+  const goal = unmarshall(Item) as Goal;
+  if (goal.userId !== userId) {
+    return buildResponse(403, { message: 'Forbidden' }, origin);
+  }
+
+  if (event.httpMethod === 'GET') {
+    const contributions = await queryGoalContributions(goalId);
+    const history = await toContributionHistory(
+      goal,
+      contributions,
+      preferredCurrency,
+      rateContext,
+    );
+    return buildResponse(200, history, origin);
+  }
+
+  if (event.httpMethod === 'POST' && event.body) {
+    let contribution: GoalContribution;
+    try {
+      contribution = await buildGoalContribution(
+        goal,
+        JSON.parse(event.body),
+        preferredCurrency,
+        rateContext,
+      );
+    } catch (error) {
+      return buildResponse(400, { message: (error as Error).message }, origin);
+    }
+
+    const result = await recordGoalContribution(contribution);
+    if (result === 'insufficient') {
+      return buildResponse(
+        400,
+        { message: 'Withdrawal exceeds the goal balance' },
+        origin,
+      );
+    }
+    if (result === 'goalNotFound') {
+      // Deleted between the read above and the balance update.
+      return buildResponse(404, { message: 'Goal not found' }, origin);
+    }
+    if (result === 'duplicate') {
+      return buildResponse(
+        409,
+        { message: 'Contribution already recorded' },
+        origin,
+      );
+    }
+
+    const updatedGoal: Goal = {
+      ...goal,
+      current: Number(
+        ((goal.current ?? 0) + getContributionDelta(contribution)).toFixed(2),
+      ),
+    };
+    const history = await toContributionHistory(
+      updatedGoal,
+      [contribution],
+      preferredCurrency,
+      rateContext,
+    );
+    return buildResponse(
+      201,
+      { ...history.contributions[0], current: history.current },
+      origin,
+    );
+  }
+
+  return buildResponse(
+    400,
+    { message: 'Unsupported method or missing data.' },
+    origin,
+  );
+};
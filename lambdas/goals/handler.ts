@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { APIGatewayEvent, APIGatewayProxyHandler } from 'aws-lambda';
 import {
+  ConditionalCheckFailedException,
   DeleteItemCommand,
   DynamoDBClient,
   GetItemCommand,
@@ -11,18 +12,23 @@ import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import {
   BASE_CURRENCY_CODE,
   buildResponse,
-  convertFromBaseCurrency,
   convertToBaseCurrency,
   createRateContext,
+  deleteGoalContributions,
   getUserPreferredCurrency,
   normalizeCurrencyCode,
+  queryGoalContributions,
   toCurrencyNumber,
 } from '../../utils';
 import type { CurrencyCode, Goal } from '../../types/budget';
 import type { RateContext } from '../../utils';
+import { handleContributionsRequest } from './contributions';
+import { shapeGoalResponse } from './helpers';
 
 const client = new DynamoDBClient({});
 const TABLE_NAME = process.env.TABLE_NAME!;
+const CURRENT_READ_ONLY_MESSAGE =
+  'current is derived from contributions; use POST /goals/{id}/contributions';
 const normalizeGoalAmounts = async (
   value: number,
   currency: CurrencyCode,
@@ -36,41 +42,15 @@ const normalizeGoalAmounts = async (
   return baseAmount;
 };
 
-const shapeGoalResponse = async (
-  goal: Goal,
-  preferredCurrency: CurrencyCode,
-  rateContext: RateContext,
-) => {
-  const baseCurrency = goal.baseCurrency || BASE_CURRENCY_CODE;
-
-  if (preferredCurrency === baseCurrency) {
-    return {
-      ...goal,
-      currency: baseCurrency,
-      displayTarget: goal.target,
-      displayCurrent: goal.current,
-    };
-  }
-
-  const [targetConversion, currentConversion] = await Promise.all([
-    convertFromBaseCurrency(goal.target ?? 0, preferredCurrency, rateContext),
-    convertFromBaseCurrency(goal.current ?? 0, preferredCurrency, rateContext),
-  ]);
-
-  return {
-    ...goal,
-    currency: preferredCurrency,
-    displayTarget: targetConversion.amount,
-    displayCurrent: currentConversion.amount,
-  };
-};
-
 export const handler: APIGatewayProxyHandler = async (
   event: APIGatewayEvent,
 ) => {
   const { httpMethod, pathParameters, body, requestContext } = event;
   const id = pathParameters?.id;
   const origin = event.headers.origin || event.headers.Origin;
+  const isContributionsRequest =
+    event.resource === '/goals/{id}/contributions' ||
+    (event.path ?? '').endsWith('/contributions');
 
   const userId = requestContext.authorizer?.claims?.sub;
   if (!userId) {
@@ -82,6 +62,14 @@ export const handler: APIGatewayProxyHandler = async (
   try {
     const preferredCurrencyPromise = getUserPreferredCurrency(userId);
 
+    if (isContributionsRequest && id) {
+      return await handleContributionsRequest(event, id, userId, {
+        origin,
+        preferredCurrency: await preferredCurrencyPromise,
+        rateContext,
+      });
+    }
+
     if (httpMethod === 'GET' && id) {
       const res = await client.send(
         new GetItemCommand({ TableName: TABLE_NAME, Key: marshall({ id }) }),
@@ -96,11 +84,15 @@ export const handler: APIGatewayProxyHandler = async (
         return buildResponse(403, { message: 'Forbidden' }, origin);
       }
 
-      const preferredCurrency = await preferredCurrencyPromise;
+      const [preferredCurrency, contributions] = await Promise.all([
+        preferredCurrencyPromise,
+        queryGoalContributions(id),
+      ]);
       const shaped = await shapeGoalResponse(
         item,
         preferredCurrency,
         rateContext,
+        contributions,
       );
 
       return buildResponse(200, shaped, origin);
@@ -119,8 +111,13 @@ export const handler: APIGatewayProxyHandler = async (
 
       const preferredCurrency = await preferredCurrencyPromise;
       const shaped = await Promise.all(
-        items.map((item) =>
-          shapeGoalResponse(item, preferredCurrency, rateContext),
+        items.map(async (item) =>
+          shapeGoalResponse(
+            item,
+            preferredCurrency,
+            rateContext,
+            await queryGoalContributions(item.id),
+          ),
         ),
       );
 
@@ -129,6 +126,13 @@ export const handler: APIGatewayProxyHandler = async (
 
     if (httpMethod === 'POST' && body) {
       const payload = JSON.parse(body);
+      if (payload.current !== undefined) {
+        return buildResponse(
+          400,
+          { message: CURRENT_READ_ONLY_MESSAGE },
+          origin,
+        );
+      }
       const preferredCurrency = await preferredCurrencyPromise;
       const currency = normalizeCurrencyCode(preferredCurrency);
       const target = await normalizeGoalAmounts(
@@ -136,18 +140,13 @@ export const handler: APIGatewayProxyHandler = async (
         currency,
         rateContext,
       );
-      const current = await normalizeGoalAmounts(
-        toCurrencyNumber(payload.current ?? 0),
-        currency,
-        rateContext,
-      );
 
       const goal: Goal = {
         id: payload.id ?? uuidv4(),
         userId,
         name: payload.name,
         target,
-        current,
+        current: 0,
         targetDate: payload.targetDate,
         description: payload.description,
         currency,
@@ -182,6 +181,13 @@ export const handler: APIGatewayProxyHandler = async (
       }
 
       const payload = JSON.parse(body);
+      if (payload.current !== undefined) {
+        return buildResponse(
+          400,
+          { message: CURRENT_READ_ONLY_MESSAGE },
+          origin,
+        );
+      }
       const preferredCurrency = await preferredCurrencyPromise;
       const currency = normalizeCurrencyCode(preferredCurrency);
 
@@ -193,14 +199,6 @@ export const handler: APIGatewayProxyHandler = async (
               rateContext,
             )
           : stored.target;
-      const updatedCurrent =
-        payload.current !== undefined
-          ? await normalizeGoalAmounts(
-              toCurrencyNumber(payload.current),
-              currency,
-              rateContext,
-            )
-          : stored.current;
 
       const updated: Goal = {
         ...stored,
@@ -208,19 +206,42 @@ export const handler: APIGatewayProxyHandler = async (
         description: payload.description ?? stored.description,
         targetDate: payload.targetDate ?? stored.targetDate,
         target: updatedTarget,
-        current: updatedCurrent,
         currency,
         baseCurrency: BASE_CURRENCY_CODE,
       };
 
-      await client.send(
-        new PutItemCommand({ TableName: TABLE_NAME, Item: marshall(updated) }),
-      );
+      try {
+        // Contributions move `current` concurrently; never write it back stale.
+        await client.send(
+          new PutItemCommand({
+            TableName: TABLE_NAME,
+            Item: marshall(updated),
+            ConditionExpression:
+              stored.current === undefined
+                ? 'attribute_not_exists(#current) OR #current = :current'
+                : '#current = :current',
+            ExpressionAttributeNames: { '#current': 'current' },
+            ExpressionAttributeValues: marshall({
+              ':current': stored.current ?? 0,
+            }),
+          }),
+        );
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+          return buildResponse(
+            409,
+            { message: 'Goal balance changed, retry the update' },
+            origin,
+          );
+        }
+        throw error;
+      }
 
       const shaped = await shapeGoalResponse(
         updated,
         preferredCurrency,
         rateContext,
+        await queryGoalContributions(id),
       );
 
       return buildResponse(200, shaped, origin);
@@ -240,6 +261,8 @@ export const handler: APIGatewayProxyHandler = async (
         return buildResponse(403, { message: 'Forbidden' }, origin);
       }
 
+      // The ledger goes first so a failed delete can simply be retried.
+      await deleteGoalContributions(id);
       await client.send(
         new DeleteItemCommand({ TableName: TABLE_NAME, Key: marshall({ id }) }),
       );
@@ -0,0 +1,146 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BASE_CURRENCY_CODE,
+  convertFromBaseCurrency,
+  convertToBaseCurrency,
+  getContributionDelta,
+  isSupportedCurrency,
+  toCurrencyNumber,
+} from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type {
+  CurrencyCode,
+  Goal,
+  GoalContribution,
+  GoalContributionHistory,
+} from '../../../types/budget';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const isValidDate = (value: string) =>
+  DATE_REGEX.test(value) &&
+  new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+/**
+ * Validates a deposit or withdrawal and converts it to the base currency.
+ * Throws with a client facing message when the payload is invalid. The
+ * date defaults to today and the currency to the caller's preferred one.
+ */
+export const buildGoalContribution = async (
+  goal: Goal,
+  payload: Record<string, unknown>,
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+  now: Date = new Date(),
+): Promise<GoalContribution> => {
+  const type = payload.type ?? 'deposit';
+  if (type !== 'deposit' && type !== 'withdrawal') {
+    throw new Error('type must be either deposit or withdrawal');
+  }
+
+  const amount = Number(payload.amount);
+  if (typeof payload.amount !== 'number' || !Number.isFinite(amount)) {
+    throw new Error('amount must be a number');
+  }
+  if (amount <= 0) {
+    throw new Error('amount must be positive; use type withdrawal instead');
+  }
+
+  const date = payload.date ?? now.toISOString().slice(0, 10);
+  if (typeof date !== 'string' || !isValidDate(date)) {
+    throw new Error('date must be a date in the format YYYY-MM-DD');
+  }
+
+  const currency = payload.currency ?? preferredCurrency;
+  if (typeof currency !== 'string' || !isSupportedCurrency(currency)) {
+    throw new Error(`Currency "${String(currency)}" is not supported`);
+  }
+
+  const originalAmount = toCurrencyNumber(amount);
+  const { baseAmount, snapshot } = await convertToBaseCurrency(
+    originalAmount,
+    currency,
+    rateContext,
+  );
+  const id = uuidv4();
+
+  return {
+    goalId: goal.id,
+    dateKey: `${date}#${id}`,
+    id,
+    userId: goal.userId,
+    type,
+    date,
+    baseAmount,
+    baseCurrency: BASE_CURRENCY_CODE,
+    originalAmount,
+    originalCurrency: currency,
+    exchangeRateSnapshot: snapshot,
+    note: typeof payload.note === 'string' ? payload.note : undefined,
+    createdAt: now.toISOString(),
+  };
+};
+
+/**
+ * Shapes the ledger for charts: entries oldest first with the running
+ * balance after each one. Balance that predates the ledger (goals created
+ * with a starting `current`) is reported as `openingBalance`.
+ */
+export const toContributionHistory = async (
+  goal: Goal,
+  contributions: GoalContribution[],
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+): Promise<GoalContributionHistory> => {
+  const toPreferred = async (baseAmount: number) =>
+    preferredCurrency === BASE_CURRENCY_CODE
+      ? baseAmount
+      : (
+          await convertFromBaseCurrency(
+            baseAmount,
+            preferredCurrency,
+            rateContext,
+          )
+        ).amount;
+
+  const ledgerTotal = contributions.reduce(
+    (sum, contribution) => sum + getContributionDelta(contribution),
+    0,
+  );
+  const openingBalance = round((goal.current ?? 0) - ledgerTotal);
+
+  let balance = openingBalance;
+  const balances = contributions.map((contribution) => {
+    balance = round(balance + getContributionDelta(contribution));
+    return balance;
+  });
+
+  const entries = await Promise.all(
+    contributions.map(async (contribution, index) => {
+      const [amount, shapedBalance] = await Promise.all([
+        toPreferred(contribution.baseAmount),
+        toPreferred(balances[index]),
+      ]);
+      return {
+        id: contribution.id,
+        type: contribution.type,
+        date: contribution.date,
+        amount,
+        originalAmount: contribution.originalAmount,
+        originalCurrency: contribution.originalCurrency,
+        balance: shapedBalance,
+        note: contribution.note,
+      };
+    }),
+  );
+
+  return {
+    goalId: goal.id,
+    currency: preferredCurrency,
+    openingBalance: await toPreferred(openingBalance),
+    current: await toPreferred(goal.current ?? 0),
+    contributions: entries,
+  };
+};
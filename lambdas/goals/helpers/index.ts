@@ -0,0 +1,3 @@
+export * from './contributions';
+export * from './project-goal';
+export * from './shape-goal-response';
@@ -0,0 +1,113 @@
+import { getContributionDelta } from '../../../utils';
+import type {
+  Goal,
+  GoalContribution,
+  GoalProjection,
+  GoalStatus,
+} from '../../../types/budget';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+const VELOCITY_WINDOW_DAYS = 90;
+// A projection at least this far before the target date counts as ahead.
+const AHEAD_MARGIN_DAYS = 30;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const toDay = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00Z`);
+
+const startOfDay = (date: Date) =>
+  new Date(date.toISOString().slice(0, 10) + 'T00:00:00Z');
+
+/**
+ * Net contributions per month over the last 90 days. Younger ledgers are
+ * averaged since their first entry, counting at least one month so a single
+ * early deposit does not look like a huge monthly pace.
+ */
+const computeMonthlyVelocity = (
+  contributions: GoalContribution[],
+  today: Date,
+) => {
+  if (!contributions.length) {
+    return 0;
+  }
+  const firstDate = contributions
+    .map((contribution) => toDay(contribution.date))
+    .reduce((min, date) => (date < min ? date : min));
+  const windowStart = new Date(
+    Math.max(
+      today.getTime() - VELOCITY_WINDOW_DAYS * DAY_MS,
+      firstDate.getTime(),
+    ),
+  );
+  const months = Math.max(
+    (today.getTime() - windowStart.getTime()) / DAY_MS / DAYS_PER_MONTH,
+    1,
+  );
+  const net = contributions
+    .filter((contribution) => toDay(contribution.date) >= windowStart)
+    .reduce((sum, contribution) => sum + getContributionDelta(contribution), 0);
+  return net / months;
+};
+
+/**
+ * Projects when the goal reaches `target` at its recent contribution pace
+ * and how much it still needs per month to make `targetDate`. Amounts are
+ * in the base currency. Goals without a positive pace never complete and
+ * are behind; overdue goals need the whole remainder now.
+ */
+export const projectGoal = (
+  goal: Goal,
+  contributions: GoalContribution[],
+  now: Date = new Date(),
+): GoalProjection => {
+  const today = startOfDay(now);
+  const remaining = Math.max((goal.target ?? 0) - (goal.current ?? 0), 0);
+  const monthlyVelocity = round(computeMonthlyVelocity(contributions, today));
+
+  if (remaining === 0) {
+    return {
+      status: 'achieved',
+      monthlyVelocity,
+      requiredMonthly: 0,
+      projectedCompletionDate: null,
+    };
+  }
+
+  const targetDate = goal.targetDate ? toDay(goal.targetDate) : undefined;
+  const hasTargetDate = !!targetDate && !Number.isNaN(targetDate.getTime());
+  const monthsLeft = hasTargetDate
+    ? (targetDate.getTime() - today.getTime()) / DAY_MS / DAYS_PER_MONTH
+    : undefined;
+  const requiredMonthly =
+    monthsLeft === undefined ? 0 : round(remaining / Math.max(monthsLeft, 1));
+
+  const projected =
+    monthlyVelocity > 0
+      ? new Date(
+          today.getTime() +
+            Math.ceil((remaining / monthlyVelocity) * DAYS_PER_MONTH) * DAY_MS,
+        )
+      : undefined;
+
+  let status: GoalStatus = 'onTrack';
+  if (!projected) {
+    status = 'behind';
+  } else if (hasTargetDate && projected > targetDate) {
+    status = 'behind';
+  } else if (
+    hasTargetDate &&
+    targetDate.getTime() - projected.getTime() >= AHEAD_MARGIN_DAYS * DAY_MS
+  ) {
+    status = 'ahead';
+  }
+
+  return {
+    status,
+    monthlyVelocity,
+    requiredMonthly,
+    projectedCompletionDate: projected
+      ? projected.toISOString().slice(0, 10)
+      : null,
+  };
+};
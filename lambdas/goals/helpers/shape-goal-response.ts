@@ -0,0 +1,56 @@
+import { BASE_CURRENCY_CODE, convertFromBaseCurrency } from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type {
+  CurrencyCode,
+  Goal,
+  GoalContribution,
+} from '../../../types/budget';
+import { projectGoal } from './project-goal';
+
+export const shapeGoalResponse = async (
+  goal: Goal,
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+  contributions: GoalContribution[] = [],
+) => {
+  const baseCurrency = goal.baseCurrency || BASE_CURRENCY_CODE;
+  const projection = projectGoal(goal, contributions);
+
+  if (preferredCurrency === baseCurrency) {
+    return {
+      ...goal,
+      currency: baseCurrency,
+      displayTarget: goal.target,
+      displayCurrent: goal.current,
+      projection,
+    };
+  }
+
+  const [
+    targetConversion,
+    currentConversion,
+    velocityConversion,
+    requiredConversion,
+  ] = await Promise.all(
+    [
+      goal.target ?? 0,
+      goal.current ?? 0,
+      projection.monthlyVelocity,
+      projection.requiredMonthly,
+    ].map((amount) =>
+      convertFromBaseCurrency(amount, preferredCurrency, rateContext),
+    ),
+  );
+
+  return {
+    ...goal,
+    currency: preferredCurrency,
+    displayTarget: targetConversion.amount,
+    displayCurrent: currentConversion.amount,
+    projection: {
+      ...projection,
+      monthlyVelocity: velocityConversion.amount,
+      requiredMonthly: requiredConversion.amount,
+    },
+  };
+};
@@ -0,0 +1,105 @@
+import { APIGatewayEvent, APIGatewayProxyHandler } from 'aws-lambda';
+import {
+  BASE_CURRENCY_CODE,
+  buildResponse,
+  createRateContext,
+  getRatesStatus,
+  getSupportedCurrencies,
+  queryRateHistory,
+} from '../../utils';
+import type { CurrencyCode } from '../../types/budget';
+import { parseCurrencyParam, parseHistoryRange } from './helpers';
+import type { RateHistoryRange } from './helpers';
+
+const STATUS_RESOURCE = '/rates/status';
+
+const listRates = async (base: CurrencyCode) => {
+  const rateContext = createRateContext();
+  const rates = await Promise.all(
+    getSupportedCurrencies()
+      .filter((currency) => currency !== base)
+      .map((currency) => rateContext.getSnapshot(base, currency)),
+  );
+  return {
+    base,
+    stale: rates.some((rate) => rate.stale),
+    rates,
+  };
+};
+
+const getPairRates = async (
+  from: CurrencyCode,
+  to: CurrencyCode,
+  range: RateHistoryRange,
+) => {
+  const [current, history] = await Promise.all([
+    createRateContext().getSnapshot(from, to),
+    queryRateHistory(from, to, range.startDate, range.endDate),
+  ]);
+  return {
+    fromCurrency: from,
+    toCurrency: to,
+    from: range.startDate,
+    to: range.endDate,
+    current,
+    history,
+  };
+};
+
+export const handler: APIGatewayProxyHandler = async (
+  event: APIGatewayEvent,
+) => {
+  const origin = event.headers.origin || event.headers.Origin;
+
+  const userId = event.requestContext.authorizer?.claims?.sub;
+  if (!userId) {
+    return buildResponse(401, { message: 'Unauthorized' }, origin);
+  }
+
+  if (event.resource === STATUS_RESOURCE) {
+    try {
+      return buildResponse(200, await getRatesStatus(), origin);
+    } catch (err) {
+      return buildResponse(500, { error: (err as Error).message }, origin);
+    }
+  }
+
+  const pathFrom = event.pathParameters?.from;
+  const pathTo = event.pathParameters?.to;
+
+  let base: CurrencyCode | undefined;
+  let pair: { from: CurrencyCode; to: CurrencyCode } | undefined;
+  let range: RateHistoryRange | undefined;
+  try {
+    if (pathFrom || pathTo) {
+      pair = {
+        from: parseCurrencyParam(pathFrom, 'from currency'),
+        to: parseCurrencyParam(pathTo, 'to currency'),
+      };
+      range = parseHistoryRange(
+        event.queryStringParameters,
+        new Date().toISOString().slice(0, 10),
+      );
+    } else {
+      base = parseCurrencyParam(
+        event.queryStringParameters?.base ?? BASE_CURRENCY_CODE,
+        'base',
+      );
+    }
+  } catch (error) {
+    return buildResponse(400, { message: (error as Error).message }, origin);
+  }
+
+  try {
+    if (pair && range) {
+      return buildResponse(
+        200,
+        await getPairRates(pair.from, pair.to, range),
+        origin,
+      );
+    }
+    return buildResponse(200, await listRates(base!), origin);
+  } catch (err) {
+    return buildResponse(500, { error: (err as Error).message }, origin);
+  }
+};
@@ -0,0 +1 @@
+export * from './parse-rates-query';
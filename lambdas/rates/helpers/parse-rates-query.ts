@@ -0,0 +1,75 @@
+import type { CurrencyCode } from '../../../types/budget';
+import { getSupportedCurrencies, isSupportedCurrency } from '../../../utils';
+
+export interface RateHistoryRange {
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string; // yyyy-MM-dd, inclusive
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_HISTORY_DAYS = 30;
+export const MAX_HISTORY_DAYS = 366;
+
+const parseDate = (value: string | undefined, name: string) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (
+    !DATE_REGEX.test(value) ||
+    Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+  ) {
+    throw new Error(`${name} must be a date in the format YYYY-MM-DD`);
+  }
+  return value;
+};
+
+const shiftDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+
+const daysBetween = (start: string, end: string) =>
+  Math.round(
+    (new Date(`${end}T00:00:00Z`).getTime() -
+      new Date(`${start}T00:00:00Z`).getTime()) /
+      DAY_MS,
+  ) + 1;
+
+export const parseCurrencyParam = (
+  value: string | undefined,
+  name: string,
+): CurrencyCode => {
+  const currency = value?.trim().toUpperCase();
+  if (!isSupportedCurrency(currency)) {
+    throw new Error(
+      `${name} must be one of ${getSupportedCurrencies().join(', ')}`,
+    );
+  }
+  return currency;
+};
+
+/**
+ * Date window for a pair's history. Defaults to the last
+ * {@link DEFAULT_HISTORY_DAYS} days ending `today`, or ending `to` when only
+ * that is given.
+ */
+export const parseHistoryRange = (
+  params: Record<string, string | undefined> | null | undefined,
+  today: string,
+): RateHistoryRange => {
+  const query = params ?? {};
+  const endDate = parseDate(query.to, 'to') ?? today;
+  const startDate =
+    parseDate(query.from, 'from') ??
+    shiftDays(endDate, -(DEFAULT_HISTORY_DAYS - 1));
+
+  if (startDate > endDate) {
+    throw new Error('from must not be after to');
+  }
+  if (daysBetween(startDate, endDate) > MAX_HISTORY_DAYS) {
+    throw new Error(`history range must not exceed ${MAX_HISTORY_DAYS} days`);
+  }
+
+  return { startDate, endDate };
+};
@@ -6,18 +6,17 @@ import {
 import {
   buildResponse,
   getLastRefreshEpoch,
+  isCallerInGroups,
+  parseGroupList,
   refreshAllRates,
 } from '../../utils';
 
 const cloudWatchClient = new CloudWatchClient({});
 const metricNamespace = 'BudgetTracker/Rates';
 const metricName = 'HoursSinceRefresh';
-const allowedGroupsEnv =
-  process.env.RATES_REFRESH_ALLOWED_GROUP || 'rates-admins';
-const allowedGroups = allowedGroupsEnv
-  .split(',')
-  .map((group) => group.trim())
-  .filter(Boolean);
+const allowedGroups = parseGroupList(
+  process.env.RATES_REFRESH_ALLOWED_GROUP || 'rates-admins',
+);
 
 const publishMetric = async (epoch: number | null) => {
   if (!epoch) {
@@ -53,23 +52,12 @@ export const scheduledHandler: ScheduledHandler = async () => {
   }
 };
 
-const callerAllowed = (groupsClaim?: string) => {
-  if (!allowedGroups.length) {
-    return true;
-  }
-  if (!groupsClaim) {
-    return false;
-  }
-  const callerGroups = groupsClaim.split(',').map((group) => group.trim());
-  return callerGroups.some((group) => allowedGroups.includes(group));
-};
-
 export const manualHandler: APIGatewayProxyHandler = async (event) => {
   const origin = event.headers.origin || event.headers.Origin;
   const groupsClaim =
     event.requestContext.authorizer?.claims?.['cognito:groups'];
 
-  if (!callerAllowed(groupsClaim as string | undefined)) {
+  if (!isCallerInGroups(groupsClaim, allowedGroups)) {
     return buildResponse(403, { message: 'Forbidden' }, origin);
   }
 
@@ -0,0 +1,40 @@
+import { APIGatewayEvent, APIGatewayProxyHandler } from 'aws-lambda';
+import {
+  backfillRecurring,
+  buildResponse,
+  isCallerInGroups,
+  parseGroupList,
+} from '../../utils';
+import type { BackfillRequest } from '../../utils';
+import { parseBackfillRequest } from './helpers';
+
+const allowedGroups = parseGroupList(
+  process.env.RECURRING_BACKFILL_ALLOWED_GROUP || 'recurring-admins',
+);
+
+export const handler: APIGatewayProxyHandler = async (
+  event: APIGatewayEvent,
+) => {
+  const origin = event.headers.origin || event.headers.Origin;
+  const claims = event.requestContext.authorizer?.claims;
+  if (!claims?.sub) {
+    return buildResponse(401, { message: 'Unauthorized' }, origin);
+  }
+  if (!isCallerInGroups(claims['cognito:groups'], allowedGroups)) {
+    return buildResponse(403, { message: 'Forbidden' }, origin);
+  }
+
+  let request: BackfillRequest;
+  try {
+    request = parseBackfillRequest(event.body);
+  } catch (error) {
+    return buildResponse(400, { message: (error as Error).message }, origin);
+  }
+
+  try {
+    const report = await backfillRecurring(request);
+    return buildResponse(200, report, origin);
+  } catch (err) {
+    return buildResponse(500, { error: (err as Error).message }, origin);
+  }
+};
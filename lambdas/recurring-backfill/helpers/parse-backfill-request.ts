@@ -0,0 +1,51 @@
+import { decodeBackfillCursor, isValidDateString } from '../../../utils';
+import type { BackfillRequest } from '../../../utils';
+
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Validates the POST body; throws with the message for a 400. */
+export const parseBackfillRequest = (body: string | null): BackfillRequest => {
+  const payload = JSON.parse(body || '{}') as Record<string, unknown>;
+  const { userId, recurrenceId, from, to, dryRun, cursor } = payload;
+
+  if (typeof userId !== 'string' || !userId.trim()) {
+    throw new Error('userId is required');
+  }
+  if (
+    recurrenceId !== undefined &&
+    (typeof recurrenceId !== 'string' || !recurrenceId.trim())
+  ) {
+    throw new Error('recurrenceId must be a non-empty string');
+  }
+  if (
+    typeof from !== 'string' ||
+    typeof to !== 'string' ||
+    !isValidDateString(from) ||
+    !isValidDateString(to)
+  ) {
+    throw new Error('from and to must be dates in the format YYYY-MM-DD');
+  }
+  if (from > to) {
+    throw new Error('from must not be after to');
+  }
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+  if (days > MAX_RANGE_DAYS) {
+    throw new Error(`backfill range cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+  if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+    throw new Error('dryRun must be a boolean');
+  }
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    throw new Error('Invalid cursor');
+  }
+
+  return {
+    userId,
+    recurrenceId: recurrenceId as string | undefined,
+    from,
+    to,
+    dryRun: dryRun ?? false,
+    cursor: cursor ? decodeBackfillCursor(cursor) : undefined,
+  };
+};
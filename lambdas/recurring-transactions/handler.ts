@@ -9,126 +9,35 @@ import {
 } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import {
-  BASE_CURRENCY_CODE,
+  RecurrenceRuleError,
   buildResponse,
+  collectSkippedOccurrences,
   computeNextOccurrence,
-  convertFromBaseCurrency,
-  convertToBaseCurrency,
   createRateContext,
-  getStatusForOccurrence,
+  getRuleEndDate,
   getUserPreferredCurrency,
-  normalizeCurrencyCode,
-  normalizeRecurringRule,
-  toCurrencyNumber,
-  validateRecurringRule,
+  pruneOccurrenceOverrides,
 } from '../../utils';
-import type { RateContext } from '../../utils';
-import type {
-  CurrencyCode,
-  RecurringRule,
-  RecurringStatus,
-  RecurringTransaction,
-} from '../../types/budget';
+import type { CurrencyCode, RecurringTransaction } from '../../types/budget';
+import {
+  PREVIEW_COUNT_MESSAGE,
+  buildOccurrencePreview,
+  normalizeOccurrenceOverrides,
+  normalizeRecurringInput,
+  normalizeStatus,
+  parsePreviewCount,
+  parseRecurringRule,
+  toRecurringResponse,
+  validateCatchUpPolicy,
+  validateGoalLink,
+  validateOccurrenceOverrides,
+} from './helpers';
+import { handlePreviewRequest } from './preview';
 
 const client = new DynamoDBClient({});
 const TABLE_NAME = process.env.TABLE_NAME!;
 
-const normalizeRecurringInput = async (
-  payload: Record<string, unknown>,
-  rateContext: RateContext,
-) => {
-  const originalCurrency = normalizeCurrencyCode(payload.currency as string);
-  const originalAmount = toCurrencyNumber(payload.amount);
-
-  const { baseAmount, snapshot } = await convertToBaseCurrency(
-    originalAmount,
-    originalCurrency,
-    rateContext,
-  );
-
-  return {
-    ...payload,
-    amount: baseAmount,
-    currency: BASE_CURRENCY_CODE,
-    baseAmount,
-    baseCurrency: BASE_CURRENCY_CODE,
-    originalAmount,
-    originalCurrency,
-    exchangeRateSnapshot: snapshot,
-  } as Record<string, unknown>;
-};
-
-const parseRecurringRule = (rule: unknown): RecurringRule => {
-  if (!rule || typeof rule !== 'object') {
-    throw new Error('Missing recurrence rule');
-  }
-
-  const rawRule = rule as RecurringRule;
-  validateRecurringRule(rawRule);
-  return normalizeRecurringRule(rawRule);
-};
-
-const toRecurringResponse = async (
-  item: Record<string, unknown>,
-  preferredCurrency: CurrencyCode,
-  rateContext: RateContext,
-): Promise<RecurringTransaction> => {
-  const baseAmount = toCurrencyNumber(item.baseAmount ?? item.amount ?? 0);
-  const baseCurrency =
-    (item.baseCurrency as CurrencyCode) || BASE_CURRENCY_CODE;
-  const typedItem = item as unknown as RecurringTransaction;
-  const originalAmount = typedItem.originalAmount ?? baseAmount;
-  const originalCurrency =
-    (typedItem.originalCurrency as CurrencyCode) ?? baseCurrency;
-
-  if (preferredCurrency === baseCurrency) {
-    return {
-      ...typedItem,
-      amount: baseAmount,
-      currency: baseCurrency,
-      baseAmount,
-      baseCurrency,
-      originalAmount,
-      originalCurrency,
-      displayAmount: baseAmount,
-      displayCurrency: baseCurrency,
-      exchangeRateSnapshot: typedItem.exchangeRateSnapshot,
-    };
-  }
-
-  const { amount: convertedAmount, snapshot } = await convertFromBaseCurrency(
-    baseAmount,
-    preferredCurrency,
-    rateContext,
-  );
-
-  return {
-    ...typedItem,
-    amount: convertedAmount,
-    currency: preferredCurrency,
-    baseAmount,
-    baseCurrency,
-    originalAmount,
-    originalCurrency,
-    displayAmount: convertedAmount,
-    displayCurrency: preferredCurrency,
-    exchangeRateSnapshot: snapshot,
-  };
-};
-
-const normalizeStatus = (
-  status: unknown,
-  nextOccurrence: string,
-  endDate?: string,
-): RecurringStatus => {
-  if (status === 'paused') {
-    return 'paused';
-  }
-  if (status === 'completed') {
-    return 'completed';
-  }
-  return getStatusForOccurrence(nextOccurrence, endDate);
-};
+type OverridesPayload = Parameters<typeof normalizeOccurrenceOverrides>[0];
 
 export const handler: APIGatewayProxyHandler = async (
   event: APIGatewayEvent,
@@ -136,6 +45,9 @@ export const handler: APIGatewayProxyHandler = async (
   const { httpMethod, pathParameters, body, requestContext } = event;
   const id = pathParameters?.id;
   const origin = event.headers.origin || event.headers.Origin;
+  const isPreviewRequest =
+    event.resource === '/recurring-transactions/{id}/preview' ||
+    (event.path ?? '').endsWith('/preview');
 
   const userId = requestContext.authorizer?.claims?.sub;
   if (!userId) {
@@ -147,12 +59,17 @@ export const handler: APIGatewayProxyHandler = async (
   try {
     const preferredCurrencyPromise = getUserPreferredCurrency(userId);
 
+    if (isPreviewRequest && httpMethod === 'GET' && id) {
+      return await handlePreviewRequest(event, id, userId, {
+        origin,
+        preferredCurrency: await preferredCurrencyPromise,
+        rateContext,
+      });
+    }
+
     if (httpMethod === 'GET' && id) {
       const res = await client.send(
-        new GetItemCommand({
-          TableName: TABLE_NAME,
-          Key: marshall({ id }),
-        }),
+        new GetItemCommand({ TableName: TABLE_NAME, Key: marshall({ id }) }),
       );
 
       if (!res.Item) {
@@ -202,12 +119,26 @@ export const handler: APIGatewayProxyHandler = async (
 
     if (httpMethod === 'POST' && body) {
       const payload = JSON.parse(body) as Record<string, unknown>;
+      const payloadError =
+        validateCatchUpPolicy(payload.catchUp) ??
+        (await validateGoalLink(payload.goalId, payload.type, userId));
+      if (payloadError) {
+        return buildResponse(400, { message: payloadError }, origin);
+      }
       const rule = parseRecurringRule(payload.rule);
       const nextOccurrence = computeNextOccurrence(rule);
+      const overridesError = validateOccurrenceOverrides(
+        payload.overrides,
+        rule,
+        nextOccurrence,
+      );
+      if (overridesError) {
+        return buildResponse(400, { message: overridesError }, origin);
+      }
       const status = normalizeStatus(
         payload.status,
         nextOccurrence,
-        rule.endDate,
+        getRuleEndDate(rule),
       );
       const normalized = await normalizeRecurringInput(payload, rateContext);
       const item: RecurringTransaction = {
@@ -216,8 +147,38 @@ export const handler: APIGatewayProxyHandler = async (
         rule,
         nextOccurrence,
         status,
+        overrides: await normalizeOccurrenceOverrides(
+          payload.overrides as OverridesPayload,
+          normalized.originalCurrency as CurrencyCode,
+          rateContext,
+        ),
+        createdAt: new Date().toISOString(),
         userId,
       } as RecurringTransaction;
+      if (!item.goalId) {
+        delete item.goalId; // null unlinks the goal
+      }
+      if (!item.overrides) {
+        delete item.overrides;
+      }
+      delete item.skippedOccurrences; // only recorded as skips are pruned
+
+      if (event.queryStringParameters?.dryRun === 'true') {
+        const count = parsePreviewCount(event.queryStringParameters.count);
+        if (count === undefined) {
+          return buildResponse(400, { message: PREVIEW_COUNT_MESSAGE }, origin);
+        }
+        const shaped = await toRecurringResponse(
+          item as unknown as Record<string, unknown>,
+          await preferredCurrencyPromise,
+          rateContext,
+        );
+        return buildResponse(
+          200,
+          { ...shaped, occurrences: buildOccurrencePreview(shaped, count) },
+          origin,
+        );
+      }
 
       await client.send(
         new PutItemCommand({ TableName: TABLE_NAME, Item: marshall(item) }),
@@ -252,14 +213,36 @@ export const handler: APIGatewayProxyHandler = async (
       }
 
       const payload = JSON.parse(body) as Record<string, unknown>;
+      const catchUpError = validateCatchUpPolicy(payload.catchUp);
+      if (catchUpError) {
+        return buildResponse(400, { message: catchUpError }, origin);
+      }
+      if (payload.goalId !== undefined || payload.type !== undefined) {
+        const goalLinkError = await validateGoalLink(
+          payload.goalId === undefined ? stored.goalId : payload.goalId,
+          payload.type ?? stored.type,
+          userId,
+        );
+        if (goalLinkError) {
+          return buildResponse(400, { message: goalLinkError }, origin);
+        }
+      }
       const rule = payload.rule
         ? parseRecurringRule(payload.rule)
         : stored.rule;
       const nextOccurrence = computeNextOccurrence(rule);
+      const overridesError = validateOccurrenceOverrides(
+        payload.overrides,
+        rule,
+        nextOccurrence,
+      );
+      if (overridesError) {
+        return buildResponse(400, { message: overridesError }, origin);
+      }
       const status = normalizeStatus(
         payload.status ?? stored.status,
         nextOccurrence,
-        rule.endDate,
+        getRuleEndDate(rule),
       );
       const normalized = await normalizeRecurringInput(
         {
@@ -271,6 +254,14 @@ export const handler: APIGatewayProxyHandler = async (
         } as Record<string, unknown>,
         rateContext,
       );
+      const overrides =
+        payload.overrides === undefined
+          ? pruneOccurrenceOverrides(stored.overrides, rule, nextOccurrence)
+          : await normalizeOccurrenceOverrides(
+              payload.overrides as OverridesPayload,
+              normalized.originalCurrency as CurrencyCode,
+              rateContext,
+            );
       const updated: RecurringTransaction = {
         ...stored,
         ...normalized,
@@ -278,11 +269,19 @@ export const handler: APIGatewayProxyHandler = async (
         rule,
         nextOccurrence,
         status,
+        overrides,
+        skippedOccurrences: collectSkippedOccurrences(stored, nextOccurrence),
         userId,
       } as RecurringTransaction;
+      if (!updated.goalId) {
+        delete updated.goalId;
+      }
 
       await client.send(
-        new PutItemCommand({ TableName: TABLE_NAME, Item: marshall(updated) }),
+        new PutItemCommand({
+          TableName: TABLE_NAME,
+          Item: marshall(updated, { removeUndefinedValues: true }),
+        }),
       );
 
       const preferredCurrency = await preferredCurrencyPromise;
@@ -326,6 +325,9 @@ export const handler: APIGatewayProxyHandler = async (
       origin,
     );
   } catch (err) {
+    if (err instanceof RecurrenceRuleError) {
+      return buildResponse(400, { message: err.message }, origin);
+    }
     return buildResponse(500, { error: (err as Error).message }, origin);
   }
 };
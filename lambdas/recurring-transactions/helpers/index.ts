@@ -0,0 +1,5 @@
+export * from './normalize-recurring-input';
+export * from './occurrence-overrides';
+export * from './preview-occurrences';
+export * from './to-recurring-response';
+export * from './validate-goal-link';
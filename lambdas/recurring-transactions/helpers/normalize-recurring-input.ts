@@ -0,0 +1,76 @@
+import {
+  BASE_CURRENCY_CODE,
+  CATCH_UP_POLICIES,
+  RecurrenceRuleError,
+  convertToBaseCurrency,
+  getStatusForOccurrence,
+  normalizeCurrencyCode,
+  normalizeRecurringRule,
+  toCurrencyNumber,
+  validateRecurringRule,
+} from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type {
+  RecurringCatchUpPolicy,
+  RecurringRule,
+  RecurringStatus,
+} from '../../../types/budget';
+
+export const normalizeRecurringInput = async (
+  payload: Record<string, unknown>,
+  rateContext: RateContext,
+) => {
+  const originalCurrency = normalizeCurrencyCode(payload.currency as string);
+  const originalAmount = toCurrencyNumber(payload.amount);
+
+  const { baseAmount, snapshot } = await convertToBaseCurrency(
+    originalAmount,
+    originalCurrency,
+    rateContext,
+  );
+
+  // Set by the handler, never taken from the request body.
+  const fields = { ...payload };
+  delete fields.createdAt;
+
+  return {
+    ...fields,
+    amount: baseAmount,
+    currency: BASE_CURRENCY_CODE,
+    baseAmount,
+    baseCurrency: BASE_CURRENCY_CODE,
+    originalAmount,
+    originalCurrency,
+    exchangeRateSnapshot: snapshot,
+  } as Record<string, unknown>;
+};
+
+export const parseRecurringRule = (rule: unknown): RecurringRule => {
+  if (!rule || typeof rule !== 'object') {
+    throw new RecurrenceRuleError('Missing recurrence rule');
+  }
+
+  const rawRule = rule as RecurringRule;
+  validateRecurringRule(rawRule);
+  return normalizeRecurringRule(rawRule);
+};
+
+export const normalizeStatus = (
+  status: unknown,
+  nextOccurrence: string,
+  endDate?: string,
+): RecurringStatus => {
+  if (status === 'paused') {
+    return 'paused';
+  }
+  if (status === 'completed') {
+    return 'completed';
+  }
+  return getStatusForOccurrence(nextOccurrence, endDate);
+};
+
+export const validateCatchUpPolicy = (catchUp: unknown): string | undefined =>
+  catchUp === undefined ||
+  CATCH_UP_POLICIES.includes(catchUp as RecurringCatchUpPolicy)
+    ? undefined
+    : `catchUp must be one of ${CATCH_UP_POLICIES.join(', ')}`;
@@ -0,0 +1,124 @@
+import {
+  convertToBaseCurrency,
+  findOccurrenceWindow,
+  isValidDateString,
+  toCurrencyNumber,
+} from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type {
+  CurrencyCode,
+  RecurringOccurrenceOverride,
+  RecurringRule,
+} from '../../../types/budget';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateOverride = (
+  date: string,
+  override: unknown,
+  window: { previous?: string; next: string },
+): string | undefined => {
+  if (!isPlainObject(override)) {
+    return `override for ${date} must be an object`;
+  }
+  const { skip, date: movedTo, amount } = override;
+  if (skip === undefined && movedTo === undefined && amount === undefined) {
+    return `override for ${date} must set skip, date or amount`;
+  }
+  if (skip !== undefined) {
+    if (skip !== true) {
+      return `override for ${date} can only set skip to true`;
+    }
+    if (movedTo !== undefined || amount !== undefined) {
+      return `override for ${date} cannot combine skip with date or amount`;
+    }
+  }
+  if (movedTo !== undefined) {
+    if (typeof movedTo !== 'string' || !isValidDateString(movedTo)) {
+      return `override for ${date} has an invalid date`;
+    }
+    if (
+      movedTo >= window.next ||
+      (window.previous !== undefined && movedTo <= window.previous)
+    ) {
+      const bounds = window.previous
+        ? `after ${window.previous} and before ${window.next}`
+        : `before ${window.next}`;
+      return `override for ${date} must move to a date ${bounds}`;
+    }
+  }
+  if (amount !== undefined && !(toCurrencyNumber(amount) > 0)) {
+    return `override for ${date} needs a positive amount`;
+  }
+  return undefined;
+};
+
+/**
+ * Checks the `overrides` map sent on POST or PUT, returning the message for
+ * a 400 or undefined when every entry is acceptable. Entries are keyed by
+ * an upcoming scheduled date of the rule and may skip it, move it without
+ * passing a neighbouring occurrence, or change its amount once.
+ */
+export const validateOccurrenceOverrides = (
+  overrides: unknown,
+  rule: RecurringRule,
+  nextOccurrence: string,
+): string | undefined => {
+  if (overrides === undefined || overrides === null) {
+    return undefined;
+  }
+  if (!isPlainObject(overrides)) {
+    return 'overrides must be an object keyed by occurrence date';
+  }
+  for (const [date, override] of Object.entries(overrides)) {
+    const window =
+      date >= nextOccurrence ? findOccurrenceWindow(rule, date) : undefined;
+    if (!window) {
+      return `${date} is not an upcoming occurrence of this rule`;
+    }
+    const message = validateOverride(date, override, window);
+    if (message) {
+      return message;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Converts validated overrides for storage. One-off amounts are in the
+ * rule's currency and are converted to base now, like the rule's amount.
+ */
+export const normalizeOccurrenceOverrides = async (
+  overrides: Record<string, Record<string, unknown>> | null | undefined,
+  currency: CurrencyCode,
+  rateContext: RateContext,
+): Promise<Record<string, RecurringOccurrenceOverride> | undefined> => {
+  const entries = Object.entries(overrides ?? {});
+  if (!entries.length) {
+    return undefined;
+  }
+  const normalized = await Promise.all(
+    entries.map(async ([date, { skip, date: movedTo, amount }]) => {
+      if (skip) {
+        return [date, { skip: true }] as const;
+      }
+      const override: RecurringOccurrenceOverride = {};
+      if (movedTo !== undefined) {
+        override.date = movedTo as string;
+      }
+      if (amount !== undefined) {
+        override.amount = toCurrencyNumber(amount);
+        const { baseAmount, snapshot } = await convertToBaseCurrency(
+          override.amount,
+          currency,
+          rateContext,
+        );
+        override.baseAmount = baseAmount;
+        override.exchangeRateSnapshot = snapshot;
+      }
+      return [date, override] as const;
+    }),
+  );
+  return Object.fromEntries(normalized);
+};
@@ -0,0 +1,70 @@
+import {
+  getNextOccurrence,
+  getOccurrenceOverride,
+  getRuleEndDate,
+  roundToMinorUnits,
+} from '../../../utils';
+import type {
+  RecurringOccurrencePreview,
+  RecurringTransaction,
+} from '../../../types/budget';
+
+const DEFAULT_PREVIEW_COUNT = 12;
+const MAX_PREVIEW_COUNT = 60;
+
+/** Reads the `count` query parameter; returns undefined when it is invalid. */
+export const parsePreviewCount = (raw?: string | null) => {
+  if (raw === undefined || raw === null || raw === '') {
+    return DEFAULT_PREVIEW_COUNT;
+  }
+  const count = Number(raw);
+  return Number.isInteger(count) && count >= 1 && count <= MAX_PREVIEW_COUNT
+    ? count
+    : undefined;
+};
+
+export const PREVIEW_COUNT_MESSAGE = `count must be an integer between 1 and ${MAX_PREVIEW_COUNT}`;
+
+/**
+ * Lists up to `count` occurrences starting at `nextOccurrence`, using the
+ * same rule stepping and overrides as the materializer. `recurring` must
+ * already be shaped for the preferred currency; nothing is written.
+ */
+export const buildOccurrencePreview = (
+  recurring: RecurringTransaction,
+  count: number,
+): RecurringOccurrencePreview[] => {
+  if (recurring.status === 'completed') {
+    return [];
+  }
+  const { rule } = recurring;
+  const endDate = getRuleEndDate(rule);
+  const baseAmount = recurring.baseAmount ?? recurring.amount;
+  // Rate from base to the preferred currency, for one-off amounts.
+  const displayRate = baseAmount ? recurring.amount / baseAmount : 1;
+  const occurrences: RecurringOccurrencePreview[] = [];
+
+  for (
+    let date = recurring.nextOccurrence;
+    occurrences.length < count && (!endDate || date <= endDate);
+    date = getNextOccurrence(rule, date)
+  ) {
+    const override = getOccurrenceOverride(recurring, date);
+    const oneOff = override?.baseAmount;
+    occurrences.push({
+      date: override?.date ?? date,
+      amount:
+        oneOff === undefined
+          ? recurring.amount
+          : roundToMinorUnits(oneOff * displayRate, recurring.currency),
+      currency: recurring.currency,
+      baseAmount: oneOff ?? baseAmount,
+      ...(rule.dayOfMonth && Number(date.slice(8)) < rule.dayOfMonth
+        ? { clamped: true }
+        : {}),
+      ...(override?.date ? { scheduledDate: date } : {}),
+      ...(override?.skip ? { skipped: true } : {}),
+    });
+  }
+  return occurrences;
+};
@@ -0,0 +1,28 @@
+import { getGoal } from '../../../utils/ledger-store';
+
+/**
+ * Checks the goal a recurring rule pays into, returning the message for a
+ * 400 or undefined when the link is acceptable. Only expense rules (money
+ * moved out of the budget into savings) can feed a goal.
+ */
+export const validateGoalLink = async (
+  goalId: unknown,
+  type: unknown,
+  userId: string,
+): Promise<string | undefined> => {
+  if (goalId === undefined || goalId === null) {
+    return undefined;
+  }
+  if (typeof goalId !== 'string' || !goalId.trim()) {
+    return 'goalId must be a non-empty string';
+  }
+  if (type !== 'expense') {
+    return 'goalId can only be set on expense recurring transactions';
+  }
+
+  const goal = await getGoal(goalId);
+  if (!goal || goal.userId !== userId) {
+    return 'goalId does not match any of your goals';
+  }
+  return undefined;
+};
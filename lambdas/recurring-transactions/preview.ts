@@ -0,0 +1,65 @@
+import { APIGatewayEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { buildResponse } from '../../utils';
+import type { RateContext } from '../../utils';
+import type { CurrencyCode, RecurringPreview } from '../../types/budget';
+import {
+  PREVIEW_COUNT_MESSAGE,
+  buildOccurrencePreview,
+  parsePreviewCount,
+  toRecurringResponse,
+} from './helpers';
+
+const client = new DynamoDBClient({});
+const TABLE_NAME = process.env.TABLE_NAME!;
+
+export interface PreviewRequestContext {
+  origin?: string;
+  preferredCurrency: CurrencyCode;
+  rateContext: RateContext;
+}
+
+/**
+ * Serves GET /recurring-transactions/{id}/preview?count=N: the next N
+ * occurrences from the stored pointer, without materializing anything.
+ */
+export const handlePreviewRequest = async (
+  event: APIGatewayEvent,
+  id: string,
+  userId: string,
+  { origin, preferredCurrency, rateContext }: PreviewRequestContext,
+): Promise<APIGatewayProxyResult> => {
+  const count = parsePreviewCount(event.queryStringParameters?.count);
+  if (count === undefined) {
+    return buildResponse(400, { message: PREVIEW_COUNT_MESSAGE }, origin);
+  }
+
+  const { Item } = await client.send(
+    new GetItemCommand({ TableName: TABLE_NAME, Key: marshall({ id }) }),
+  );
+  if (!Item) {
+    return buildResponse(
+      404,
+      { message: 'Recurring transaction not found' },
+      origin,
+    );
+  }
+
+  const item = unmarshall(Item);
+  if (item.userId !== userId) {
+    return buildResponse(403, { message: 'Forbidden' }, origin);
+  }
+
+  const shaped = await toRecurringResponse(
+    item,
+    preferredCurrency,
+    rateContext,
+  );
+  const preview: RecurringPreview = {
+    id,
+    status: shaped.status,
+    occurrences: buildOccurrencePreview(shaped, count),
+  };
+  return buildResponse(200, preview, origin);
+};
@@ -0,0 +1,54 @@
+import { APIGatewayEvent, APIGatewayProxyHandler } from 'aws-lambda';
+import {
+  buildResponse,
+  createRateContext,
+  getUserPreferredCurrency,
+} from '../../utils';
+import {
+  queryCategoriesByUser,
+  queryTransactionsByUser,
+} from '../../utils/ledger-store';
+import {
+  buildMonthlySummary,
+  parseSummaryMonth,
+  toSummaryResponse,
+} from './helpers';
+
+export const handler: APIGatewayProxyHandler = async (
+  event: APIGatewayEvent,
+) => {
+  const origin = event.headers.origin || event.headers.Origin;
+
+  const userId = event.requestContext.authorizer?.claims?.sub;
+  if (!userId) {
+    return buildResponse(401, { message: 'Unauthorized' }, origin);
+  }
+
+  let month: string;
+  try {
+    month = parseSummaryMonth(event.queryStringParameters?.month);
+  } catch (error) {
+    return buildResponse(400, { message: (error as Error).message }, origin);
+  }
+
+  const rateContext = createRateContext();
+
+  try {
+    const [preferredCurrency, transactions, categories] = await Promise.all([
+      getUserPreferredCurrency(userId),
+      queryTransactionsByUser(userId, { dateKeyPrefix: `${month}-` }),
+      queryCategoriesByUser(userId),
+    ]);
+
+    const summary = buildMonthlySummary(month, transactions, categories);
+    const shaped = await toSummaryResponse(
+      summary,
+      preferredCurrency,
+      rateContext,
+    );
+
+    return buildResponse(200, shaped, origin);
+  } catch (err) {
+    return buildResponse(500, { error: (err as Error).message }, origin);
+  }
+};
@@ -0,0 +1,107 @@
+import {
+  BASE_CURRENCY_CODE,
+  allocateTransactionAmount,
+  computeCategoryRollover,
+  toCurrencyNumber,
+} from '../../../utils';
+import type {
+  Category,
+  MonthlySummary,
+  MonthlySummaryCategory,
+  Transaction,
+} from '../../../types/budget';
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Aggregates a month of transactions against the user's categories.
+ * Every amount in the result is expressed in the base currency.
+ */
+export const buildMonthlySummary = (
+  month: string,
+  transactions: Transaction[],
+  categories: Category[],
+): MonthlySummary => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const byName = new Map(
+    categories.map((category) => [category.name, category]),
+  );
+  const spentByCategory = new Map<string, number>();
+  let totalIncome = 0;
+  let totalExpense = 0;
+  let uncategorizedExpense = 0;
+
+  transactions.forEach((txn) => {
+    const amount = toCurrencyNumber(txn.baseAmount ?? txn.amount ?? 0);
+    if (txn.type === 'income') {
+      totalIncome += amount;
+    } else {
+      totalExpense += amount;
+    }
+
+    // Split transactions count each share towards its own category.
+    allocateTransactionAmount(txn).forEach((allocation) => {
+      const category =
+        byId.get(allocation.category) ?? byName.get(allocation.category);
+      if (!category || category.type !== txn.type) {
+        if (txn.type === 'expense') {
+          uncategorizedExpense += allocation.baseAmount;
+        }
+        return;
+      }
+      spentByCategory.set(
+        category.id,
+        (spentByCategory.get(category.id) ?? 0) + allocation.baseAmount,
+      );
+    });
+  });
+
+  const summaryCategories: MonthlySummaryCategory[] = categories.map(
+    (category) => {
+      // A month that has not been seeded yet still receives its carry-in.
+      const { carryIn, effectiveLimit: limit } = computeCategoryRollover({
+        rolloverPolicy: category.rolloverPolicy,
+        monthlyData: {
+          [month]: { limit: 0, spent: 0, baseLimit: 0, baseSpent: 0 },
+          ...category.monthlyData,
+        },
+      })[month];
+      const spent = spentByCategory.get(category.id) ?? 0;
+      return {
+        id: category.id,
+        name: category.name,
+        color: category.color,
+        type: category.type,
+        limit: round(limit),
+        carryIn,
+        spent: round(spent),
+        remaining: round(limit - spent),
+      };
+    },
+  );
+
+  const expenseCategories = summaryCategories.filter(
+    (category) => category.type === 'expense',
+  );
+  const totalLimit = expenseCategories.reduce(
+    (sum, category) => sum + category.limit,
+    0,
+  );
+  const remainingBudget = expenseCategories.reduce(
+    (sum, category) => sum + category.remaining,
+    0,
+  );
+
+  return {
+    month,
+    currency: BASE_CURRENCY_CODE,
+    baseCurrency: BASE_CURRENCY_CODE,
+    totalIncome: round(totalIncome),
+    totalExpense: round(totalExpense),
+    net: round(totalIncome - totalExpense),
+    totalLimit: round(totalLimit),
+    remainingBudget: round(remainingBudget),
+    uncategorizedExpense: round(uncategorizedExpense),
+    categories: summaryCategories,
+  };
+};
@@ -0,0 +1,3 @@
+export * from './build-monthly-summary';
+export * from './parse-summary-month';
+export * from './to-summary-response';
@@ -0,0 +1,15 @@
+const MONTH_REGEX = /^\d{4}-(\d{2})$/;
+
+export const parseSummaryMonth = (monthParam?: string): string => {
+  if (!monthParam) {
+    return new Date().toISOString().slice(0, 7);
+  }
+
+  const match = MONTH_REGEX.exec(monthParam);
+  const month = match ? Number.parseInt(match[1], 10) : Number.NaN;
+  if (!match || month < 1 || month > 12) {
+    throw new Error('Month must use the format YYYY-MM');
+  }
+
+  return monthParam;
+};
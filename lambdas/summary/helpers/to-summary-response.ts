@@ -0,0 +1,68 @@
+import { convertFromBaseCurrency } from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type { CurrencyCode, MonthlySummary } from '../../../types/budget';
+
+export const toSummaryResponse = async (
+  summary: MonthlySummary,
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+): Promise<MonthlySummary> => {
+  if (preferredCurrency === summary.baseCurrency) {
+    return summary;
+  }
+
+  const convert = async (value: number) =>
+    (await convertFromBaseCurrency(value, preferredCurrency, rateContext))
+      .amount;
+
+  const [
+    totalIncome,
+    totalExpense,
+    net,
+    totalLimit,
+    remainingBudget,
+    uncategorizedExpense,
+  ] = await Promise.all(
+    [
+      summary.totalIncome,
+      summary.totalExpense,
+      summary.net,
+      summary.totalLimit,
+      summary.remainingBudget,
+      summary.uncategorizedExpense,
+    ].map(convert),
+  );
+
+  const categories = await Promise.all(
+    summary.categories.map(async (category) => {
+      const [limit, carryIn, spent, remaining] = await Promise.all(
+        [
+          category.limit,
+          category.carryIn,
+          category.spent,
+          category.remaining,
+        ].map(convert),
+      );
+      return { ...category, limit, carryIn, spent, remaining };
+    }),
+  );
+
+  const { snapshot } = await convertFromBaseCurrency(
+    0,
+    preferredCurrency,
+    rateContext,
+  );
+
+  return {
+    ...summary,
+    currency: preferredCurrency,
+    totalIncome,
+    totalExpense,
+    net,
+    totalLimit,
+    remainingBudget,
+    uncategorizedExpense,
+    categories,
+    exchangeRateSnapshot: snapshot,
+  };
+};
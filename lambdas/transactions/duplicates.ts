@@ -0,0 +1,108 @@
+import { DynamoDBClient, paginateQuery } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { RateContext } from '../../utils';
+import type {
+  CurrencyCode,
+  Transaction,
+  TransactionValuation,
+} from '../../types/budget';
+import {
+  buildTransactionQuery,
+  findDuplicatePairs,
+  findDuplicatesOf,
+  getDuplicateWindowDays,
+  toBaseAmountFilters,
+  toTransactionResponses,
+  widenDateRange,
+} from './helpers';
+import type { DuplicatePair, TransactionFilters } from './helpers';
+
+const client = new DynamoDBClient({});
+const TABLE_NAME = process.env.TABLE_NAME!;
+const TRANSACTIONS_BY_USER_INDEX = 'userId-dateKey-index';
+
+const queryTransactions = async (
+  userId: string,
+  filters: TransactionFilters,
+): Promise<Record<string, unknown>[]> => {
+  const {
+    KeyConditionExpression,
+    FilterExpression,
+    ExpressionAttributeNames,
+    ExpressionAttributeValues,
+  } = buildTransactionQuery(userId, undefined, filters);
+
+  const items: Record<string, unknown>[] = [];
+  const paginator = paginateQuery(
+    { client },
+    {
+      TableName: TABLE_NAME,
+      IndexName: TRANSACTIONS_BY_USER_INDEX,
+      KeyConditionExpression,
+      FilterExpression,
+      ExpressionAttributeNames,
+      ExpressionAttributeValues: marshall(ExpressionAttributeValues),
+    },
+  );
+  for await (const page of paginator) {
+    items.push(...(page.Items ?? []).map((item) => unmarshall(item)));
+  }
+  return items;
+};
+
+/**
+ * Loads the user's transactions around `dates` (widened by the duplicate
+ * window) so candidates can be checked with findDuplicatesOf.
+ */
+export const loadDuplicateNeighbours = async (
+  userId: string,
+  dates: string[],
+  windowDays = getDuplicateWindowDays(),
+) =>
+  dates.length
+    ? queryTransactions(userId, widenDateRange(dates, windowDays))
+    : [];
+
+export const findExistingDuplicates = async (
+  userId: string,
+  item: Record<string, unknown>,
+) => {
+  const windowDays = getDuplicateWindowDays();
+  const isoDate = String(item.dateKey).split('#')[0];
+  const neighbours = await loadDuplicateNeighbours(
+    userId,
+    [isoDate],
+    windowDays,
+  );
+  return findDuplicatesOf(item, neighbours, windowDays);
+};
+
+/**
+ * Suspected pairs among the transactions matching `filters`, shaped for
+ * the preferred currency.
+ */
+export const listDuplicatePairs = async (
+  userId: string,
+  filters: TransactionFilters,
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+  valuation: TransactionValuation = 'current',
+): Promise<DuplicatePair<Transaction>[]> => {
+  const items = await queryTransactions(
+    userId,
+    await toBaseAmountFilters(filters, preferredCurrency, rateContext),
+  );
+  const pairs = findDuplicatePairs(items, getDuplicateWindowDays());
+
+  return Promise.all(
+    pairs.map(async (pair) => {
+      const [first, second] = await toTransactionResponses(
+        pair.transactions,
+        preferredCurrency,
+        rateContext,
+        valuation,
+      );
+      return { ...pair, transactions: [first, second] };
+    }),
+  );
+};
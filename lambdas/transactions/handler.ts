@@ -13,16 +13,26 @@ import {
   createRateContext,
   getUserPreferredCurrency,
 } from '../../utils';
-import type { PaginatedTransactionsResponse } from '../../types/budget';
+import type { TransactionValuation } from '../../types/budget';
 import {
+  TransactionValidationError,
   decodeCursor,
-  encodeCursor,
   normalizeTransactionInput,
+  parseImportRequest,
   parseLimit,
+  parseTransactionFilters,
+  parseValuation,
+  readImportCsv,
   toTransactionResponse,
+  toTransactionResponses,
+  withStoredSplits,
   withTransactionIndexFields,
 } from './helpers';
+import type { TransactionFilters, TransactionImportRequest } from './helpers';
 import parseMonthQuery from './helpers/parse-month-query';
+import { findExistingDuplicates, listDuplicatePairs } from './duplicates';
+import { importTransactions } from './import-transactions';
+import { listTransactionsPage } from './list-transactions';
 
 const client = new DynamoDBClient({});
 const TABLE_NAME = process.env.TABLE_NAME!;
@@ -37,12 +47,25 @@ export const handler: APIGatewayProxyHandler = async (
   const origin = event.headers.origin || event.headers.Origin;
   const isAllTransactionsRequest =
     resource === '/transactions/all' || path.endsWith('/transactions/all');
+  const isImportRequest =
+    resource === '/transactions/import' ||
+    path.endsWith('/transactions/import');
+  const isDuplicatesRequest =
+    resource === '/transactions/duplicates' ||
+    path.endsWith('/transactions/duplicates');
 
   const userId = requestContext.authorizer?.claims?.sub;
   if (!userId) {
     return buildResponse(401, { message: 'Unauthorized' }, origin);
   }
 
+  let valuation: TransactionValuation;
+  try {
+    valuation = parseValuation(event.queryStringParameters?.valuation);
+  } catch (error) {
+    return buildResponse(400, { message: (error as Error).message }, origin);
+  }
+
   const rateContext = createRateContext();
 
   try {
@@ -70,11 +93,31 @@ export const handler: APIGatewayProxyHandler = async (
         item,
         preferredCurrency,
         rateContext,
+        valuation,
       );
 
       return buildResponse(200, shaped, origin);
     }
 
+    if (httpMethod === 'GET' && isDuplicatesRequest) {
+      let filters: TransactionFilters;
+      try {
+        filters = parseTransactionFilters(event.queryStringParameters);
+      } catch (error) {
+        const message = (error as Error).message;
+        return buildResponse(400, { message }, origin);
+      }
+
+      const pairs = await listDuplicatePairs(
+        userId,
+        filters,
+        await preferredCurrencyPromise,
+        rateContext,
+        valuation,
+      );
+      return buildResponse(200, { pairs }, origin);
+    }
+
     if (httpMethod === 'GET') {
       if (isAllTransactionsRequest) {
         const res = await client.send(
@@ -89,10 +132,11 @@ export const handler: APIGatewayProxyHandler = async (
         const items = res.Items?.map((item) => unmarshall(item)) ?? [];
 
         const preferredCurrency = await preferredCurrencyPromise;
-        const shapedItems = await Promise.all(
-          items.map((item) =>
-            toTransactionResponse(item, preferredCurrency, rateContext),
-          ),
+        const shapedItems = await toTransactionResponses(
+          items,
+          preferredCurrency,
+          rateContext,
+          valuation,
         );
 
         return buildResponse(200, shapedItems, origin);
@@ -101,6 +145,7 @@ export const handler: APIGatewayProxyHandler = async (
       let limit: number;
       let exclusiveStartKey: Record<string, unknown> | undefined;
       let monthPrefix: string | undefined;
+      let filters: TransactionFilters;
 
       try {
         limit = parseLimit(event.queryStringParameters?.limit);
@@ -109,6 +154,7 @@ export const handler: APIGatewayProxyHandler = async (
           event.queryStringParameters?.month,
           event.queryStringParameters?.year,
         ));
+        filters = parseTransactionFilters(event.queryStringParameters);
       } catch (error) {
         return buildResponse(
           400,
@@ -117,42 +163,44 @@ export const handler: APIGatewayProxyHandler = async (
         );
       }
 
-      const res = await client.send(
-        new QueryCommand({
-          TableName: TABLE_NAME,
-          IndexName: TRANSACTIONS_BY_USER_INDEX,
-          KeyConditionExpression: monthPrefix
-            ? 'userId = :userId AND begins_with(dateKey, :monthPrefix)'
-            : 'userId = :userId',
-          ExpressionAttributeValues: marshall(
-            monthPrefix
-              ? { ':userId': userId, ':monthPrefix': monthPrefix }
-              : { ':userId': userId },
-          ),
-          ExclusiveStartKey: exclusiveStartKey
-            ? marshall(exclusiveStartKey)
-            : undefined,
-          Limit: limit,
-          ScanIndexForward: false,
-        }),
+      const response = await listTransactionsPage(
+        userId,
+        { limit, exclusiveStartKey, monthPrefix, filters },
+        await preferredCurrencyPromise,
+        rateContext,
+        valuation,
       );
-      const items = res.Items?.map((item) => unmarshall(item)) ?? [];
 
-      const preferredCurrency = await preferredCurrencyPromise;
-      const shapedItems = await Promise.all(
-        items.map((item) =>
-          toTransactionResponse(item, preferredCurrency, rateContext),
-        ),
-      );
-      const response: PaginatedTransactionsResponse = {
-        items: shapedItems,
-      };
+      return buildResponse(200, response, origin);
+    }
 
-      if (res.LastEvaluatedKey) {
-        response.nextCursor = encodeCursor(unmarshall(res.LastEvaluatedKey));
+    if (httpMethod === 'POST' && isImportRequest && body) {
+      let request: TransactionImportRequest;
+      let csv: ReturnType<typeof readImportCsv>;
+      try {
+        request = parseImportRequest(JSON.parse(body));
+        csv = readImportCsv(request);
+      } catch (error) {
+        return buildResponse(
+          400,
+          { message: (error as Error).message },
+          origin,
+        );
       }
 
-      return buildResponse(200, response, origin);
+      const report = await importTransactions(
+        userId,
+        csv.header,
+        csv.rows,
+        {
+          ...request,
+          defaultCurrency:
+            request.defaultCurrency ?? (await preferredCurrencyPromise),
+        },
+        rateContext,
+      );
+
+      return buildResponse(200, report, origin);
     }
 
     if (httpMethod === 'POST' && body) {
@@ -164,6 +212,27 @@ export const handler: APIGatewayProxyHandler = async (
         userId,
       });
 
+      const force = event.queryStringParameters?.force === 'true';
+      const duplicates = force
+        ? []
+        : await findExistingDuplicates(userId, item);
+      if (duplicates.length) {
+        const preferredCurrency = await preferredCurrencyPromise;
+        return buildResponse(
+          409,
+          {
+            message: 'Possible duplicate transaction, retry with force=true',
+            duplicates: await toTransactionResponses(
+              duplicates,
+              preferredCurrency,
+              rateContext,
+              valuation,
+            ),
+          },
+          origin,
+        );
+      }
+
       await client.send(
         new PutItemCommand({ TableName: TABLE_NAME, Item: marshall(item) }),
       );
@@ -172,6 +241,7 @@ export const handler: APIGatewayProxyHandler = async (
         item,
         preferredCurrency,
         rateContext,
+        valuation,
       );
 
       return buildResponse(201, shaped, origin);
@@ -193,8 +263,8 @@ export const handler: APIGatewayProxyHandler = async (
       if (existingItem.userId !== userId) {
         return buildResponse(403, { message: 'Forbidden' }, origin);
       }
-
-      const payload = JSON.parse(body);
+      const payload = withStoredSplits(JSON.parse(body), existingItem.splits);
+      delete existingItem.splits;
       const normalized = await normalizeTransactionInput(payload, rateContext);
       const updated = withTransactionIndexFields({
         ...existingItem,
@@ -212,6 +282,7 @@ export const handler: APIGatewayProxyHandler = async (
         updated,
         preferredCurrency,
         rateContext,
+        valuation,
       );
 
       return buildResponse(200, shaped, origin);
@@ -252,6 +323,9 @@ export const handler: APIGatewayProxyHandler = async (
       origin,
     );
   } catch (err) {
+    if (err instanceof TransactionValidationError) {
+      return buildResponse(400, { message: err.message }, origin);
+    }
     return buildResponse(500, { error: (err as Error).message }, origin);
   }
 };
@@ -0,0 +1,91 @@
+import { DATE_KEY_UPPER_SUFFIX } from '../../../utils/build-date-key';
+import type { TransactionFilters } from './parse-transaction-filters';
+
+export interface TransactionQueryExpressions {
+  KeyConditionExpression: string;
+  FilterExpression?: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues: Record<string, unknown>;
+}
+
+/**
+ * Translates the list filters into expressions for the userId-dateKey-index.
+ * Date bounds become key conditions; everything else is a filter, so
+ * `minAmount`/`maxAmount` must already be expressed in the base currency.
+ * Search is case-insensitive through the lower-cased `descriptionSearch`.
+ */
+export const buildTransactionQuery = (
+  userId: string,
+  monthPrefix: string | undefined,
+  filters: TransactionFilters,
+): TransactionQueryExpressions => {
+  const values: Record<string, unknown> = { ':userId': userId };
+  const names: Record<string, string> = {};
+  const conditions: string[] = [];
+
+  let keyCondition = 'userId = :userId';
+  if (monthPrefix) {
+    keyCondition += ' AND begins_with(dateKey, :monthPrefix)';
+    values[':monthPrefix'] = monthPrefix;
+  } else if (filters.from && filters.to) {
+    keyCondition += ' AND dateKey BETWEEN :fromKey AND :toKey';
+    values[':fromKey'] = filters.from;
+    values[':toKey'] = `${filters.to}${DATE_KEY_UPPER_SUFFIX}`;
+  } else if (filters.from) {
+    keyCondition += ' AND dateKey >= :fromKey';
+    values[':fromKey'] = filters.from;
+  } else if (filters.to) {
+    keyCondition += ' AND dateKey <= :toKey';
+    values[':toKey'] = `${filters.to}${DATE_KEY_UPPER_SUFFIX}`;
+  }
+
+  const addEquals = (attribute: string, value: unknown) => {
+    names[`#${attribute}`] = attribute;
+    values[`:${attribute}`] = value;
+    conditions.push(`#${attribute} = :${attribute}`);
+  };
+
+  if (filters.type) {
+    addEquals('type', filters.type);
+  }
+  if (filters.category) {
+    names['#category'] = 'category';
+    names['#splitCategories'] = 'splitCategories';
+    values[':category'] = filters.category;
+    conditions.push(
+      '(#category = :category OR contains(#splitCategories, :category))',
+    );
+  }
+  if (filters.recurrenceId) {
+    addEquals('recurrenceId', filters.recurrenceId);
+  }
+  if (filters.minAmount !== undefined) {
+    names['#baseAmount'] = 'baseAmount';
+    values[':minAmount'] = filters.minAmount;
+    conditions.push('#baseAmount >= :minAmount');
+  }
+  if (filters.maxAmount !== undefined) {
+    names['#baseAmount'] = 'baseAmount';
+    values[':maxAmount'] = filters.maxAmount;
+    conditions.push('#baseAmount <= :maxAmount');
+  }
+  if (filters.search) {
+    // Items written before descriptionSearch existed only match by case.
+    names['#descriptionSearch'] = 'descriptionSearch';
+    names['#description'] = 'description';
+    values[':search'] = filters.search.toLowerCase();
+    values[':rawSearch'] = filters.search;
+    conditions.push(
+      '(contains(#descriptionSearch, :search) OR ' +
+        '(attribute_not_exists(#descriptionSearch) AND ' +
+        'contains(#description, :rawSearch)))',
+    );
+  }
+
+  return {
+    KeyConditionExpression: keyCondition,
+    FilterExpression: conditions.length ? conditions.join(' AND ') : undefined,
+    ExpressionAttributeNames: conditions.length ? names : undefined,
+    ExpressionAttributeValues: values,
+  };
+};
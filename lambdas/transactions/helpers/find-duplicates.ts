@@ -0,0 +1,169 @@
+import { toCurrencyNumber } from '../../../utils';
+
+export const DEFAULT_DUPLICATE_WINDOW_DAYS = 3;
+const DESCRIPTION_SIMILARITY_THRESHOLD = 0.6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StoredTransaction = Record<string, unknown>;
+
+export interface DuplicatePair<T = StoredTransaction> {
+  transactions: [T, T];
+  daysApart: number;
+  similarity: number; // 0..1, description similarity
+}
+
+export const getDuplicateWindowDays = (): number => {
+  const days = Number(process.env.DUPLICATE_WINDOW_DAYS);
+  return Number.isInteger(days) && days >= 0
+    ? days
+    : DEFAULT_DUPLICATE_WINDOW_DAYS;
+};
+
+const toIsoDate = (item: StoredTransaction) =>
+  String(item.dateKey ?? '').split('#')[0];
+
+const daysBetween = (a: string, b: string) =>
+  Math.round(
+    Math.abs(
+      new Date(`${a}T00:00:00Z`).getTime() -
+        new Date(`${b}T00:00:00Z`).getTime(),
+    ) / DAY_MS,
+  );
+
+const normalizeDescription = (value: unknown) =>
+  String(value ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const toBigrams = (value: string) => {
+  const compact = value.replace(/ /g, '');
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i += 1) {
+    const bigram = compact.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+/**
+ * Dice coefficient over character bigrams; a description contained in the
+ * other ("Netflix" vs "NETFLIX.COM 4029") counts as identical.
+ */
+export const descriptionSimilarity = (a: unknown, b: unknown): number => {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (left === right) {
+    return 1;
+  }
+  if (!left || !right) {
+    return 0;
+  }
+  if (left.includes(right) || right.includes(left)) {
+    return 1;
+  }
+
+  const leftBigrams = toBigrams(left);
+  const rightBigrams = toBigrams(right);
+  let overlap = 0;
+  let total = 0;
+  leftBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, rightBigrams.get(bigram) ?? 0);
+    total += count;
+  });
+  rightBigrams.forEach((count) => {
+    total += count;
+  });
+
+  return total ? Math.round(((2 * overlap) / total) * 100) / 100 : 0;
+};
+
+/** Compares the amount as entered, falling back to the base amount. */
+const toEnteredAmount = (item: StoredTransaction) => ({
+  amount: toCurrencyNumber(
+    item.originalAmount ?? item.baseAmount ?? item.amount ?? 0,
+  ),
+  currency: item.originalCurrency ?? item.baseCurrency,
+});
+
+/**
+ * Two transactions are likely duplicates when they have the same type and
+ * entered amount/currency, fall within `windowDays` of each other and have
+ * similar descriptions.
+ */
+export const compareForDuplicate = (
+  a: StoredTransaction,
+  b: StoredTransaction,
+  windowDays: number,
+): DuplicatePair | undefined => {
+  if (a.id === b.id || a.type !== b.type) {
+    return undefined;
+  }
+
+  const left = toEnteredAmount(a);
+  const right = toEnteredAmount(b);
+  if (left.amount !== right.amount || left.currency !== right.currency) {
+    return undefined;
+  }
+
+  const daysApart = daysBetween(toIsoDate(a), toIsoDate(b));
+  if (daysApart > windowDays) {
+    return undefined;
+  }
+
+  const similarity = descriptionSimilarity(a.description, b.description);
+  if (similarity < DESCRIPTION_SIMILARITY_THRESHOLD) {
+    return undefined;
+  }
+
+  return { transactions: [a, b], daysApart, similarity };
+};
+
+export const findDuplicatesOf = (
+  candidate: StoredTransaction,
+  existing: StoredTransaction[],
+  windowDays: number,
+): StoredTransaction[] =>
+  existing.filter((item) => compareForDuplicate(candidate, item, windowDays));
+
+/** Pairs up suspected duplicates, older transaction first. */
+export const findDuplicatePairs = (
+  items: StoredTransaction[],
+  windowDays: number,
+): DuplicatePair[] => {
+  const sorted = [...items].sort((a, b) =>
+    String(a.dateKey ?? '').localeCompare(String(b.dateKey ?? '')),
+  );
+  const pairs: DuplicatePair[] = [];
+
+  sorted.forEach((item, index) => {
+    for (const other of sorted.slice(index + 1)) {
+      if (daysBetween(toIsoDate(item), toIsoDate(other)) > windowDays) {
+        break;
+      }
+      const pair = compareForDuplicate(item, other, windowDays);
+      if (pair) {
+        pairs.push(pair);
+      }
+    }
+  });
+
+  return pairs;
+};
+
+/** Date bounds (yyyy-MM-dd) widened by the window around the given dates. */
+export const widenDateRange = (
+  isoDates: string[],
+  windowDays: number,
+): { from: string; to: string } => {
+  const sorted = [...isoDates].sort();
+  const shift = (isoDate: string, days: number) =>
+    new Date(new Date(`${isoDate}T00:00:00Z`).getTime() + days * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+
+  return {
+    from: shift(sorted[0], -windowDays),
+    to: shift(sorted[sorted.length - 1], windowDays),
+  };
+};
@@ -1,6 +1,11 @@
+export * from './build-transaction-query';
 export * from './cursor';
+export * from './find-duplicates';
+export * from './map-import-row';
 export * from './normalize-transaction-input';
 export * from './parse-limit';
 export * from './parse-month-query';
+export * from './parse-transaction-filters';
+export * from './parse-valuation';
 export * from './to-transaction-response';
 export * from './with-transaction-index-fields';
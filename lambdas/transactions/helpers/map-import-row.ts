@@ -0,0 +1,230 @@
+import {
+  isSupportedCurrency,
+  parseCsv,
+  toTransactionDate,
+} from '../../../utils';
+
+export type ImportDateFormat =
+  | 'YYYY-MM-DD'
+  | 'DD.MM.YYYY'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY';
+
+/** Maps transaction fields to CSV header names. */
+export interface TransactionImportMapping {
+  date: string;
+  amount: string;
+  description: string;
+  currency?: string;
+  category?: string;
+  type?: string;
+}
+
+export interface TransactionImportRequest {
+  csv: string;
+  mapping: TransactionImportMapping;
+  dateFormat: ImportDateFormat;
+  delimiter: string;
+  decimalSeparator: '.' | ',';
+  defaultCurrency?: string;
+  defaultCategory?: string;
+  force?: boolean; // import rows that look like existing transactions
+}
+
+export interface ImportedRow {
+  isoDate: string;
+  payload: Record<string, unknown>;
+}
+
+const DATE_PATTERNS: Record<ImportDateFormat, RegExp> = {
+  'YYYY-MM-DD': /^(?<y>\d{4})-(?<m>\d{1,2})-(?<d>\d{1,2})$/,
+  'DD.MM.YYYY': /^(?<d>\d{1,2})\.(?<m>\d{1,2})\.(?<y>\d{4})$/,
+  'DD/MM/YYYY': /^(?<d>\d{1,2})\/(?<m>\d{1,2})\/(?<y>\d{4})$/,
+  'MM/DD/YYYY': /^(?<m>\d{1,2})\/(?<d>\d{1,2})\/(?<y>\d{4})$/,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const parseImportRequest = (
+  payload: unknown,
+): TransactionImportRequest => {
+  if (!isObject(payload) || typeof payload.csv !== 'string') {
+    throw new Error('Import requires a csv string');
+  }
+
+  const mapping = payload.mapping;
+  if (
+    !isObject(mapping) ||
+    typeof mapping.date !== 'string' ||
+    typeof mapping.amount !== 'string' ||
+    typeof mapping.description !== 'string'
+  ) {
+    throw new Error(
+      'Import mapping must name the date, amount and description columns',
+    );
+  }
+
+  const dateFormat = (payload.dateFormat ?? 'YYYY-MM-DD') as ImportDateFormat;
+  if (!DATE_PATTERNS[dateFormat]) {
+    throw new Error(
+      `dateFormat must be one of ${Object.keys(DATE_PATTERNS).join(', ')}`,
+    );
+  }
+
+  const decimalSeparator = payload.decimalSeparator ?? '.';
+  if (decimalSeparator !== '.' && decimalSeparator !== ',') {
+    throw new Error('decimalSeparator must be "." or ","');
+  }
+
+  const delimiter = payload.delimiter ?? ',';
+  if (typeof delimiter !== 'string' || delimiter.length !== 1) {
+    throw new Error('delimiter must be a single character');
+  }
+
+  return {
+    csv: payload.csv,
+    mapping: mapping as unknown as TransactionImportMapping,
+    dateFormat,
+    delimiter,
+    decimalSeparator,
+    defaultCurrency: payload.defaultCurrency as string | undefined,
+    defaultCategory: payload.defaultCategory as string | undefined,
+    force: payload.force === true,
+  };
+};
+
+export const MAX_IMPORT_ROWS = 500;
+
+/** Splits the CSV into its header and data rows, checking the mapping. */
+export const readImportCsv = (
+  request: TransactionImportRequest,
+): { header: string[]; rows: string[][] } => {
+  const [rawHeader, ...rows] = parseCsv(request.csv, request.delimiter);
+  if (!rawHeader || !rows.length) {
+    throw new Error('CSV must contain a header row and at least one data row');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`CSV cannot contain more than ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const header = rawHeader.map((column) => column.trim());
+  const missing = Object.values(request.mapping).filter(
+    (column) => typeof column === 'string' && !header.includes(column),
+  );
+  if (missing.length) {
+    throw new Error(`CSV is missing mapped columns: ${missing.join(', ')}`);
+  }
+
+  return { header, rows };
+};
+
+const parseImportDate = (value: string, format: ImportDateFormat) => {
+  const groups = DATE_PATTERNS[format].exec(value.trim())?.groups;
+  if (!groups) {
+    throw new Error(`Date "${value}" does not match ${format}`);
+  }
+
+  const year = Number(groups.y);
+  const month = Number(groups.m);
+  const day = Number(groups.d);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new Error(`Date "${value}" is not a valid calendar date`);
+  }
+
+  return date.toISOString().slice(0, 10);
+};
+
+const parseImportAmount = (value: string, decimalSeparator: '.' | ',') => {
+  let normalized = value.replace(/\s/g, '');
+  const negativeParens = /^\(.*\)$/.test(normalized);
+  if (negativeParens) {
+    normalized = normalized.slice(1, -1);
+  }
+  normalized =
+    decimalSeparator === ','
+      ? normalized.replace(/\./g, '').replace(',', '.')
+      : normalized.replace(/,/g, '');
+
+  const amount = Number(normalized);
+  if (!normalized || !Number.isFinite(amount)) {
+    throw new Error(`Amount "${value}" is not a number`);
+  }
+
+  return negativeParens ? -amount : amount;
+};
+
+const resolveType = (rawType: string | undefined, amount: number) => {
+  if (rawType === undefined || rawType.trim() === '') {
+    return amount < 0 ? 'expense' : 'income';
+  }
+
+  const type = rawType.trim().toLowerCase();
+  if (type === 'expense' || type === 'debit') {
+    return 'expense';
+  }
+  if (type === 'income' || type === 'credit') {
+    return 'income';
+  }
+  throw new Error(`Type "${rawType}" must be income or expense`);
+};
+
+/**
+ * Turns one CSV data row into a transaction payload ready for
+ * normalizeTransactionInput. Without a mapped type column, negative
+ * amounts are expenses and positive amounts are income.
+ */
+export const mapImportRow = (
+  header: string[],
+  row: string[],
+  request: TransactionImportRequest,
+): ImportedRow => {
+  const { mapping } = request;
+  const read = (column?: string) => {
+    if (!column) {
+      return undefined;
+    }
+    return row[header.indexOf(column)]?.trim();
+  };
+
+  const isoDate = parseImportDate(read(mapping.date) ?? '', request.dateFormat);
+  const signedAmount = parseImportAmount(
+    read(mapping.amount) ?? '',
+    request.decimalSeparator,
+  );
+  const description = read(mapping.description);
+  if (!description) {
+    throw new Error('Description is required');
+  }
+
+  const currency = (
+    read(mapping.currency) ||
+    request.defaultCurrency ||
+    ''
+  ).toUpperCase();
+  if (!isSupportedCurrency(currency)) {
+    throw new Error(`Currency "${currency}" is not supported`);
+  }
+
+  const category = read(mapping.category) || request.defaultCategory;
+  if (!category) {
+    throw new Error('Category is required');
+  }
+
+  return {
+    isoDate,
+    payload: {
+      description,
+      amount: Math.abs(signedAmount),
+      currency,
+      date: toTransactionDate(isoDate),
+      category,
+      type: resolveType(read(mapping.type), signedAmount),
+    },
+  };
+};
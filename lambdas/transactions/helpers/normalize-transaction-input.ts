@@ -2,9 +2,109 @@ import {
   BASE_CURRENCY_CODE,
   convertToBaseCurrency,
   normalizeCurrencyCode,
+  roundToMinorUnits,
   toCurrencyNumber,
 } from '../../../utils';
 import type { RateContext } from '../../../utils';
+import type { CurrencyCode, TransactionSplit } from '../../../types/budget';
+
+/** Raised for payloads the client has to fix; surfaced as 400. */
+export class TransactionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionValidationError';
+  }
+}
+
+/**
+ * Validates the split shares (entered in the transaction currency) and
+ * spreads the base amount across them proportionally. Each side is rounded
+ * to its currency's minor units, and the last split takes the rounding
+ * remainder so the base shares always add up exactly.
+ */
+const normalizeSplits = (
+  rawSplits: unknown,
+  originalAmount: number,
+  originalCurrency: CurrencyCode,
+  baseAmount: number,
+): TransactionSplit[] => {
+  const round = (value: number) => roundToMinorUnits(value, originalCurrency);
+  const roundBase = (value: number) =>
+    roundToMinorUnits(value, BASE_CURRENCY_CODE);
+
+  if (!Array.isArray(rawSplits) || rawSplits.length < 2) {
+    throw new TransactionValidationError(
+      'splits must be an array with at least two entries',
+    );
+  }
+
+  const shares = rawSplits.map((split, index) => {
+    const category =
+      typeof split?.category === 'string' ? split.category.trim() : '';
+    if (!category) {
+      throw new TransactionValidationError(
+        `splits[${index}].category is required`,
+      );
+    }
+    const amount = Number(split.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new TransactionValidationError(
+        `splits[${index}].amount must be a positive number`,
+      );
+    }
+    return { category, originalAmount: round(amount) };
+  });
+
+  if (new Set(shares.map((share) => share.category)).size !== shares.length) {
+    throw new TransactionValidationError('splits must not repeat a category');
+  }
+
+  const total = round(
+    shares.reduce((sum, share) => sum + share.originalAmount, 0),
+  );
+  if (total !== round(originalAmount)) {
+    throw new TransactionValidationError(
+      `splits must sum to the transaction amount ${originalAmount}, got ${total}`,
+    );
+  }
+
+  let allocated = 0;
+  return shares.map((share, index) => {
+    const shareBase =
+      index === shares.length - 1
+        ? roundBase(baseAmount - allocated)
+        : roundBase((baseAmount * share.originalAmount) / originalAmount);
+    allocated += shareBase;
+    return {
+      category: share.category,
+      amount: shareBase,
+      baseAmount: shareBase,
+      originalAmount: share.originalAmount,
+    };
+  });
+};
+
+/**
+ * Splits are replaced as a whole, never merged. A PUT that omits them keeps
+ * the stored shares, which are then re-checked against the new amount;
+ * `null` or `[]` clears them.
+ */
+export const withStoredSplits = (
+  payload: Record<string, unknown>,
+  storedSplits: TransactionSplit[] | undefined,
+): Record<string, unknown> =>
+  payload.splits === undefined && storedSplits
+    ? {
+        ...payload,
+        splits: storedSplits.map((split) => ({
+          category: split.category,
+          amount: split.originalAmount,
+        })),
+      }
+    : payload;
+
+const isEmptyList = (value: unknown) =>
+  Array.isArray(value) && value.length === 0;
 
 export const normalizeTransactionInput = async (
   payload: Record<string, unknown>,
@@ -19,8 +119,9 @@ export const normalizeTransactionInput = async (
     rateContext,
   );
 
-  return {
-    ...payload,
+  const { splits, ...rest } = payload;
+  const normalized: Record<string, unknown> = {
+    ...rest,
     amount: baseAmount,
     currency: BASE_CURRENCY_CODE,
     baseAmount,
@@ -29,4 +130,16 @@ export const normalizeTransactionInput = async (
     originalCurrency,
     exchangeRateSnapshot: snapshot,
   };
+
+  // `null` or an empty list leaves the transaction unsplit.
+  if (splits !== undefined && splits !== null && !isEmptyList(splits)) {
+    normalized.splits = normalizeSplits(
+      splits,
+      originalAmount,
+      originalCurrency,
+      baseAmount,
+    );
+  }
+
+  return normalized;
 };
@@ -0,0 +1,110 @@
+import { convertToBaseCurrency, toCurrencyNumber } from '../../../utils';
+import type { RateContext } from '../../../utils';
+import type { CurrencyCode } from '../../../types/budget';
+
+export interface TransactionFilters {
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+  type?: 'income' | 'expense';
+  category?: string;
+  minAmount?: number; // expressed in the caller's preferred currency
+  maxAmount?: number;
+  recurrenceId?: string;
+  search?: string;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (value: string | undefined, name: string) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (
+    !DATE_REGEX.test(value) ||
+    Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+  ) {
+    throw new Error(`${name} must be a date in the format YYYY-MM-DD`);
+  }
+  return value;
+};
+
+const parseAmount = (value: string | undefined, name: string) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!value.trim() || !Number.isFinite(Number(value))) {
+    throw new Error(`${name} must be a number`);
+  }
+  return toCurrencyNumber(value);
+};
+
+const parseText = (value: string | undefined) => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+};
+
+export const parseTransactionFilters = (
+  params: Record<string, string | undefined> | null | undefined,
+): TransactionFilters => {
+  const query = params ?? {};
+  const from = parseDate(query.from, 'from');
+  const to = parseDate(query.to, 'to');
+  if (from && to && from > to) {
+    throw new Error('from must not be after to');
+  }
+  if (query.month && (from || to)) {
+    throw new Error('month cannot be combined with from or to');
+  }
+
+  const type = parseText(query.type);
+  if (type && type !== 'income' && type !== 'expense') {
+    throw new Error('type must be either income or expense');
+  }
+
+  const minAmount = parseAmount(query.minAmount, 'minAmount');
+  const maxAmount = parseAmount(query.maxAmount, 'maxAmount');
+  if (
+    minAmount !== undefined &&
+    maxAmount !== undefined &&
+    minAmount > maxAmount
+  ) {
+    throw new Error('minAmount must not be greater than maxAmount');
+  }
+
+  const filters: TransactionFilters = {
+    from,
+    to,
+    type: type as TransactionFilters['type'],
+    category: parseText(query.category),
+    minAmount,
+    maxAmount,
+    recurrenceId: parseText(query.recurrenceId),
+    search: parseText(query.q),
+  };
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined),
+  ) as TransactionFilters;
+};
+
+export const toBaseAmountFilters = async (
+  filters: TransactionFilters,
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+): Promise<TransactionFilters> => {
+  if (filters.minAmount === undefined && filters.maxAmount === undefined) {
+    return filters;
+  }
+
+  const toBase = async (value?: number) =>
+    value === undefined
+      ? undefined
+      : (await convertToBaseCurrency(value, preferredCurrency, rateContext))
+          .baseAmount;
+  const [minAmount, maxAmount] = await Promise.all([
+    toBase(filters.minAmount),
+    toBase(filters.maxAmount),
+  ]);
+
+  return { ...filters, minAmount, maxAmount };
+};
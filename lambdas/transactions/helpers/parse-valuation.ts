@@ -0,0 +1,16 @@
+import { TRANSACTION_VALUATIONS, isTransactionValuation } from '../../../utils';
+import type { TransactionValuation } from '../../../types/budget';
+
+export const parseValuation = (
+  rawValuation: string | undefined,
+): TransactionValuation => {
+  if (rawValuation === undefined) {
+    return 'current';
+  }
+  if (!isTransactionValuation(rawValuation)) {
+    throw new Error(
+      `valuation must be one of ${TRANSACTION_VALUATIONS.join(', ')}`,
+    );
+  }
+  return rawValuation;
+};
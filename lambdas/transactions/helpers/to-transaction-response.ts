@@ -1,15 +1,40 @@
 import {
   BASE_CURRENCY_CODE,
-  convertFromBaseCurrency,
+  roundToMinorUnits,
   toCurrencyNumber,
+  valueTransaction,
 } from '../../../utils';
 import type { RateContext } from '../../../utils';
-import type { CurrencyCode, Transaction } from '../../../types/budget';
+import type {
+  CurrencyCode,
+  Transaction,
+  TransactionSplit,
+  TransactionValuation,
+} from '../../../types/budget';
 
+const toSplitResponses = (
+  splits: TransactionSplit[] | undefined,
+  rate: number,
+  currency: CurrencyCode,
+): TransactionSplit[] | undefined =>
+  splits?.map((split) => {
+    const baseAmount = toCurrencyNumber(split.baseAmount ?? split.amount);
+    return {
+      ...split,
+      amount: roundToMinorUnits(baseAmount * rate, currency),
+      baseAmount,
+    };
+  });
+
+/**
+ * Shapes a stored item for the preferred currency. `historical` valuation
+ * uses the rate of the transaction's date, `current` today's rate.
+ */
 export const toTransactionResponse = async (
   item: Record<string, unknown>,
   preferredCurrency: CurrencyCode,
   rateContext: RateContext,
+  valuation: TransactionValuation = 'current',
 ): Promise<Transaction> => {
   const baseAmount = toCurrencyNumber(item.baseAmount ?? item.amount ?? 0);
   const baseCurrency =
@@ -31,12 +56,18 @@ export const toTransactionResponse = async (
       displayAmount: baseAmount,
       displayCurrency: baseCurrency,
       exchangeRateSnapshot: typedItem.exchangeRateSnapshot,
+      splits: toSplitResponses(typedItem.splits, 1, baseCurrency),
     };
   }
 
-  const { amount: convertedAmount, snapshot } = await convertFromBaseCurrency(
-    baseAmount,
+  const {
+    amount: convertedAmount,
+    rate,
+    snapshot,
+  } = await valueTransaction(
+    typedItem,
     preferredCurrency,
+    valuation,
     rateContext,
   );
 
@@ -51,5 +82,18 @@ export const toTransactionResponse = async (
     displayAmount: convertedAmount,
     displayCurrency: preferredCurrency,
     exchangeRateSnapshot: snapshot,
+    splits: toSplitResponses(typedItem.splits, rate, preferredCurrency),
   };
 };
+
+export const toTransactionResponses = (
+  items: Record<string, unknown>[],
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+  valuation: TransactionValuation = 'current',
+): Promise<Transaction[]> =>
+  Promise.all(
+    items.map((item) =>
+      toTransactionResponse(item, preferredCurrency, rateContext, valuation),
+    ),
+  );
@@ -1,5 +1,12 @@
+import type { TransactionSplit } from '../../../types/budget';
 import { buildDateKey } from '../../../utils/build-date-key';
 
+/**
+ * Adds the derived attributes the list queries rely on: the `dateKey` sort
+ * key, the lower-cased `descriptionSearch` for case-insensitive search and,
+ * for split transactions, `splitCategories` so a category filter also finds
+ * the transactions it only has a share of.
+ */
 export const withTransactionIndexFields = (
   transaction: Record<string, unknown>,
 ): Record<string, unknown> => {
@@ -10,8 +17,18 @@ export const withTransactionIndexFields = (
     throw new Error('Transaction id and date are required');
   }
 
-  return {
+  const indexed: Record<string, unknown> = {
     ...transaction,
     dateKey: buildDateKey(date, id),
   };
+  if (typeof transaction.description === 'string') {
+    indexed.descriptionSearch = transaction.description.toLowerCase();
+  }
+  const splits = transaction.splits as TransactionSplit[] | undefined;
+  if (splits?.length) {
+    indexed.splitCategories = splits.map((split) => split.category);
+  } else {
+    delete indexed.splitCategories;
+  }
+  return indexed;
 };
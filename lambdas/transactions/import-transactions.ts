@@ -0,0 +1,236 @@
+import { createHash } from 'crypto';
+import {
+  BatchGetItemCommand,
+  BatchGetItemCommandOutput,
+  BatchWriteItemCommand,
+  BatchWriteItemCommandOutput,
+  DynamoDBClient,
+  WriteRequest,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { RateContext } from '../../utils';
+import { loadDuplicateNeighbours } from './duplicates';
+import {
+  TransactionValidationError,
+  findDuplicatesOf,
+  getDuplicateWindowDays,
+  mapImportRow,
+  normalizeTransactionInput,
+  withTransactionIndexFields,
+} from './helpers';
+import type { TransactionImportRequest } from './helpers';
+
+const client = new DynamoDBClient({});
+const TABLE_NAME = process.env.TABLE_NAME!;
+const BATCH_GET_SIZE = 100;
+const BATCH_WRITE_SIZE = 25;
+const MAX_BATCH_ATTEMPTS = 5;
+
+export type ImportRowStatus = 'created' | 'duplicate' | 'invalid' | 'failed';
+
+export interface ImportRowReport {
+  row: number; // 1-based index of the data row (header excluded)
+  status: ImportRowStatus;
+  id?: string;
+  duplicateOf?: string; // existing transaction this row likely repeats
+  error?: string;
+}
+
+export interface TransactionImportReport {
+  created: number;
+  duplicate: number;
+  invalid: number;
+  failed: number;
+  rows: ImportRowReport[];
+}
+
+type PendingRow = {
+  report: ImportRowReport;
+  item: Record<string, unknown>;
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Ids are derived from the row content (plus how many identical rows came
+ * before it in the file) so importing the same statement twice is detected
+ * as duplicates instead of doubling the ledger.
+ */
+const buildImportId = (userId: string, fingerprint: string) =>
+  `import-${createHash('sha256')
+    .update(`${userId}|${fingerprint}`)
+    .digest('hex')
+    .slice(0, 32)}`;
+
+const findExistingIds = async (ids: string[]): Promise<Set<string>> => {
+  const existing = new Set<string>();
+  for (const batch of chunk(ids, BATCH_GET_SIZE)) {
+    let keys: Record<string, unknown>[] | undefined = batch.map((id) => ({
+      id,
+    }));
+    let attempt = 0;
+    while (keys?.length && attempt < MAX_BATCH_ATTEMPTS) {
+      const res: BatchGetItemCommandOutput = await client.send(
+        new BatchGetItemCommand({
+          RequestItems: {
+            [TABLE_NAME]: {
+              Keys: keys.map((key) => marshall(key)),
+              ProjectionExpression: 'id',
+            },
+          },
+        }),
+      );
+      res.Responses?.[TABLE_NAME]?.forEach((item) =>
+        existing.add(unmarshall(item).id as string),
+      );
+      keys = res.UnprocessedKeys?.[TABLE_NAME]?.Keys?.map((key) =>
+        unmarshall(key),
+      );
+      attempt += 1;
+      if (keys?.length) {
+        await sleep(2 ** attempt * 50);
+      }
+    }
+  }
+  return existing;
+};
+
+const writeBatch = async (rows: PendingRow[]) => {
+  let requests: WriteRequest[] | undefined = rows.map((row) => ({
+    PutRequest: { Item: marshall(row.item, { removeUndefinedValues: true }) },
+  }));
+
+  let attempt = 0;
+  while (requests?.length && attempt < MAX_BATCH_ATTEMPTS) {
+    const res: BatchWriteItemCommandOutput = await client.send(
+      new BatchWriteItemCommand({ RequestItems: { [TABLE_NAME]: requests } }),
+    );
+    requests = res.UnprocessedItems?.[TABLE_NAME];
+    attempt += 1;
+    if (requests?.length) {
+      await sleep(2 ** attempt * 50);
+    }
+  }
+
+  const unprocessed = new Set(
+    (requests ?? []).map(
+      (request) => unmarshall(request.PutRequest?.Item ?? {}).id as string,
+    ),
+  );
+  rows.forEach((row) => {
+    if (unprocessed.has(row.report.id!)) {
+      row.report.status = 'failed';
+      row.report.error = 'Write was throttled, retry the import';
+    }
+  });
+};
+
+/** Drops rows that look like transactions entered by hand or elsewhere. */
+const skipLikelyDuplicates = async (userId: string, rows: PendingRow[]) => {
+  const windowDays = getDuplicateWindowDays();
+  const neighbours = await loadDuplicateNeighbours(
+    userId,
+    rows.map((row) => String(row.item.dateKey).split('#')[0]),
+    windowDays,
+  );
+
+  return rows.filter((row) => {
+    const [duplicate] = findDuplicatesOf(row.item, neighbours, windowDays);
+    if (duplicate) {
+      row.report.status = 'duplicate';
+      row.report.duplicateOf = duplicate.id as string;
+      return false;
+    }
+    return true;
+  });
+};
+
+export const importTransactions = async (
+  userId: string,
+  header: string[],
+  rows: string[][],
+  request: TransactionImportRequest,
+  rateContext: RateContext,
+): Promise<TransactionImportReport> => {
+  const reports: ImportRowReport[] = [];
+  const pending: PendingRow[] = [];
+  const occurrences = new Map<string, number>();
+
+  for (const [index, row] of rows.entries()) {
+    const report: ImportRowReport = { row: index + 1, status: 'created' };
+    reports.push(report);
+
+    try {
+      const { isoDate, payload } = mapImportRow(header, row, request);
+      const fingerprint = [
+        isoDate,
+        payload.amount,
+        payload.currency,
+        payload.type,
+        payload.description,
+      ].join('|');
+      const occurrence = (occurrences.get(fingerprint) ?? 0) + 1;
+      occurrences.set(fingerprint, occurrence);
+      report.id = buildImportId(userId, `${fingerprint}|${occurrence}`);
+
+      try {
+        const normalized = await normalizeTransactionInput(
+          payload,
+          rateContext,
+        );
+        pending.push({
+          report,
+          item: withTransactionIndexFields({
+            id: report.id,
+            ...normalized,
+            userId,
+          }),
+        });
+      } catch (err) {
+        // Bad row data is the file's fault; a failed conversion may succeed
+        // on a retry.
+        report.status =
+          err instanceof TransactionValidationError ? 'invalid' : 'failed';
+        report.error = (err as Error).message;
+      }
+    } catch (err) {
+      report.status = 'invalid';
+      report.error = (err as Error).message;
+    }
+  }
+
+  const existing = await findExistingIds(pending.map((row) => row.report.id!));
+  let toWrite = pending.filter((row) => {
+    if (existing.has(row.report.id!)) {
+      row.report.status = 'duplicate';
+      return false;
+    }
+    return true;
+  });
+  if (!request.force) {
+    toWrite = await skipLikelyDuplicates(userId, toWrite);
+  }
+
+  for (const batch of chunk(toWrite, BATCH_WRITE_SIZE)) {
+    await writeBatch(batch);
+  }
+
+  const count = (status: ImportRowStatus) =>
+    reports.filter((report) => report.status === status).length;
+
+  return {
+    created: count('created'),
+    duplicate: count('duplicate'),
+    invalid: count('invalid'),
+    failed: count('failed'),
+    rows: reports,
+  };
+};
@@ -0,0 +1,99 @@
+import { DynamoDBClient, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { RateContext } from '../../utils';
+import type {
+  CurrencyCode,
+  PaginatedTransactionsResponse,
+  TransactionValuation,
+} from '../../types/budget';
+import {
+  buildTransactionQuery,
+  encodeCursor,
+  toBaseAmountFilters,
+  toTransactionResponses,
+} from './helpers';
+import type { TransactionFilters } from './helpers';
+
+const client = new DynamoDBClient({});
+const TABLE_NAME = process.env.TABLE_NAME!;
+const TRANSACTIONS_BY_USER_INDEX = 'userId-dateKey-index';
+const MAX_QUERIES_PER_PAGE = 10;
+
+export interface TransactionPageRequest {
+  limit: number;
+  exclusiveStartKey?: Record<string, unknown>;
+  monthPrefix?: string;
+  filters: TransactionFilters;
+}
+
+/** Reads one newest-first page of the user's transactions. */
+export const listTransactionsPage = async (
+  userId: string,
+  request: TransactionPageRequest,
+  preferredCurrency: CurrencyCode,
+  rateContext: RateContext,
+  valuation: TransactionValuation = 'current',
+): Promise<PaginatedTransactionsResponse> => {
+  const { limit, exclusiveStartKey, monthPrefix, filters } = request;
+  const baseFilters = await toBaseAmountFilters(
+    filters,
+    preferredCurrency,
+    rateContext,
+  );
+  const {
+    KeyConditionExpression,
+    FilterExpression,
+    ExpressionAttributeNames,
+    ExpressionAttributeValues,
+  } = buildTransactionQuery(userId, monthPrefix, baseFilters);
+
+  // Limit caps the items read, not the matches, so a filtered query keeps
+  // reading until the page is full, the index is exhausted or it has used
+  // MAX_QUERIES_PER_PAGE reads. Only in that last case is a page short.
+  const items: Record<string, unknown>[] = [];
+  let startKey = exclusiveStartKey ? marshall(exclusiveStartKey) : undefined;
+  let queries = 0;
+  do {
+    const res = await client.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: TRANSACTIONS_BY_USER_INDEX,
+        KeyConditionExpression,
+        FilterExpression,
+        ExpressionAttributeNames,
+        ExpressionAttributeValues: marshall(ExpressionAttributeValues),
+        ExclusiveStartKey: startKey,
+        Limit: limit,
+        ScanIndexForward: false,
+      }),
+    );
+    queries += 1;
+    items.push(...(res.Items?.map((item) => unmarshall(item)) ?? []));
+    startKey = res.LastEvaluatedKey;
+  } while (
+    FilterExpression &&
+    startKey &&
+    items.length < limit &&
+    queries < MAX_QUERIES_PER_PAGE
+  );
+
+  const page = items.slice(0, limit);
+  const response: PaginatedTransactionsResponse = {
+    items: await toTransactionResponses(
+      page,
+      preferredCurrency,
+      rateContext,
+      valuation,
+    ),
+  };
+
+  if (items.length > limit) {
+    // The last read matched more than fits; resume after the last item kept.
+    const { id, userId: owner, dateKey } = page[page.length - 1];
+    response.nextCursor = encodeCursor({ id, userId: owner, dateKey });
+  } else if (startKey) {
+    response.nextCursor = encodeCursor(unmarshall(startKey));
+  }
+
+  return response;
+};
@@ -1,12 +1,19 @@
 import { APIGatewayEvent, APIGatewayProxyHandler } from 'aws-lambda';
 import { buildResponse, isSupportedCurrency } from '../../utils';
+import { updateBudgetAlertSubscription } from '../../utils/budget-alerts';
 import {
   getUserPreference,
   saveUserPreference,
 } from '../../utils/user-preferences';
-import { getSupportedCurrencies } from '../../utils/currency';
+import {
+  getCurrencyMetadata,
+  getSupportedCurrencies,
+} from '../../utils/currency';
 
 const supportedCurrencies = getSupportedCurrencies();
+// Name, symbol and minor units of each supported currency, for display.
+const currencies = supportedCurrencies.map(getCurrencyMetadata);
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export const handler: APIGatewayProxyHandler = async (
   event: APIGatewayEvent,
@@ -27,12 +34,17 @@ export const handler: APIGatewayProxyHandler = async (
       }
 
       const preference = await getUserPreference(targetUserId);
-      return buildResponse(200, { ...preference, supportedCurrencies }, origin);
+      return buildResponse(
+        200,
+        { ...preference, supportedCurrencies, currencies },
+        origin,
+      );
     }
 
     if ((httpMethod === 'POST' || httpMethod === 'PUT') && body) {
       const payload = JSON.parse(body) as {
         preferredCurrency?: string;
+        alertEmail?: string | null;
       };
 
       if (!isSupportedCurrency(payload.preferredCurrency)) {
@@ -46,12 +58,35 @@ export const handler: APIGatewayProxyHandler = async (
         );
       }
 
+      const { alertEmail } = payload;
+      if (
+        alertEmail &&
+        (typeof alertEmail !== 'string' || !EMAIL_REGEX.test(alertEmail.trim()))
+      ) {
+        return buildResponse(
+          400,
+          { message: 'alertEmail must be a valid email address' },
+          origin,
+        );
+      }
+
+      const existing = await getUserPreference(userId);
+      const subscription = await updateBudgetAlertSubscription(
+        userId,
+        existing,
+        alertEmail,
+      );
       const updated = await saveUserPreference(
         userId,
         payload.preferredCurrency,
+        { timezone: existing.timezone, ...subscription },
       );
 
-      return buildResponse(200, { ...updated, supportedCurrencies }, origin);
+      return buildResponse(
+        200,
+        { ...updated, supportedCurrencies, currencies },
+        origin,
+      );
     }
 
     return buildResponse(
@@ -4,6 +4,7 @@ import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import { BudgetTrackerStackProps } from '../types/stack-props';
 import { createApiResources } from './stack-api';
+import { createBudgetAlertResources } from './stack-alerts';
 import { createAuthResources } from './stack-auth';
 import { createDataTables } from './stack-data';
 import { createLambdaResources } from './stack-lambdas';
@@ -21,6 +22,8 @@ export class BudgetTrackerAwsStack extends cdk.Stack {
       currencyApi,
       currencyRates,
       ratesAdminGroup,
+      recurringAdminGroup,
+      budgetAlerts,
     } = props;
 
     const { userPool, userPoolClient, authOptions } = createAuthResources(
@@ -40,6 +43,7 @@ export class BudgetTrackerAwsStack extends cdk.Stack {
       userPreferencesTable,
       exchangeRatesTable,
       recurringTransactionsTable,
+      goalContributionsTable,
       tables,
     } = createDataTables(this, environmentName);
 
@@ -53,6 +57,9 @@ export class BudgetTrackerAwsStack extends cdk.Stack {
       RATES_TABLE_NAME: exchangeRatesTable.tableName,
       CURRENCY_PERSISTED_FRESH_MS: String(currencyRates.persistedFreshMs),
       CURRENCY_PERSISTED_TTL_DAYS: String(currencyRates.persistedTtlDays),
+      CURRENCY_RATE_PROVIDERS: currencyRates.providers.join(','),
+      CURRENCY_PROVIDER_TIMEOUT_MS: String(currencyRates.providerTimeoutMs),
+      CURRENCY_PEGS: currencyRates.pegs.join(','),
     };
 
     const {
@@ -63,14 +70,22 @@ export class BudgetTrackerAwsStack extends cdk.Stack {
       manualRatesRefreshLambda,
       recurringMaterializerLambda,
       recurringMaterializeLambda,
+      summaryLambda,
+      forecastLambda,
+      recurringBackfillLambda,
+      exportLambda,
+      ratesLambda,
+      categoryLimitsSeederLambda,
     } = createLambdaResources(this, {
       sharedLambdaEnv,
       tables,
       userPreferencesTable,
       exchangeRatesTable,
       recurringTransactionsTable,
+      goalContributionsTable,
       currencyApiSecret,
       ratesAdminGroup,
+      recurringAdminGroup,
     });
 
     const api = new apigateway.RestApi(this, 'BudgetTrackerApi', {
@@ -85,6 +100,11 @@ export class BudgetTrackerAwsStack extends cdk.Stack {
       manualRatesRefreshLambda,
       userLambda,
       recurringMaterializeLambda,
+      summaryLambda,
+      forecastLambda,
+      recurringBackfillLambda,
+      exportLambda,
+      ratesLambda,
       authOptions,
       allowOrigins,
     });
@@ -93,8 +113,16 @@ export class BudgetTrackerAwsStack extends cdk.Stack {
       this,
       ratesRefreshLambda,
       recurringMaterializerLambda,
+      categoryLimitsSeederLambda,
     );
 
+    const { budgetAlertsTopic } = createBudgetAlertResources(this, {
+      sharedLambdaEnv,
+      categoriesTable: tables['Category'],
+      thresholds: budgetAlerts.thresholds,
+      userLambda,
+    });
+
     const getExportName = (baseName: string): string =>
       environmentName === 'prod' ? baseName : `${baseName}-dev`;
 
@@ -114,5 +142,9 @@ export class BudgetTrackerAwsStack extends cdk.Stack {
       value: ratesAlertsTopic.topicArn,
       exportName: getExportName('RatesAlertsTopicArn'),
     });
+    new cdk.CfnOutput(this, 'BudgetAlertsTopicArn', {
+      value: budgetAlertsTopic.topicArn,
+      exportName: getExportName('BudgetAlertsTopicArn'),
+    });
   }
 }
@@ -0,0 +1,52 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda-nodejs';
+import { Construct } from 'constructs';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import type { LambdaResourceParams } from './stack-lambdas';
+
+export interface AdminLambdaResources {
+  recurringBackfillLambda: lambda.NodejsFunction;
+}
+
+/** Handlers restricted to a Cognito admin group. */
+export const createAdminLambdaResources = (
+  scope: Construct,
+  params: LambdaResourceParams,
+): AdminLambdaResources => {
+  const {
+    sharedLambdaEnv,
+    tables,
+    recurringTransactionsTable,
+    goalContributionsTable,
+    recurringAdminGroup,
+  } = params;
+
+  const recurringBackfillLambda = new lambda.NodejsFunction(
+    scope,
+    'RecurringBackfillHandler',
+    {
+      entry: path.join(__dirname, '../lambdas/recurring-backfill/handler.ts'),
+      handler: 'handler',
+      runtime: Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.seconds(29),
+      environment: {
+        ...sharedLambdaEnv,
+        TRANSACTIONS_TABLE_NAME: tables['Transaction'].tableName,
+        CATEGORIES_TABLE_NAME: tables['Category'].tableName,
+        RECURRING_TRANSACTIONS_TABLE_NAME: recurringTransactionsTable.tableName,
+        GOALS_TABLE_NAME: tables['Goal'].tableName,
+        GOAL_CONTRIBUTIONS_TABLE_NAME: goalContributionsTable.tableName,
+        RECURRING_BACKFILL_ALLOWED_GROUP: recurringAdminGroup,
+      },
+    },
+  );
+
+  tables['Transaction'].grantReadWriteData(recurringBackfillLambda);
+  tables['Category'].grantReadWriteData(recurringBackfillLambda);
+  recurringTransactionsTable.grantReadData(recurringBackfillLambda);
+  tables['Goal'].grantReadWriteData(recurringBackfillLambda);
+  goalContributionsTable.grantReadWriteData(recurringBackfillLambda);
+
+  return { recurringBackfillLambda };
+};
@@ -0,0 +1,76 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import type * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import { Construct } from 'constructs';
+import { Runtime, StartingPosition } from 'aws-cdk-lib/aws-lambda';
+import type { SharedLambdaEnv } from './stack-lambdas';
+
+export interface BudgetAlertResources {
+  budgetAlertsTopic: sns.Topic;
+  budgetAlertsLambda: lambda.NodejsFunction;
+}
+
+export interface BudgetAlertResourceParams {
+  sharedLambdaEnv: SharedLambdaEnv;
+  categoriesTable: dynamodb.Table;
+  thresholds: number[];
+  userLambda: lambda.NodejsFunction;
+}
+
+export const createBudgetAlertResources = (
+  scope: Construct,
+  params: BudgetAlertResourceParams,
+): BudgetAlertResources => {
+  const { sharedLambdaEnv, categoriesTable, thresholds, userLambda } = params;
+
+  // Messages carry a userId attribute. The users lambda subscribes each
+  // user's alertEmail with a filter policy on it.
+  const budgetAlertsTopic = new sns.Topic(scope, 'BudgetAlertsTopic');
+  userLambda.addEnvironment(
+    'BUDGET_ALERTS_TOPIC_ARN',
+    budgetAlertsTopic.topicArn,
+  );
+  userLambda.addToRolePolicy(
+    new iam.PolicyStatement({
+      actions: ['sns:Subscribe', 'sns:Unsubscribe'],
+      resources: [
+        budgetAlertsTopic.topicArn,
+        `${budgetAlertsTopic.topicArn}:*`,
+      ],
+    }),
+  );
+
+  const budgetAlertsLambda = new lambda.NodejsFunction(
+    scope,
+    'BudgetAlertsHandler',
+    {
+      entry: path.join(__dirname, '../lambdas/budget-alerts/handler.ts'),
+      handler: 'handler',
+      runtime: Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        ...sharedLambdaEnv,
+        CATEGORIES_TABLE_NAME: categoriesTable.tableName,
+        BUDGET_ALERTS_TOPIC_ARN: budgetAlertsTopic.topicArn,
+        BUDGET_ALERT_THRESHOLDS: thresholds.join(','),
+      },
+    },
+  );
+
+  categoriesTable.grantReadWriteData(budgetAlertsLambda);
+  budgetAlertsTopic.grantPublish(budgetAlertsLambda);
+  budgetAlertsLambda.addEventSource(
+    new lambdaEventSources.DynamoEventSource(categoriesTable, {
+      startingPosition: StartingPosition.LATEST,
+      batchSize: 25,
+      retryAttempts: 5,
+      reportBatchItemFailures: true,
+    }),
+  );
+
+  return { budgetAlertsTopic, budgetAlertsLambda };
+};
@@ -10,6 +10,11 @@ export interface ApiResourcesParams {
   manualRatesRefreshLambda: lambda.NodejsFunction;
   userLambda: lambda.NodejsFunction;
   recurringMaterializeLambda: lambda.NodejsFunction;
+  summaryLambda: lambda.NodejsFunction;
+  forecastLambda: lambda.NodejsFunction;
+  recurringBackfillLambda: lambda.NodejsFunction;
+  exportLambda: lambda.NodejsFunction;
+  ratesLambda: lambda.NodejsFunction;
   authOptions: apigateway.MethodOptions;
   allowOrigins: string[];
 }
@@ -25,6 +30,11 @@ export const createApiResources = (
     manualRatesRefreshLambda,
     userLambda,
     recurringMaterializeLambda,
+    summaryLambda,
+    forecastLambda,
+    recurringBackfillLambda,
+    exportLambda,
+    ratesLambda,
     authOptions,
     allowOrigins,
   } = params;
@@ -53,6 +63,54 @@ export const createApiResources = (
       allowOrigins,
       allowMethods: ['GET', 'OPTIONS'],
     });
+
+    const transactionsImportResource = api.root
+      .getResource('transactions')
+      ?.addResource('import');
+    transactionsImportResource?.addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(transactionsLambda),
+      authOptions,
+    );
+    transactionsImportResource?.addCorsPreflight({
+      allowOrigins,
+      allowMethods: ['POST', 'OPTIONS'],
+    });
+
+    const transactionsDuplicatesResource = api.root
+      .getResource('transactions')
+      ?.addResource('duplicates');
+    transactionsDuplicatesResource?.addMethod(
+      'GET',
+      new apigateway.LambdaIntegration(transactionsLambda),
+      authOptions,
+    );
+    transactionsDuplicatesResource?.addCorsPreflight({
+      allowOrigins,
+      allowMethods: ['GET', 'OPTIONS'],
+    });
+  }
+
+  const goalsLambda = lambdas.Goal;
+  if (goalsLambda) {
+    const goalContributionsResource = api.root
+      .getResource('goals')
+      ?.getResource('{id}')
+      ?.addResource('contributions');
+    goalContributionsResource?.addMethod(
+      'GET',
+      new apigateway.LambdaIntegration(goalsLambda),
+      authOptions,
+    );
+    goalContributionsResource?.addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(goalsLambda),
+      authOptions,
+    );
+    goalContributionsResource?.addCorsPreflight({
+      allowOrigins,
+      allowMethods: ['GET', 'POST', 'OPTIONS'],
+    });
   }
 
   const recurringResource = addCrudResource(
@@ -63,6 +121,30 @@ export const createApiResources = (
     allowOrigins,
   );
 
+  const backfillResource = recurringResource.addResource('backfill');
+  backfillResource.addMethod(
+    'POST',
+    new apigateway.LambdaIntegration(recurringBackfillLambda),
+    authOptions,
+  );
+  backfillResource.addCorsPreflight({
+    allowOrigins,
+    allowMethods: ['POST', 'OPTIONS'],
+  });
+
+  const previewResource = recurringResource
+    .getResource('{id}')
+    ?.addResource('preview');
+  previewResource?.addMethod(
+    'GET',
+    new apigateway.LambdaIntegration(recurringTransactionsLambda),
+    authOptions,
+  );
+  previewResource?.addCorsPreflight({
+    allowOrigins,
+    allowMethods: ['GET', 'OPTIONS'],
+  });
+
   const materializeResource = recurringResource.addResource('materialize');
   materializeResource.addMethod(
     'POST',
@@ -74,22 +156,69 @@ export const createApiResources = (
     allowMethods: ['POST', 'OPTIONS'],
   });
 
+  const ratesIntegration = new apigateway.LambdaIntegration(ratesLambda);
   const ratesResource = api.root.addResource('rates');
+  ratesResource.addMethod('GET', ratesIntegration, authOptions);
   const refreshResource = ratesResource.addResource('refresh');
   refreshResource.addMethod(
     'POST',
     new apigateway.LambdaIntegration(manualRatesRefreshLambda),
     authOptions,
   );
+  const ratesStatusResource = ratesResource.addResource('status');
+  ratesStatusResource.addMethod('GET', ratesIntegration, authOptions);
+  const ratePairResource = ratesResource
+    .addResource('{from}')
+    .addResource('{to}');
+  ratePairResource.addMethod('GET', ratesIntegration, authOptions);
 
   ratesResource.addCorsPreflight({
     allowOrigins,
-    allowMethods: ['POST', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'OPTIONS'],
   });
   refreshResource.addCorsPreflight({
     allowOrigins,
     allowMethods: ['POST', 'OPTIONS'],
   });
+  [ratesStatusResource, ratePairResource].forEach((resource) =>
+    resource.addCorsPreflight({
+      allowOrigins,
+      allowMethods: ['GET', 'OPTIONS'],
+    }),
+  );
+
+  const summaryResource = api.root.addResource('summary');
+  summaryResource.addMethod(
+    'GET',
+    new apigateway.LambdaIntegration(summaryLambda),
+    authOptions,
+  );
+  summaryResource.addCorsPreflight({
+    allowOrigins,
+    allowMethods: ['GET', 'OPTIONS'],
+  });
+
+  const forecastResource = api.root.addResource('forecast');
+  forecastResource.addMethod(
+    'GET',
+    new apigateway.LambdaIntegration(forecastLambda),
+    authOptions,
+  );
+  forecastResource.addCorsPreflight({
+    allowOrigins,
+    allowMethods: ['GET', 'OPTIONS'],
+  });
+
+  const exportResource = api.root.addResource('export');
+  exportResource.addMethod(
+    'GET',
+    new apigateway.LambdaIntegration(exportLambda),
+    authOptions,
+  );
+  exportResource.addCorsPreflight({
+    allowOrigins,
+    allowMethods: ['GET', 'OPTIONS'],
+  });
 
   const usersResource = api.root.addResource('users');
   const userIntegration = new apigateway.LambdaIntegration(userLambda);
@@ -6,6 +6,7 @@ export interface DataTables {
   userPreferencesTable: dynamodb.Table;
   exchangeRatesTable: dynamodb.Table;
   recurringTransactionsTable: dynamodb.Table;
+  goalContributionsTable: dynamodb.Table;
   tables: Record<string, dynamodb.Table>;
 }
 
@@ -51,6 +52,12 @@ export const createDataTables = (
         billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
         tableName: getPhysicalName(environmentName, name.toLowerCase() + 's'),
         removalPolicy: cdk.RemovalPolicy.DESTROY,
+        // Transaction writes feed the category spend consumer and category
+        // writes feed the budget alerts consumer.
+        stream:
+          name === 'Transaction' || name === 'Category'
+            ? dynamodb.StreamViewType.NEW_AND_OLD_IMAGES
+            : undefined,
       });
       return acc;
     },
@@ -68,6 +75,19 @@ export const createDataTables = (
     },
   );
 
+  // One partition per goal, entries ordered by "yyyy-MM-dd#id".
+  const goalContributionsTable = new dynamodb.Table(
+    scope,
+    'GoalContributionsTable',
+    {
+      partitionKey: { name: 'goalId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'dateKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      tableName: getPhysicalName(environmentName, 'goal-contributions'),
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    },
+  );
+
   recurringTransactionsTable.addGlobalSecondaryIndex({
     indexName: 'status-nextOccurrence-index',
     partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
@@ -107,6 +127,7 @@ export const createDataTables = (
     userPreferencesTable,
     exchangeRatesTable,
     recurringTransactionsTable,
+    goalContributionsTable,
     tables,
   };
 };
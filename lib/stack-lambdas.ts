@@ -2,10 +2,16 @@ import * as path from 'path';
 import * as cdk from 'aws-cdk-lib';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as lambda from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
 import type * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import type * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
 import { Construct } from 'constructs';
-import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { Runtime, StartingPosition } from 'aws-cdk-lib/aws-lambda';
+import { createAdminLambdaResources } from './stack-admin-lambdas';
+import type { AdminLambdaResources } from './stack-admin-lambdas';
+import { createReportLambdaResources } from './stack-report-lambdas';
+import type { ReportLambdaResources } from './stack-report-lambdas';
 
 export type SharedLambdaEnv = Record<string, string> & {
   ALLOW_ORIGINS: string;
@@ -19,7 +25,9 @@ export type SharedLambdaEnv = Record<string, string> & {
   CURRENCY_PERSISTED_TTL_DAYS: string;
 };
 
-export interface CrudLambdaResources {
+export interface CrudLambdaResources
+  extends ReportLambdaResources,
+    AdminLambdaResources {
   lambdas: Record<string, lambda.NodejsFunction>;
   userLambda: lambda.NodejsFunction;
   recurringTransactionsLambda: lambda.NodejsFunction;
@@ -27,6 +35,8 @@ export interface CrudLambdaResources {
   manualRatesRefreshLambda: lambda.NodejsFunction;
   recurringMaterializerLambda: lambda.NodejsFunction;
   recurringMaterializeLambda: lambda.NodejsFunction;
+  categorySpendLambda: lambda.NodejsFunction;
+  categoryLimitsSeederLambda: lambda.NodejsFunction;
 }
 
 export interface LambdaResourceParams {
@@ -35,8 +45,10 @@ export interface LambdaResourceParams {
   userPreferencesTable: dynamodb.Table;
   exchangeRatesTable: dynamodb.Table;
   recurringTransactionsTable: dynamodb.Table;
+  goalContributionsTable: dynamodb.Table;
   currencyApiSecret?: secretsmanager.ISecret;
   ratesAdminGroup: string;
+  recurringAdminGroup: string;
 }
 
 export const createLambdaResources = (
@@ -49,6 +61,7 @@ export const createLambdaResources = (
     userPreferencesTable,
     exchangeRatesTable,
     recurringTransactionsTable,
+    goalContributionsTable,
     currencyApiSecret,
     ratesAdminGroup,
   } = params;
@@ -79,6 +92,14 @@ export const createLambdaResources = (
     {} as Record<string, lambda.NodejsFunction>,
   );
 
+  // Contributions update the goal balance in the same transaction.
+  lambdas.Goal.addEnvironment('GOALS_TABLE_NAME', tables['Goal'].tableName);
+  lambdas.Goal.addEnvironment(
+    'GOAL_CONTRIBUTIONS_TABLE_NAME',
+    goalContributionsTable.tableName,
+  );
+  goalContributionsTable.grantReadWriteData(lambdas.Goal);
+
   const userLambda = new lambda.NodejsFunction(
     scope,
     'UserPreferencesHandler',
@@ -106,12 +127,14 @@ export const createLambdaResources = (
       runtime: Runtime.NODEJS_22_X,
       environment: {
         TABLE_NAME: recurringTransactionsTable.tableName,
+        GOALS_TABLE_NAME: tables['Goal'].tableName,
         ...sharedLambdaEnv,
       },
     },
   );
 
   recurringTransactionsTable.grantReadWriteData(recurringTransactionsLambda);
+  tables['Goal'].grantReadData(recurringTransactionsLambda);
   userPreferencesTable.grantReadData(recurringTransactionsLambda);
   exchangeRatesTable.grantReadWriteData(recurringTransactionsLambda);
   currencyApiSecret?.grantRead(recurringTransactionsLambda);
@@ -219,6 +242,73 @@ export const createLambdaResources = (
   recurringTransactionsTable.grantReadWriteData(recurringMaterializeLambda);
   userPreferencesTable.grantReadData(recurringMaterializeLambda);
 
+  // Goal-linked rules deposit every occurrence into the goal.
+  [recurringMaterializerLambda, recurringMaterializeLambda].forEach((fn) => {
+    fn.addEnvironment('GOALS_TABLE_NAME', tables['Goal'].tableName);
+    fn.addEnvironment(
+      'GOAL_CONTRIBUTIONS_TABLE_NAME',
+      goalContributionsTable.tableName,
+    );
+    tables['Goal'].grantReadWriteData(fn);
+    goalContributionsTable.grantReadWriteData(fn);
+  });
+
+  const categorySpendLambda = new lambda.NodejsFunction(
+    scope,
+    'CategorySpendHandler',
+    {
+      entry: path.join(__dirname, '../lambdas/category-spend/handler.ts'),
+      handler: 'handler',
+      runtime: Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        ...sharedLambdaEnv,
+        CATEGORIES_TABLE_NAME: tables['Category'].tableName,
+      },
+    },
+  );
+
+  tables['Category'].grantReadWriteData(categorySpendLambda);
+  // Records still failing after the retries are parked here instead of
+  // being dropped, so their spend can be replayed.
+  const categorySpendFailures = new sqs.Queue(scope, 'CategorySpendFailures', {
+    retentionPeriod: cdk.Duration.days(14),
+  });
+  categorySpendLambda.addEventSource(
+    new lambdaEventSources.DynamoEventSource(tables['Transaction'], {
+      startingPosition: StartingPosition.LATEST,
+      batchSize: 25,
+      retryAttempts: 5,
+      reportBatchItemFailures: true,
+      onFailure: new lambdaEventSources.SqsDlq(categorySpendFailures),
+    }),
+  );
+
+  const reportLambdas = createReportLambdaResources(scope, params);
+  const adminLambdas = createAdminLambdaResources(scope, params);
+
+  const categoryLimitsSeederLambda = new lambda.NodejsFunction(
+    scope,
+    'CategoryLimitsSeederHandler',
+    {
+      entry: path.join(
+        __dirname,
+        '../lambdas/category-limits-seeder/handler.ts',
+      ),
+      handler: 'handler',
+      runtime: Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.seconds(60),
+      environment: {
+        ...sharedLambdaEnv,
+        CATEGORIES_TABLE_NAME: tables['Category'].tableName,
+      },
+    },
+  );
+
+  tables['Category'].grantReadWriteData(categoryLimitsSeederLambda);
+  exchangeRatesTable.grantReadWriteData(categoryLimitsSeederLambda);
+  currencyApiSecret?.grantRead(categoryLimitsSeederLambda);
+
   return {
     lambdas,
     userLambda,
@@ -227,5 +317,9 @@ export const createLambdaResources = (
     manualRatesRefreshLambda,
     recurringMaterializerLambda,
     recurringMaterializeLambda,
+    categorySpendLambda,
+    categoryLimitsSeederLambda,
+    ...reportLambdas,
+    ...adminLambdas,
   };
 };
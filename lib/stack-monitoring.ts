@@ -15,6 +15,7 @@ export const createMonitoringResources = (
   scope: Construct,
   ratesRefreshLambda: lambda.NodejsFunction,
   recurringMaterializerLambda: lambda.NodejsFunction,
+  categoryLimitsSeederLambda: lambda.NodejsFunction,
 ): MonitoringResources => {
   new events.Rule(scope, 'RatesHourlyRefreshRule', {
     schedule: events.Schedule.rate(cdk.Duration.hours(1)),
@@ -26,6 +27,12 @@ export const createMonitoringResources = (
     targets: [new targets.LambdaFunction(recurringMaterializerLambda)],
   });
 
+  // Seeds the current and next month daily, well ahead of the 1st.
+  new events.Rule(scope, 'CategoryLimitsDailySeedRule', {
+    schedule: events.Schedule.cron({ minute: '15', hour: '0' }),
+    targets: [new targets.LambdaFunction(categoryLimitsSeederLambda)],
+  });
+
   const ratesAlertsTopic = new sns.Topic(scope, 'RatesAlertsTopic');
 
   const hoursSinceRefreshMetric = new cloudwatch.Metric({
@@ -0,0 +1,127 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import type { LambdaResourceParams } from './stack-lambdas';
+
+export interface ReportLambdaResources {
+  summaryLambda: lambda.NodejsFunction;
+  forecastLambda: lambda.NodejsFunction;
+  exportLambda: lambda.NodejsFunction;
+  ratesLambda: lambda.NodejsFunction;
+}
+
+/**
+ * Read-only handlers that aggregate or dump the user's ledger, plus the
+ * exchange-rate read endpoints.
+ */
+export const createReportLambdaResources = (
+  scope: Construct,
+  params: LambdaResourceParams,
+): ReportLambdaResources => {
+  const {
+    sharedLambdaEnv,
+    tables,
+    userPreferencesTable,
+    exchangeRatesTable,
+    recurringTransactionsTable,
+    currencyApiSecret,
+  } = params;
+
+  const summaryLambda = new lambda.NodejsFunction(scope, 'SummaryHandler', {
+    entry: path.join(__dirname, '../lambdas/summary/handler.ts'),
+    handler: 'handler',
+    runtime: Runtime.NODEJS_22_X,
+    timeout: cdk.Duration.seconds(10),
+    environment: {
+      ...sharedLambdaEnv,
+      TRANSACTIONS_TABLE_NAME: tables['Transaction'].tableName,
+      CATEGORIES_TABLE_NAME: tables['Category'].tableName,
+    },
+  });
+
+  tables['Transaction'].grantReadData(summaryLambda);
+  tables['Category'].grantReadData(summaryLambda);
+  userPreferencesTable.grantReadData(summaryLambda);
+  exchangeRatesTable.grantReadWriteData(summaryLambda);
+  currencyApiSecret?.grantRead(summaryLambda);
+
+  const forecastLambda = new lambda.NodejsFunction(scope, 'ForecastHandler', {
+    entry: path.join(__dirname, '../lambdas/forecast/handler.ts'),
+    handler: 'handler',
+    runtime: Runtime.NODEJS_22_X,
+    timeout: cdk.Duration.seconds(15),
+    memorySize: 512,
+    environment: {
+      ...sharedLambdaEnv,
+      TRANSACTIONS_TABLE_NAME: tables['Transaction'].tableName,
+      CATEGORIES_TABLE_NAME: tables['Category'].tableName,
+      RECURRING_TRANSACTIONS_TABLE_NAME: recurringTransactionsTable.tableName,
+    },
+  });
+
+  tables['Transaction'].grantReadData(forecastLambda);
+  tables['Category'].grantReadData(forecastLambda);
+  recurringTransactionsTable.grantReadData(forecastLambda);
+  userPreferencesTable.grantReadData(forecastLambda);
+  exchangeRatesTable.grantReadWriteData(forecastLambda);
+  currencyApiSecret?.grantRead(forecastLambda);
+
+  // Exports too large for a proxy response are downloaded from here.
+  const exportsBucket = new s3.Bucket(scope, 'ExportsBucket', {
+    blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+    encryption: s3.BucketEncryption.S3_MANAGED,
+    enforceSSL: true,
+    lifecycleRules: [{ expiration: cdk.Duration.days(1) }],
+    cors: [
+      {
+        allowedMethods: [s3.HttpMethods.GET],
+        allowedOrigins: sharedLambdaEnv.ALLOW_ORIGINS.split(','),
+        exposedHeaders: ['Content-Disposition'],
+      },
+    ],
+    removalPolicy: cdk.RemovalPolicy.DESTROY,
+    autoDeleteObjects: true,
+  });
+
+  const exportLambda = new lambda.NodejsFunction(scope, 'ExportHandler', {
+    entry: path.join(__dirname, '../lambdas/export/handler.ts'),
+    handler: 'handler',
+    runtime: Runtime.NODEJS_22_X,
+    timeout: cdk.Duration.seconds(29),
+    memorySize: 512,
+    environment: {
+      ...sharedLambdaEnv,
+      TRANSACTIONS_TABLE_NAME: tables['Transaction'].tableName,
+      CATEGORIES_TABLE_NAME: tables['Category'].tableName,
+      GOALS_TABLE_NAME: tables['Goal'].tableName,
+      RECURRING_TRANSACTIONS_TABLE_NAME: recurringTransactionsTable.tableName,
+      EXPORT_BUCKET_NAME: exportsBucket.bucketName,
+    },
+  });
+
+  exportsBucket.grantReadWrite(exportLambda);
+  tables['Transaction'].grantReadData(exportLambda);
+  tables['Category'].grantReadData(exportLambda);
+  tables['Goal'].grantReadData(exportLambda);
+  recurringTransactionsTable.grantReadData(exportLambda);
+  userPreferencesTable.grantReadData(exportLambda);
+  exchangeRatesTable.grantReadWriteData(exportLambda);
+  currencyApiSecret?.grantRead(exportLambda);
+
+  const ratesLambda = new lambda.NodejsFunction(scope, 'RatesHandler', {
+    entry: path.join(__dirname, '../lambdas/rates/handler.ts'),
+    handler: 'handler',
+    runtime: Runtime.NODEJS_22_X,
+    timeout: cdk.Duration.seconds(10),
+    environment: sharedLambdaEnv,
+  });
+
+  // Current snapshots are persisted on a cache miss, like any conversion.
+  exchangeRatesTable.grantReadWriteData(ratesLambda);
+  currencyApiSecret?.grantRead(ratesLambda);
+
+  return { summaryLambda, forecastLambda, exportLambda, ratesLambda };
+};
@@ -507,6 +507,7 @@ const buildTransactions = (userId: string): Transaction[] => {
       id,
       userId,
       description: template.description,
+      descriptionSearch: template.description.toLowerCase(),
       amount,
       currency: BASE_CURRENCY,
       baseAmount: amount,
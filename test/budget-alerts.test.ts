@@ -0,0 +1,311 @@
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+process.env.BUDGET_ALERTS_TOPIC_ARN =
+  'arn:aws:sns:eu-central-1:123456789012:budget-alerts';
+process.env.BUDGET_ALERT_THRESHOLDS = '80,100';
+
+let mockSend: jest.Mock;
+let mockPublish: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+jest.mock('@aws-sdk/client-sns', () => {
+  const actual = jest.requireActual('@aws-sdk/client-sns');
+  mockPublish = jest.fn();
+  return {
+    ...actual,
+    SNSClient: jest.fn().mockImplementation(() => ({ send: mockPublish })),
+  };
+});
+
+import {
+  ConditionalCheckFailedException,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import {
+  PublishCommand,
+  SubscribeCommand,
+  UnsubscribeCommand,
+} from '@aws-sdk/client-sns';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import type { DynamoDBStreamEvent } from 'aws-lambda';
+import { handler } from '../lambdas/budget-alerts/handler';
+import {
+  findBudgetAlerts,
+  getBudgetAlertThresholds,
+  updateBudgetAlertSubscription,
+} from '../utils/budget-alerts';
+
+const CATEGORY_ID = '11111111-2222-3333-4444-555555555555';
+
+const makeCategory = (
+  month: Record<string, unknown>,
+  overrides: Record<string, unknown> = {},
+) => ({
+  id: CATEGORY_ID,
+  userId: 'user-1',
+  name: 'Groceries',
+  type: 'expense',
+  monthlyData: {
+    '2026-05': { limit: 200, spent: 0, baseLimit: 200, baseSpent: 0, ...month },
+  },
+  ...overrides,
+});
+
+const buildStreamEvent = (
+  oldImage: Record<string, unknown>,
+  newImage: Record<string, unknown>,
+): DynamoDBStreamEvent =>
+  ({
+    Records: [
+      {
+        eventID: 'event-0',
+        eventName: 'MODIFY',
+        dynamodb: {
+          SequenceNumber: '1',
+          OldImage: marshall(oldImage),
+          NewImage: marshall(newImage),
+        },
+      },
+    ],
+  }) as DynamoDBStreamEvent;
+
+const conditionalFailure = () =>
+  new ConditionalCheckFailedException({
+    message: 'conditional',
+    $metadata: {},
+  });
+
+describe('getBudgetAlertThresholds', () => {
+  it('parses, dedupes and sorts the configured thresholds', () => {
+    expect(getBudgetAlertThresholds('100, 80,80,abc')).toEqual([80, 100]);
+  });
+
+  it('falls back to 80% and 100%', () => {
+    expect(getBudgetAlertThresholds('')).toEqual([80, 100]);
+  });
+});
+
+describe('findBudgetAlerts', () => {
+  it('reports every threshold the month has reached', () => {
+    const alerts = findBudgetAlerts(
+      makeCategory({ baseSpent: 150 }),
+      makeCategory({ baseSpent: 210 }),
+      [80, 100],
+    );
+
+    expect(alerts).toEqual([
+      expect.objectContaining({ month: '2026-05', threshold: 80 }),
+      expect.objectContaining({ threshold: 100, percentUsed: 105 }),
+    ]);
+  });
+
+  it('measures the month against its rollover effective limit', () => {
+    const withCarry = (baseSpent: number) =>
+      makeCategory(
+        {},
+        {
+          rolloverPolicy: 'carryUnspent',
+          monthlyData: {
+            '2026-04': { baseLimit: 200, baseSpent: 100 },
+            '2026-05': { baseLimit: 200, baseSpent },
+          },
+        },
+      );
+
+    // 230 is over the base limit but only 76.67% of the carried-in 300.
+    expect(findBudgetAlerts(withCarry(200), withCarry(230), [80])).toEqual([]);
+    expect(findBudgetAlerts(withCarry(200), withCarry(250), [80])).toEqual([
+      expect.objectContaining({
+        month: '2026-05',
+        threshold: 80,
+        baseLimit: 200,
+        effectiveLimit: 300,
+        percentUsed: 83.33,
+      }),
+    ]);
+  });
+
+  it('skips thresholds already sent for the month', () => {
+    const alerts = findBudgetAlerts(
+      makeCategory({ baseSpent: 170, alertsSent: { 80: '2026-05-10' } }),
+      makeCategory({ baseSpent: 180, alertsSent: { 80: '2026-05-10' } }),
+      [80, 100],
+    );
+
+    expect(alerts).toEqual([]);
+  });
+
+  it('ignores months whose spend and limit did not change', () => {
+    const category = makeCategory({ baseSpent: 190 });
+
+    expect(
+      findBudgetAlerts(category, { ...category, name: 'Food' }, [80]),
+    ).toEqual([]);
+  });
+
+  it('ignores income categories and months without a limit', () => {
+    expect(
+      findBudgetAlerts(
+        undefined,
+        makeCategory({ baseSpent: 500 }, { type: 'income' }),
+        [80],
+      ),
+    ).toEqual([]);
+    expect(
+      findBudgetAlerts(
+        undefined,
+        makeCategory({ baseLimit: 0, baseSpent: 10 }),
+        [80],
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('budget alerts stream handler', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockPublish.mockReset();
+  });
+
+  it('records the alert on the category before publishing it', async () => {
+    mockSend.mockResolvedValue({});
+    mockPublish.mockResolvedValue({});
+
+    const response = await handler(
+      buildStreamEvent(
+        makeCategory({ baseSpent: 100 }),
+        makeCategory({ baseSpent: 170 }),
+      ),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    const claim = mockSend.mock.calls[0][0] as UpdateItemCommand;
+    expect(claim).toBeInstanceOf(UpdateItemCommand);
+    expect(claim.input.ConditionExpression).toContain(
+      'attribute_not_exists(monthlyData.#month.alertsSent)',
+    );
+
+    expect(mockPublish).toHaveBeenCalledTimes(1);
+    const publish = mockPublish.mock.calls[0][0] as PublishCommand;
+    expect(publish).toBeInstanceOf(PublishCommand);
+    expect(publish.input.MessageAttributes).toEqual(
+      expect.objectContaining({
+        userId: { DataType: 'String', StringValue: 'user-1' },
+        threshold: { DataType: 'Number', StringValue: '80' },
+      }),
+    );
+    expect(publish.input.Message).toContain('85%');
+  });
+
+  it('does not publish alerts another delivery already claimed', async () => {
+    mockSend.mockRejectedValue(conditionalFailure());
+
+    const response = await handler(
+      buildStreamEvent(
+        makeCategory({ baseSpent: 100 }),
+        makeCategory({ baseSpent: 170 }),
+      ),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    expect(mockPublish).not.toHaveBeenCalled();
+  });
+
+  it('releases the claim and retries the record when publishing fails', async () => {
+    mockSend.mockResolvedValue({});
+    mockPublish.mockRejectedValueOnce(new Error('sns down'));
+
+    const response = await handler(
+      buildStreamEvent(
+        makeCategory({ baseSpent: 100 }),
+        makeCategory({ baseSpent: 170 }),
+      ),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '1' }] });
+    const release = mockSend.mock.calls[1][0] as UpdateItemCommand;
+    expect(release.input.UpdateExpression).toBe(
+      'REMOVE monthlyData.#month.alertsSent.#threshold',
+    );
+  });
+});
+
+describe('updateBudgetAlertSubscription', () => {
+  const SUBSCRIPTION_ARN = `${process.env.BUDGET_ALERTS_TOPIC_ARN}:sub-1`;
+
+  beforeEach(() => {
+    mockPublish.mockReset();
+    mockPublish.mockResolvedValue({ SubscriptionArn: SUBSCRIPTION_ARN });
+  });
+
+  it("subscribes the address with a filter on the user's id", async () => {
+    const result = await updateBudgetAlertSubscription(
+      'user-1',
+      {},
+      ' me@example.com ',
+    );
+
+    expect(result).toEqual({
+      alertEmail: 'me@example.com',
+      alertSubscriptionArn: SUBSCRIPTION_ARN,
+    });
+    const subscribe = mockPublish.mock.calls[0][0] as SubscribeCommand;
+    expect(subscribe).toBeInstanceOf(SubscribeCommand);
+    expect(subscribe.input).toMatchObject({
+      Protocol: 'email',
+      Endpoint: 'me@example.com',
+      Attributes: { FilterPolicy: '{"userId":["user-1"]}' },
+    });
+  });
+
+  it('replaces the subscription when the address changes', async () => {
+    const current = {
+      alertEmail: 'old@example.com',
+      alertSubscriptionArn: 'arn:old',
+    };
+
+    await updateBudgetAlertSubscription('user-1', current, 'new@example.com');
+
+    const [[subscribe], [unsubscribe]] = mockPublish.mock.calls;
+    expect(subscribe).toBeInstanceOf(SubscribeCommand);
+    expect(unsubscribe).toBeInstanceOf(UnsubscribeCommand);
+    expect(unsubscribe.input).toEqual({ SubscriptionArn: 'arn:old' });
+  });
+
+  it('keeps or removes the subscription without subscribing again', async () => {
+    const current = {
+      alertEmail: 'me@example.com',
+      alertSubscriptionArn: 'arn:current',
+    };
+
+    expect(
+      await updateBudgetAlertSubscription('user-1', current, undefined),
+    ).toEqual(current);
+    expect(mockPublish).not.toHaveBeenCalled();
+
+    expect(
+      await updateBudgetAlertSubscription('user-1', current, null),
+    ).toEqual({ alertEmail: undefined, alertSubscriptionArn: undefined });
+    expect(mockPublish).toHaveBeenCalledTimes(1);
+    expect(mockPublish.mock.calls[0][0]).toBeInstanceOf(UnsubscribeCommand);
+  });
+});
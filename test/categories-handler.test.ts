@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 process.env.TABLE_NAME = 'test-categories';
 
 let mockSend: jest.Mock;
@@ -19,6 +20,8 @@ jest.mock('@aws-sdk/client-dynamodb', () => {
 jest.mock('../utils', () => ({
   BASE_CURRENCY_CODE: 'EUR',
   buildResponse: jest.requireActual('../utils/build-response').default,
+  computeCategoryRollover: jest.requireActual('../utils/category-rollover')
+    .computeCategoryRollover,
   convertFromBaseCurrency: jest.fn(
     async (amount: number, currency: string) => ({
       amount,
@@ -43,11 +46,22 @@ jest.mock('../utils', () => ({
   })),
   createRateContext: jest.fn(() => ({ source: 'test' })),
   getUserPreferredCurrency: jest.fn(async () => 'EUR'),
+  isRolloverPolicy: jest.requireActual('../utils/category-rollover')
+    .isRolloverPolicy,
   normalizeCurrencyCode: jest.fn((currency: string) => currency),
+  ROLLOVER_POLICIES: jest.requireActual('../utils/category-rollover')
+    .ROLLOVER_POLICIES,
   toCurrencyNumber: jest.fn((value: unknown) => Number(value)),
 }));
 
-import { QueryCommand, ScanCommand } from '@aws-sdk/client-dynamodb';
+import {
+  ConditionalCheckFailedException,
+  PutItemCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import type { APIGatewayEvent } from 'aws-lambda';
 import { handler } from '../lambdas/categorys/handler';
 import type { Category } from '../types/budget';
@@ -159,3 +173,248 @@ describe('categories handler GET list', () => {
     expect(body.map((c: Category) => c.id)).toEqual(['cat-a', 'cat-b']);
   });
 });
+
+describe('categories handler rollover', () => {
+  const monthlyData = {
+    '2026-03': { limit: 100, spent: 60, baseLimit: 100, baseSpent: 60 },
+    '2026-04': { limit: 100, spent: 150, baseLimit: 100, baseSpent: 150 },
+    '2026-05': { limit: 100, spent: 0, baseLimit: 100, baseSpent: 0 },
+    '2026-07': { limit: 100, spent: 0, baseLimit: 100, baseSpent: 0 },
+  };
+  const getMonths = async (rolloverPolicy?: string) => {
+    mockSend.mockResolvedValueOnce({
+      Item: marshall({
+        id: 'cat-1',
+        userId: 'user-1',
+        name: 'Groceries',
+        color: '#000',
+        type: 'expense',
+        monthlyData,
+        ...(rolloverPolicy ? { rolloverPolicy } : {}),
+      }),
+    });
+    const response = await handler(
+      buildEvent({ pathParameters: { id: 'cat-1' } }),
+      {} as never,
+      () => undefined,
+    );
+    return JSON.parse(response?.body ?? '{}');
+  };
+
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('does not carry anything by default', async () => {
+    const body = await getMonths();
+
+    expect(body.rolloverPolicy).toBe('none');
+    expect(body.monthlyData['2026-04']).toEqual({
+      limit: 100,
+      spent: 150,
+      carryIn: 0,
+      effectiveLimit: 100,
+    });
+  });
+
+  it('carries unspent budget across consecutive months', async () => {
+    const body = await getMonths('carryUnspent');
+
+    expect(body.monthlyData['2026-04']).toMatchObject({
+      carryIn: 40,
+      effectiveLimit: 140,
+    });
+    expect(body.monthlyData['2026-05']).toMatchObject({
+      carryIn: 0,
+      effectiveLimit: 100,
+    });
+    expect(body.monthlyData['2026-07'].carryIn).toBe(0);
+  });
+
+  it('carries overspend into the next month', async () => {
+    const body = await getMonths('carryOverspend');
+
+    expect(body.monthlyData['2026-04'].carryIn).toBe(0);
+    expect(body.monthlyData['2026-05']).toMatchObject({
+      carryIn: -50,
+      effectiveLimit: 50,
+    });
+  });
+
+  it('stores a default limit and uses it for the first month', async () => {
+    mockSend.mockResolvedValue({});
+
+    const created = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        body: JSON.stringify({
+          name: 'Groceries',
+          color: '#000',
+          type: 'expense',
+          currency: 'USD',
+          defaultLimit: 250,
+        }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(created?.statusCode).toBe(201);
+    const put = mockSend.mock.calls[0][0] as PutItemCommand;
+    const stored = unmarshall(put.input.Item ?? {});
+    expect(stored).toMatchObject({
+      defaultLimit: 250,
+      defaultLimitCurrency: 'USD',
+    });
+    expect(Object.values(stored.monthlyData)).toEqual([
+      { baseLimit: 250, baseSpent: 0 },
+    ]);
+
+    const rejected = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        body: JSON.stringify({ name: 'Groceries', defaultLimit: -5 }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+    expect(rejected?.statusCode).toBe(400);
+    expect(JSON.parse(rejected?.body ?? '{}')).toEqual({
+      message: 'defaultLimit must be a non-negative number',
+    });
+  });
+
+  it('stores the policy on create and rejects unknown policies', async () => {
+    mockSend.mockResolvedValue({});
+
+    const created = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        body: JSON.stringify({
+          name: 'Groceries',
+          color: '#000',
+          type: 'expense',
+          limit: 100,
+          rolloverPolicy: 'carryUnspent',
+        }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+    expect(created?.statusCode).toBe(201);
+    const put = mockSend.mock.calls[0][0] as PutItemCommand;
+    expect(unmarshall(put.input.Item ?? {}).rolloverPolicy).toBe(
+      'carryUnspent',
+    );
+
+    const rejected = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        body: JSON.stringify({ name: 'Groceries', rolloverPolicy: 'always' }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+    expect(rejected?.statusCode).toBe(400);
+    expect(JSON.parse(rejected?.body ?? '{}')).toEqual({
+      message:
+        'rolloverPolicy must be one of none, carryUnspent, carryOverspend',
+    });
+  });
+});
+
+describe('categories handler PUT', () => {
+  const stored = {
+    id: 'cat-1',
+    userId: 'user-1',
+    name: 'Groceries',
+    color: '#000',
+    type: 'expense',
+    monthlyData: { '2026-05': { baseLimit: 100, baseSpent: 40 } },
+  };
+
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('updates limits in place without touching the tracked spend', async () => {
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof UpdateItemCommand) {
+        return command.input.ReturnValues === 'ALL_NEW'
+          ? {
+              Attributes: marshall({
+                ...stored,
+                name: 'Food',
+                monthlyData: {
+                  '2026-05': { baseLimit: 150, baseSpent: 55 },
+                  '2026-06': { baseLimit: 80 },
+                },
+              }),
+            }
+          : {};
+      }
+      return { Item: marshall(stored) };
+    });
+
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'PUT',
+        pathParameters: { id: 'cat-1' },
+        body: JSON.stringify({
+          name: 'Food',
+          monthlyData: {
+            '2026-05': { limit: 150, spent: 0 },
+            '2026-06': { limit: 80 },
+          },
+        }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(200);
+    const commands = mockSend.mock.calls.map(([command]) => command);
+    expect(commands.some((c) => c instanceof PutItemCommand)).toBe(false);
+    const [ensureMonths, update] = commands.filter(
+      (c) => c instanceof UpdateItemCommand,
+    ) as UpdateItemCommand[];
+    expect(ensureMonths.input.UpdateExpression).toBe(
+      'SET #md.#m0 = if_not_exists(#md.#m0, :empty), #md.#m1 = if_not_exists(#md.#m1, :empty)',
+    );
+    expect(update.input.UpdateExpression).toContain('#md.#m0.#bl = :m0');
+    expect(update.input.UpdateExpression).not.toContain('baseSpent');
+    expect(
+      Object.values(update.input.ExpressionAttributeNames ?? {}),
+    ).not.toContain('baseSpent');
+    expect(unmarshall(update.input.ExpressionAttributeValues ?? {})).toEqual(
+      expect.objectContaining({ ':m0': 150, ':m1': 80 }),
+    );
+    expect(JSON.parse(response?.body ?? '{}').monthlyData['2026-05']).toEqual(
+      expect.objectContaining({ limit: 150, spent: 55 }),
+    );
+  });
+
+  it('returns 404 when the category is deleted before the update', async () => {
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof UpdateItemCommand) {
+        throw new ConditionalCheckFailedException({
+          message: 'conditional check failed',
+          $metadata: {},
+        });
+      }
+      return { Item: marshall(stored) };
+    });
+
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'PUT',
+        pathParameters: { id: 'cat-1' },
+        body: JSON.stringify({ name: 'Food' }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,188 @@
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+jest.mock('../utils/currency', () => ({
+  convertToBaseCurrency: jest.fn(async (amount: number, currency: string) => ({
+    baseAmount: currency === 'USD' ? amount * 0.5 : amount,
+  })),
+  createRateContext: jest.fn(() => ({ source: 'test' })),
+  normalizeCurrencyCode: jest.fn((currency?: string) => currency ?? 'EUR'),
+}));
+
+import {
+  ConditionalCheckFailedException,
+  ScanCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { seedDefaultLimits } from '../utils/category-limits';
+import { adjustCategorySpend } from '../utils/recurring/store';
+
+const conditionalFailure = () =>
+  new ConditionalCheckFailedException({ message: 'exists', $metadata: {} });
+
+const updates = () =>
+  mockSend.mock.calls
+    .map((call) => call[0])
+    .filter(
+      (command) => command instanceof UpdateItemCommand,
+    ) as UpdateItemCommand[];
+
+describe('seedDefaultLimits', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('seeds the current and next month from the default limit', async () => {
+    mockSend.mockImplementation(async (command: unknown) =>
+      command instanceof ScanCommand
+        ? {
+            Items: [
+              marshall({
+                id: 'cat-1',
+                userId: 'user-1',
+                defaultLimit: 300,
+                defaultLimitCurrency: 'USD',
+                monthlyData: {},
+              }),
+            ],
+          }
+        : {},
+    );
+
+    const summary = await seedDefaultLimits(new Date('2026-12-20T00:00:00Z'));
+
+    expect(summary).toEqual({
+      months: ['2026-12', '2027-01'],
+      processed: 1,
+      seeded: 2,
+      skipped: 0,
+      failures: 0,
+    });
+    const scan = mockSend.mock.calls[0][0] as ScanCommand;
+    expect(scan.input.FilterExpression).toBe('attribute_exists(defaultLimit)');
+    expect(
+      updates().map((command) => ({
+        month: command.input.ExpressionAttributeNames?.['#month'],
+        condition: command.input.ConditionExpression,
+        entry: unmarshall(command.input.ExpressionAttributeValues ?? {})[
+          ':entry'
+        ],
+      })),
+    ).toEqual([
+      {
+        month: '2026-12',
+        condition:
+          'attribute_exists(id) AND attribute_not_exists(monthlyData.#month)',
+        entry: { limit: 300, spent: 0, baseLimit: 150, baseSpent: 0 },
+      },
+      {
+        month: '2027-01',
+        condition:
+          'attribute_exists(id) AND attribute_not_exists(monthlyData.#month)',
+        entry: { limit: 300, spent: 0, baseLimit: 150, baseSpent: 0 },
+      },
+    ]);
+  });
+
+  it('fills the limit of a month the spend writer created first', async () => {
+    mockSend.mockResolvedValue({});
+    await adjustCategorySpend('cat-1', 'user-1', '2026-05', 25);
+    // The month entry as the spend writer leaves it: only the fields it sets.
+    const spendEntry: Record<string, number> = Object.fromEntries(
+      updates()
+        .slice(1)
+        .flatMap((command) =>
+          Object.entries(command.input.ExpressionAttributeNames ?? {}),
+        )
+        .filter(([alias]) => !alias.startsWith('#m'))
+        .map(([, field]) => [field, 0]),
+    );
+    expect(spendEntry).toEqual({ baseSpent: 0, spent: 0 });
+
+    const monthlyData: Record<string, Record<string, number>> = {
+      '2026-05': spendEntry,
+      '2026-06': { ...spendEntry, baseLimit: 50, limit: 50 },
+    };
+    mockSend.mockReset();
+    mockSend.mockImplementation(async (command: unknown) => {
+      if (command instanceof ScanCommand) {
+        return {
+          Items: [
+            marshall({
+              id: 'cat-1',
+              userId: 'user-1',
+              defaultLimit: 80,
+              defaultLimitCurrency: 'EUR',
+              monthlyData,
+            }),
+          ],
+        };
+      }
+      const { ConditionExpression, ExpressionAttributeNames } = (
+        command as UpdateItemCommand
+      ).input;
+      const entry = monthlyData[ExpressionAttributeNames?.['#month'] ?? ''];
+      const blocked = ConditionExpression?.includes(
+        'attribute_not_exists(monthlyData.#month.baseLimit)',
+      )
+        ? entry?.baseLimit !== undefined
+        : entry !== undefined;
+      if (blocked) {
+        throw conditionalFailure();
+      }
+      return {};
+    });
+
+    const summary = await seedDefaultLimits(new Date('2026-05-10T00:00:00Z'));
+
+    expect(summary).toMatchObject({ seeded: 1, skipped: 1, failures: 0 });
+    const fill = updates()[1];
+    expect(fill.input.ExpressionAttributeNames?.['#month']).toBe('2026-05');
+    expect(fill.input.UpdateExpression).toBe(
+      'SET monthlyData.#month.baseLimit = :baseLimit, monthlyData.#month.#limit = :limit',
+    );
+    expect(unmarshall(fill.input.ExpressionAttributeValues ?? {})).toEqual({
+      ':baseLimit': 80,
+      ':limit': 80,
+    });
+  });
+
+  it('counts failures without stopping the other categories', async () => {
+    mockSend.mockImplementation(async (command: unknown) => {
+      if (command instanceof ScanCommand) {
+        return {
+          Items: [
+            marshall({ id: 'broken', defaultLimit: 10, monthlyData: {} }),
+            marshall({ id: 'ok', defaultLimit: 10, monthlyData: {} }),
+          ],
+        };
+      }
+      const key = unmarshall((command as UpdateItemCommand).input.Key ?? {}).id;
+      if (key === 'broken') {
+        throw new Error('boom');
+      }
+      return {};
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const summary = await seedDefaultLimits(new Date('2026-05-10T00:00:00Z'));
+
+    expect(summary).toMatchObject({ processed: 2, seeded: 2, failures: 1 });
+  });
+});
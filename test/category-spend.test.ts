@@ -0,0 +1,253 @@
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import {
+  TransactWriteItemsCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { DynamoDBStreamEvent } from 'aws-lambda';
+import { handler } from '../lambdas/category-spend/handler';
+import { computeCategorySpendDeltas } from '../utils/category-spend';
+
+const CATEGORY_ID = '11111111-2222-3333-4444-555555555555';
+const OTHER_CATEGORY_ID = '66666666-7777-8888-9999-000000000000';
+
+const makeTxn = (overrides: Record<string, unknown> = {}) => ({
+  id: 'txn-1',
+  userId: 'user-1',
+  type: 'expense',
+  category: CATEGORY_ID,
+  baseAmount: 40,
+  date: 'May 3, 2026',
+  dateKey: '2026-05-03#txn-1',
+  ...overrides,
+});
+
+const buildStreamEvent = (
+  records: {
+    eventName: 'INSERT' | 'MODIFY' | 'REMOVE';
+    oldImage?: Record<string, unknown>;
+    newImage?: Record<string, unknown>;
+  }[],
+): DynamoDBStreamEvent =>
+  ({
+    Records: records.map((record, index) => ({
+      eventID: `event-${index}`,
+      eventName: record.eventName,
+      dynamodb: {
+        SequenceNumber: `${index + 1}`,
+        OldImage: record.oldImage ? marshall(record.oldImage) : undefined,
+        NewImage: record.newImage ? marshall(record.newImage) : undefined,
+      },
+    })),
+  }) as DynamoDBStreamEvent;
+
+describe('computeCategorySpendDeltas', () => {
+  it('adds the base amount on create', () => {
+    expect(computeCategorySpendDeltas(undefined, makeTxn())).toEqual([
+      {
+        userId: 'user-1',
+        category: CATEGORY_ID,
+        month: '2026-05',
+        deltaBase: 40,
+      },
+    ]);
+  });
+
+  it('reverses the base amount on delete', () => {
+    expect(computeCategorySpendDeltas(makeTxn(), undefined)).toEqual([
+      expect.objectContaining({ month: '2026-05', deltaBase: -40 }),
+    ]);
+  });
+
+  it('books each split share on its own category', () => {
+    const split = makeTxn({
+      splits: [
+        { category: CATEGORY_ID, baseAmount: 25 },
+        { category: OTHER_CATEGORY_ID, baseAmount: 15 },
+      ],
+    });
+
+    expect(computeCategorySpendDeltas(undefined, split)).toEqual([
+      expect.objectContaining({ category: CATEGORY_ID, deltaBase: 25 }),
+      expect.objectContaining({ category: OTHER_CATEGORY_ID, deltaBase: 15 }),
+    ]);
+    expect(computeCategorySpendDeltas(makeTxn(), split)).toEqual([
+      expect.objectContaining({ category: CATEGORY_ID, deltaBase: -15 }),
+      expect.objectContaining({ category: OTHER_CATEGORY_ID, deltaBase: 15 }),
+    ]);
+  });
+
+  it('nets amount changes within the same category and month', () => {
+    expect(
+      computeCategorySpendDeltas(makeTxn(), makeTxn({ baseAmount: 55.5 })),
+    ).toEqual([expect.objectContaining({ deltaBase: 15.5 })]);
+  });
+
+  it('moves spend between months and categories on edit', () => {
+    const deltas = computeCategorySpendDeltas(
+      makeTxn(),
+      makeTxn({
+        category: OTHER_CATEGORY_ID,
+        date: 'Jun 1, 2026',
+        dateKey: '2026-06-01#txn-1',
+      }),
+    );
+
+    expect(deltas).toEqual([
+      expect.objectContaining({
+        category: CATEGORY_ID,
+        month: '2026-05',
+        deltaBase: -40,
+      }),
+      expect.objectContaining({
+        category: OTHER_CATEGORY_ID,
+        month: '2026-06',
+        deltaBase: 40,
+      }),
+    ]);
+  });
+
+  it('reverses spend when an expense becomes income', () => {
+    expect(
+      computeCategorySpendDeltas(makeTxn(), makeTxn({ type: 'income' })),
+    ).toEqual([expect.objectContaining({ deltaBase: -40 })]);
+  });
+
+  it('ignores edits that do not change spend', () => {
+    expect(
+      computeCategorySpendDeltas(
+        makeTxn(),
+        makeTxn({ description: 'Renamed' }),
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('category spend stream handler', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('applies a signed delta for deleted transactions', async () => {
+    mockSend.mockResolvedValue({});
+
+    const response = await handler(
+      buildStreamEvent([{ eventName: 'REMOVE', oldImage: makeTxn() }]),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    const [[ensureMonth], [transaction]] = mockSend.mock.calls as [
+      [UpdateItemCommand],
+      [TransactWriteItemsCommand],
+    ];
+    expect(ensureMonth.input.UpdateExpression).toBe(
+      'SET #md.#m = if_not_exists(#md.#m, :empty)',
+    );
+    expect(ensureMonth.input.ExpressionAttributeNames?.['#m']).toBe('2026-05');
+    expect(transaction).toBeInstanceOf(TransactWriteItemsCommand);
+    expect(transaction.input.ClientRequestToken).toBe('event-0');
+    const [{ Update: update }] = transaction.input.TransactItems ?? [];
+    expect(unmarshall(update?.Key ?? {})).toEqual({ id: CATEGORY_ID });
+    expect(update?.ExpressionAttributeNames?.['#m0']).toBe('2026-05');
+    expect(unmarshall(update?.ExpressionAttributeValues ?? {})[':d0']).toBe(
+      -40,
+    );
+  });
+
+  it('moves spend between categories and months in one transaction', async () => {
+    mockSend.mockResolvedValue({});
+    const moved = makeTxn({
+      date: 'Jun 1, 2026',
+      dateKey: '2026-06-01#txn-1',
+      splits: [
+        { category: CATEGORY_ID, baseAmount: 25 },
+        { category: OTHER_CATEGORY_ID, baseAmount: 15 },
+      ],
+    });
+
+    await handler(
+      buildStreamEvent([
+        { eventName: 'MODIFY', oldImage: makeTxn(), newImage: moved },
+      ]),
+      {} as never,
+      () => undefined,
+    );
+
+    const transactions = mockSend.mock.calls
+      .map(([command]) => command)
+      .filter((command) => command instanceof TransactWriteItemsCommand);
+    expect(transactions).toHaveLength(1);
+    expect(
+      (transactions[0] as TransactWriteItemsCommand).input.TransactItems?.map(
+        ({ Update: update }) => ({
+          id: unmarshall(update?.Key ?? {}).id,
+          months: update?.ExpressionAttributeNames,
+          deltas: unmarshall(update?.ExpressionAttributeValues ?? {}),
+        }),
+      ),
+    ).toEqual([
+      {
+        id: CATEGORY_ID,
+        months: expect.objectContaining({ '#m0': '2026-05', '#m1': '2026-06' }),
+        deltas: expect.objectContaining({ ':d0': -40, ':d1': 25 }),
+      },
+      {
+        id: OTHER_CATEGORY_ID,
+        months: expect.objectContaining({ '#m0': '2026-06' }),
+        deltas: expect.objectContaining({ ':d0': 15 }),
+      },
+    ]);
+  });
+
+  it('skips inserts produced by the recurring materializer', async () => {
+    const response = await handler(
+      buildStreamEvent([
+        {
+          eventName: 'INSERT',
+          newImage: makeTxn({ recurrenceInstanceId: 'rec-1-2026-05-03' }),
+        },
+      ]),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('reports the first failed record so the batch resumes there', async () => {
+    mockSend.mockRejectedValueOnce(new Error('throttled'));
+
+    const response = await handler(
+      buildStreamEvent([
+        { eventName: 'INSERT', newImage: makeTxn() },
+        { eventName: 'INSERT', newImage: makeTxn({ id: 'txn-2' }) },
+      ]),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '1' }] });
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+});
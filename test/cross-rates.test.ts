@@ -0,0 +1,182 @@
+process.env.RATES_TABLE_NAME = 'test-rates';
+process.env.SUPPORTED_CURRENCIES = 'EUR,BGN,USD,GBP';
+process.env.CURRENCY_API_KEY = 'test-key';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import { GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { CurrencyCode, ExchangeRateSnapshot } from '../types/budget';
+import { deriveFromBaseLegs } from '../utils/cross-rates';
+import { convertAmount, createRateContext } from '../utils/currency';
+
+const leg = (
+  toCurrency: CurrencyCode,
+  rate: number,
+  overrides: Partial<ExchangeRateSnapshot> = {},
+): ExchangeRateSnapshot => ({
+  fromCurrency: 'EUR',
+  toCurrency,
+  rate,
+  provider: 'ecb',
+  capturedAt: '2026-10-18T08:00:00.000Z',
+  stale: false,
+  ...overrides,
+});
+
+describe('deriveFromBaseLegs', () => {
+  const legs = new Map<CurrencyCode, ExchangeRateSnapshot>([
+    ['USD', leg('USD', 1.25)],
+    [
+      'GBP',
+      leg('GBP', 0.8, {
+        provider: 'currencyapi.com',
+        capturedAt: '2026-10-17T08:00:00.000Z',
+        stale: true,
+      }),
+    ],
+  ]);
+
+  it('returns the leg for base pairs', () => {
+    expect(deriveFromBaseLegs('EUR', 'USD', legs)).toBe(legs.get('USD'));
+  });
+
+  it('inverts the leg into the base currency', () => {
+    expect(deriveFromBaseLegs('USD', 'EUR', legs)).toEqual({
+      fromCurrency: 'USD',
+      toCurrency: 'EUR',
+      rate: 0.8,
+      provider: 'ecb',
+      capturedAt: '2026-10-18T08:00:00.000Z',
+      stale: false,
+      derivation: { method: 'inverse', path: ['USD', 'EUR'] },
+    });
+  });
+
+  it('crosses two legs through the base currency', () => {
+    expect(deriveFromBaseLegs('USD', 'GBP', legs)).toEqual({
+      fromCurrency: 'USD',
+      toCurrency: 'GBP',
+      rate: 0.64,
+      provider: 'ecb+currencyapi.com',
+      capturedAt: '2026-10-17T08:00:00.000Z',
+      stale: true,
+      derivation: { method: 'cross', path: ['USD', 'EUR', 'GBP'] },
+    });
+  });
+
+  it('fails without the legs', () => {
+    expect(() => deriveFromBaseLegs('BGN', 'USD', legs)).toThrow(
+      'Exchange rate not found for EUR->BGN',
+    );
+  });
+});
+
+describe('cross-rate conversions', () => {
+  const fetchMock = jest.fn();
+  const persisted: Record<string, Record<string, unknown>> = {};
+
+  beforeAll(() => {
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  beforeEach(() => {
+    mockSend.mockReset();
+    fetchMock.mockReset();
+    Object.keys(persisted).forEach((key) => delete persisted[key]);
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof GetItemCommand) {
+        const { fromCurrency, toCurrency } = unmarshall(command.input.Key!);
+        const item = persisted[`${fromCurrency}:${toCurrency}`];
+        return item ? { Item: marshall(item) } : {};
+      }
+      return {};
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const puts = () =>
+    mockSend.mock.calls
+      .map(([command]) => command)
+      .filter((command) => command instanceof PutItemCommand)
+      .map((command: PutItemCommand) => unmarshall(command.input.Item!));
+
+  it('triangulates from stored base rates without a provider call', async () => {
+    ['USD', 'GBP'].forEach((currency, index) => {
+      persisted[`EUR:${currency}`] = {
+        fromCurrency: 'EUR',
+        toCurrency: currency,
+        rate: [1.25, 0.8][index],
+        provider: 'ecb',
+        capturedAt: '2026-10-18T08:00:00.000Z',
+        freshUntilEpoch: Date.now() + 60_000,
+      };
+    });
+
+    const { amount, snapshot } = await convertAmount(
+      100,
+      'USD',
+      'GBP',
+      createRateContext(),
+    );
+
+    expect(amount).toBe(64);
+    expect(snapshot.derivation).toEqual({
+      method: 'cross',
+      path: ['USD', 'EUR', 'GBP'],
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(puts()).toEqual([
+      expect.objectContaining({
+        fromCurrency: 'USD',
+        toCurrency: 'GBP',
+        derivation: { method: 'cross', path: ['USD', 'EUR', 'GBP'] },
+      }),
+    ]);
+  });
+
+  it('fetches only the missing base rates, in one call', async () => {
+    // Past the in-memory cache of the legs read above.
+    jest.useFakeTimers({ now: Date.now() + 10 * 60 * 1000 });
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: { USD: { value: 1.2 } } }),
+    });
+
+    const { snapshot } = await convertAmount(
+      10,
+      'BGN',
+      'USD',
+      createRateContext(),
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const url = fetchMock.mock.calls[0][0] as URL;
+    expect(url.searchParams.get('base_currency')).toBe('EUR');
+    expect(url.searchParams.get('currencies')).toBe('USD');
+    expect(snapshot).toEqual(
+      expect.objectContaining({
+        rate: 1.2 / 1.95583,
+        provider: 'peg+currencyapi.com',
+        derivation: { method: 'cross', path: ['BGN', 'EUR', 'USD'] },
+      }),
+    );
+  });
+});
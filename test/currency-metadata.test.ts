@@ -0,0 +1,86 @@
+process.env.RATES_TABLE_NAME = 'test-rates';
+process.env.SUPPORTED_CURRENCIES = 'EUR, jpy,KWD,RON,euro';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import {
+  convertAmount,
+  createRateContext,
+  getCurrencyMetadata,
+  getSupportedCurrencies,
+  isSupportedCurrency,
+  roundToMinorUnits,
+} from '../utils/currency';
+
+const RATES: Record<string, number> = { JPY: 161.2345, KWD: 0.331234 };
+
+describe('currency metadata', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockSend.mockImplementation(async (command) => {
+      const { toCurrency } = unmarshall(command.input.Key);
+      return {
+        Item: marshall({
+          fromCurrency: 'EUR',
+          toCurrency,
+          rate: RATES[toCurrency],
+          capturedAt: new Date().toISOString(),
+          freshUntilEpoch: Date.now() + 60_000,
+        }),
+      };
+    });
+  });
+
+  it('reads any valid ISO code from the configured list', () => {
+    expect(getSupportedCurrencies()).toEqual(['EUR', 'JPY', 'KWD', 'RON']);
+    expect(isSupportedCurrency('RON')).toBe(true);
+    expect(isSupportedCurrency('GBP')).toBe(false);
+  });
+
+  it('describes known and unknown currencies', () => {
+    expect(getCurrencyMetadata('JPY')).toEqual({
+      code: 'JPY',
+      name: 'Yen',
+      symbol: '¥',
+      minorUnits: 0,
+    });
+    expect(getCurrencyMetadata('ABC')).toEqual({
+      code: 'ABC',
+      name: 'ABC',
+      symbol: 'ABC',
+      minorUnits: 2,
+    });
+  });
+
+  it('rounds to the minor units of the currency', () => {
+    expect(roundToMinorUnits(1234.5678, 'JPY')).toBe(1235);
+    expect(roundToMinorUnits(1234.5678, 'KWD')).toBe(1234.568);
+    expect(roundToMinorUnits(1234.5678, 'EUR')).toBe(1234.57);
+  });
+
+  it('converts into the target currency minor units', async () => {
+    const rateContext = createRateContext();
+
+    expect((await convertAmount(100, 'EUR', 'JPY', rateContext)).amount).toBe(
+      16123,
+    );
+    expect((await convertAmount(100, 'EUR', 'KWD', rateContext)).amount).toBe(
+      33.123,
+    );
+  });
+});
@@ -0,0 +1,124 @@
+process.env.RATES_TABLE_NAME = 'test-rates';
+process.env.SUPPORTED_CURRENCIES = 'EUR,BGN,USD';
+process.env.CURRENCY_PEGS =
+  'BGN:EUR:1.95583, xof:eur:655.957, EURO:EUR:1, DKK:DKK:1, HRK:EUR:0';
+process.env.CURRENCY_API_KEY = 'test-key';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import { BatchWriteItemCommand } from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import type { CurrencyCode } from '../types/budget';
+import {
+  convertAmount,
+  createRateContext,
+  refreshAllRates,
+} from '../utils/currency';
+import { CURRENCY_PEGS, getPeggedRate } from '../utils/currency-config';
+
+describe('currency pegs', () => {
+  const fetchMock = jest.fn();
+
+  beforeAll(() => {
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockSend.mockResolvedValue({});
+    fetchMock.mockReset();
+  });
+
+  it('upper-cases configured pegs and drops malformed ones', () => {
+    expect(CURRENCY_PEGS).toEqual({
+      BGN: { anchor: 'EUR', rate: 1.95583 },
+      XOF: { anchor: 'EUR', rate: 655.957 },
+    });
+  });
+
+  it('resolves pegs, their inverses and crosses on the same anchor', () => {
+    const xof = 'XOF' as CurrencyCode;
+
+    expect(getPeggedRate('EUR', 'BGN')).toBe(1.95583);
+    expect(getPeggedRate('BGN', 'EUR')).toBe(1 / 1.95583);
+    expect(getPeggedRate('BGN', xof)).toBe(655.957 / 1.95583);
+    expect(getPeggedRate('BGN', 'USD')).toBeUndefined();
+    expect(getPeggedRate('EUR', 'USD')).toBeUndefined();
+  });
+
+  it('converts pegged pairs without any lookup', async () => {
+    const result = await convertAmount(
+      100,
+      'BGN',
+      'EUR',
+      createRateContext(),
+      '2024-02-01',
+    );
+
+    expect(result.amount).toBe(51.13);
+    expect(result.snapshot).toEqual(
+      expect.objectContaining({ provider: 'peg', rate: 1 / 1.95583 }),
+    );
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('stores pegged pairs on refresh without requesting them', async () => {
+    fetchMock.mockImplementation(async (url: URL) => {
+      const rates: Record<string, number> = { EUR: 0.92, BGN: 1.8, USD: 1.1 };
+      const targets = url.searchParams.get('currencies')!.split(',');
+      return {
+        ok: true,
+        json: async () => ({
+          data: Object.fromEntries(
+            targets.map((target) => [target, { value: rates[target] }]),
+          ),
+        }),
+      };
+    });
+
+    await refreshAllRates({ force: true });
+
+    expect(
+      fetchMock.mock.calls.map(([url]: [URL]) => [
+        url.searchParams.get('base_currency'),
+        url.searchParams.get('currencies'),
+      ]),
+    ).toEqual([['EUR', 'USD']]);
+    const latest = mockSend.mock.calls
+      .map(([command]) => command)
+      .filter((command) => command instanceof BatchWriteItemCommand)
+      .flatMap(
+        (command: BatchWriteItemCommand) =>
+          command.input.RequestItems?.['test-rates'] ?? [],
+      )
+      .map((request) => unmarshall(request.PutRequest!.Item!))
+      .filter((item) => item.toCurrency === 'BGN' && !item.rateDate);
+    expect(latest).toEqual([
+      expect.objectContaining({
+        fromCurrency: 'EUR',
+        rate: 1.95583,
+        provider: 'peg',
+      }),
+      expect.objectContaining({
+        fromCurrency: 'USD',
+        rate: 1.95583 / 1.1,
+        provider: 'currencyapi.com+peg',
+      }),
+    ]);
+  });
+});
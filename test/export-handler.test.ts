@@ -0,0 +1,324 @@
+process.env.TRANSACTIONS_TABLE_NAME = 'test-transactions';
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+process.env.GOALS_TABLE_NAME = 'test-goals';
+process.env.RECURRING_TRANSACTIONS_TABLE_NAME = 'test-recurring';
+process.env.EXPORT_BUCKET_NAME = 'test-exports';
+
+let mockSend: jest.Mock;
+let mockS3Send: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+jest.mock('@aws-sdk/client-s3', () => {
+  const actual = jest.requireActual('@aws-sdk/client-s3');
+  mockS3Send = jest.fn(async () => ({}));
+  return {
+    ...actual,
+    S3Client: jest.fn().mockImplementation(() => ({ send: mockS3Send })),
+  };
+});
+
+jest.mock('@aws-sdk/s3-request-presigner', () => ({
+  getSignedUrl: jest.fn(async () => 'https://exports.example/signed'),
+}));
+
+jest.mock('../utils', () => ({
+  BASE_CURRENCY_CODE: 'EUR',
+  buildResponse: jest.requireActual('../utils/build-response').default,
+  buildFileResponse: jest.requireActual('../utils/build-response')
+    .buildFileResponse,
+  createRateContext: jest.fn(() => ({ source: 'test' })),
+  getUserPreferredCurrency: jest.fn(async () => 'USD'),
+  toCsv: jest.requireActual('../utils/csv').toCsv,
+  valueAtCurrentRate: jest.fn(async (item: { baseAmount: number }) => ({
+    amount: item.baseAmount + 9,
+  })),
+  valueAtTransactionDate: jest.fn(async (item: { baseAmount: number }) => ({
+    amount: item.baseAmount + 4,
+  })),
+}));
+
+import { QueryCommand } from '@aws-sdk/client-dynamodb';
+import { PutObjectCommand } from '@aws-sdk/client-s3';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import type { APIGatewayEvent } from 'aws-lambda';
+import { handler } from '../lambdas/export/handler';
+import { parseCsv } from '../utils/csv';
+
+const buildEvent = (
+  queryStringParameters: Record<string, string> | null = null,
+): APIGatewayEvent =>
+  ({
+    body: null,
+    headers: {},
+    httpMethod: 'GET',
+    isBase64Encoded: false,
+    multiValueHeaders: {},
+    multiValueQueryStringParameters: null,
+    path: '/export',
+    pathParameters: null,
+    queryStringParameters,
+    requestContext: {
+      authorizer: { claims: { sub: 'user-1' } },
+    },
+    resource: '/export',
+    stageVariables: null,
+  }) as unknown as APIGatewayEvent;
+
+const snapshot = {
+  fromCurrency: 'USD',
+  toCurrency: 'EUR',
+  rate: 0.9,
+  provider: 'currencyapi',
+  capturedAt: '2026-05-03T08:00:00.000Z',
+};
+
+const items: Record<string, Record<string, unknown>[]> = {
+  'test-transactions': [
+    {
+      id: 't1',
+      userId: 'user-1',
+      description: 'Dinner, "with friends"',
+      date: 'May 3, 2026',
+      dateKey: '2026-05-03#t1',
+      category: 'Food',
+      type: 'expense',
+      amount: 45,
+      baseAmount: 45,
+      baseCurrency: 'EUR',
+      originalAmount: 50,
+      originalCurrency: 'USD',
+      exchangeRateSnapshot: snapshot,
+    },
+    {
+      id: 't2',
+      userId: 'user-1',
+      description: 'Legacy',
+      date: 'May 4, 2026',
+      dateKey: '2026-05-04#t2',
+      category: 'Food',
+      type: 'expense',
+      amount: 12,
+    },
+  ],
+  'test-categories': [
+    {
+      id: 'cat-food',
+      userId: 'user-1',
+      name: 'Food',
+      color: '#fff',
+      type: 'expense',
+      monthlyData: {
+        '2026-04': { limit: 100, spent: 80, baseLimit: 100, baseSpent: 80 },
+        '2026-05': { limit: 200, spent: 57, baseLimit: 200, baseSpent: 57 },
+      },
+    },
+  ],
+  'test-goals': [
+    {
+      id: 'g1',
+      userId: 'user-1',
+      name: 'Holiday',
+      description: 'Summer',
+      target: 1000,
+      current: 250,
+      targetDate: '2026-08-01',
+    },
+  ],
+  'test-recurring': [
+    {
+      id: 'r1',
+      userId: 'user-1',
+      description: 'Rent',
+      category: 'Housing',
+      type: 'expense',
+      amount: 700,
+      baseAmount: 700,
+      rule: { frequency: 'monthly', startDate: '2026-01-01', dayOfMonth: 1 },
+      nextOccurrence: '2026-06-01',
+      status: 'active',
+    },
+  ],
+};
+
+const queryFor = (table: string) =>
+  mockSend.mock.calls
+    .map((call) => call[0] as QueryCommand)
+    .find((command) => command.input.TableName === table);
+
+describe('export handler', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockSend.mockImplementation(async (command: QueryCommand) => ({
+      Items: (items[command.input.TableName ?? ''] ?? []).map((item) =>
+        marshall(item),
+      ),
+    }));
+  });
+
+  it('exports the whole ledger as JSON with base and original amounts', async () => {
+    const response = await handler(
+      buildEvent({ from: '2026-05-01', to: '2026-05-31' }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(200);
+    expect(response?.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      'Content-Disposition':
+        'attachment; filename="ledger-2026-05-01_2026-05-31.json"',
+    });
+    expect(queryFor('test-transactions')?.input.KeyConditionExpression).toBe(
+      'userId = :userId AND dateKey BETWEEN :fromKey AND :toKey',
+    );
+
+    const body = JSON.parse(response?.body ?? '{}');
+    expect(body).toMatchObject({
+      baseCurrency: 'EUR',
+      from: '2026-05-01',
+      to: '2026-05-31',
+    });
+    expect(body.transactions).toEqual([
+      expect.objectContaining({
+        id: 't1',
+        baseAmount: 45,
+        originalAmount: 50,
+        originalCurrency: 'USD',
+        exchangeRateSnapshot: snapshot,
+        valuationCurrency: 'USD',
+        historicalAmount: 49,
+        currentAmount: 54,
+      }),
+      expect.objectContaining({
+        id: 't2',
+        baseAmount: 12,
+        baseCurrency: 'EUR',
+        originalAmount: 12,
+        originalCurrency: 'EUR',
+      }),
+    ]);
+    expect(Object.keys(body.categories[0].monthlyData)).toEqual(['2026-05']);
+    expect(body.goals).toEqual([expect.objectContaining({ id: 'g1' })]);
+    expect(body.recurringTransactions).toEqual([
+      expect.objectContaining({ id: 'r1', originalAmount: 700 }),
+    ]);
+  });
+
+  it('exports transactions as CSV by default', async () => {
+    const response = await handler(
+      buildEvent({ format: 'csv' }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(200);
+    expect(response?.headers).toMatchObject({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="transactions.csv"',
+    });
+    expect(queryFor('test-transactions')?.input.KeyConditionExpression).toBe(
+      'userId = :userId',
+    );
+    expect(queryFor('test-goals')).toBeUndefined();
+
+    const [header, first, second] = parseCsv(response?.body ?? '');
+    const row = Object.fromEntries(header.map((name, i) => [name, first[i]]));
+    expect(row).toMatchObject({
+      id: 't1',
+      isoDate: '2026-05-03',
+      description: 'Dinner, "with friends"',
+      baseAmount: '45',
+      baseCurrency: 'EUR',
+      originalAmount: '50',
+      originalCurrency: 'USD',
+      valuationCurrency: 'USD',
+      historicalAmount: '49',
+      currentAmount: '54',
+      rate: '0.9',
+      rateProvider: 'currencyapi',
+    });
+    expect(second[header.indexOf('rate')]).toBe('');
+  });
+
+  it('exports one CSV row per category month', async () => {
+    const response = await handler(
+      buildEvent({ format: 'csv', entity: 'categories', from: '2026-04-10' }),
+      {} as never,
+      () => undefined,
+    );
+
+    const rows = parseCsv(response?.body ?? '');
+    expect(rows).toEqual([
+      [
+        'id',
+        'name',
+        'type',
+        'color',
+        'month',
+        'baseLimit',
+        'baseSpent',
+        'baseCurrency',
+      ],
+      ['cat-food', 'Food', 'expense', '#fff', '2026-04', '100', '80', 'EUR'],
+      ['cat-food', 'Food', 'expense', '#fff', '2026-05', '200', '57', 'EUR'],
+    ]);
+  });
+
+  it('redirects to a presigned download when the file is too large', async () => {
+    const large = {
+      ...items['test-transactions'][1],
+      description: 'x'.repeat(6 * 1024 * 1024),
+    };
+    mockSend.mockImplementation(async (command: QueryCommand) => ({
+      Items: (command.input.TableName === 'test-transactions'
+        ? [large]
+        : []
+      ).map((item) => marshall(item)),
+    }));
+
+    const response = await handler(buildEvent(), {} as never, () => undefined);
+
+    expect(response?.statusCode).toBe(303);
+    expect(response?.headers).toMatchObject({
+      Location: 'https://exports.example/signed',
+    });
+    expect(JSON.parse(response?.body ?? '{}')).toEqual({
+      url: 'https://exports.example/signed',
+      expiresInSeconds: 900,
+    });
+    const put = mockS3Send.mock.calls[0][0] as PutObjectCommand;
+    expect(put).toBeInstanceOf(PutObjectCommand);
+    expect(put.input).toMatchObject({
+      Bucket: 'test-exports',
+      Key: expect.stringMatching(/^user-1\/.+\/ledger\.json$/),
+      ContentType: 'application/json',
+    });
+  });
+
+  it('rejects an unknown format', async () => {
+    const response = await handler(
+      buildEvent({ format: 'xml' }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(JSON.parse(response?.body ?? '{}')).toEqual({
+      message: 'format must be either csv or json',
+    });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
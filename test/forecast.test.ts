@@ -0,0 +1,211 @@
+process.env.TRANSACTIONS_TABLE_NAME = 'test-transactions';
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+process.env.RECURRING_TRANSACTIONS_TABLE_NAME = 'test-recurring';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import type { APIGatewayEvent } from 'aws-lambda';
+import { handler } from '../lambdas/forecast/handler';
+import { buildCashFlowForecast } from '../lambdas/forecast/helpers';
+import type {
+  Category,
+  RecurringTransaction,
+  Transaction,
+} from '../types/budget';
+
+const txn = (
+  date: string,
+  type: Transaction['type'],
+  category: string,
+  baseAmount: number,
+  recurrenceId?: string,
+) =>
+  ({
+    id: `${category}-${date}`,
+    type,
+    category,
+    baseAmount,
+    dateKey: `${date}#${category}`,
+    recurrenceId,
+  }) as Transaction;
+
+const rule = (overrides: Partial<RecurringTransaction>): RecurringTransaction =>
+  ({
+    id: 'rec',
+    baseAmount: 0,
+    rule: { frequency: 'monthly', startDate: '2026-01-01' },
+    status: 'active',
+    ...overrides,
+  }) as RecurringTransaction;
+
+const categories = [
+  { id: 'cat-food', name: 'Food', type: 'expense' },
+  { id: 'cat-rent', name: 'Rent', type: 'expense' },
+] as Category[];
+
+const transactions = [
+  txn('2026-01-10', 'expense', 'cat-food', 900),
+  txn('2026-02-10', 'expense', 'cat-food', 300),
+  txn('2026-03-10', 'expense', 'cat-food', 300),
+  txn('2026-04-10', 'expense', 'cat-food', 300),
+  txn('2026-04-01', 'income', 'Salary', 3000, 'rec-salary'),
+  txn('2026-04-20', 'expense', 'cat-rent', 1000, 'rec-rent'),
+];
+
+const recurring = [
+  rule({
+    id: 'rec-salary',
+    type: 'income',
+    category: 'Salary',
+    baseAmount: 3000,
+    rule: { frequency: 'monthly', startDate: '2026-01-01', dayOfMonth: 1 },
+    nextOccurrence: '2026-06-01',
+  }),
+  rule({
+    id: 'rec-rent',
+    type: 'expense',
+    category: 'Rent',
+    baseAmount: 1000,
+    rule: { frequency: 'monthly', startDate: '2026-01-20', dayOfMonth: 20 },
+    nextOccurrence: '2026-05-20',
+    overrides: { '2026-06-20': { skip: true } },
+  }),
+  rule({
+    id: 'rec-paused',
+    type: 'expense',
+    category: 'Rent',
+    baseAmount: 5000,
+    nextOccurrence: '2026-05-25',
+    status: 'paused',
+  }),
+];
+
+describe('buildCashFlowForecast', () => {
+  const forecast = buildCashFlowForecast('2026-05-16', 2, {
+    transactions,
+    categories,
+    recurring,
+  });
+
+  it('starts from the net of the recorded ledger', () => {
+    expect(forecast.startingBalance).toBe(200);
+    expect(forecast.months.map((month) => month.month)).toEqual([
+      '2026-05',
+      '2026-06',
+    ]);
+  });
+
+  it('leaves future-dated transactions out of the starting balance', () => {
+    const withFuture = buildCashFlowForecast('2026-05-16', 2, {
+      transactions: [
+        ...transactions,
+        txn('2026-05-16', 'expense', 'cat-food', 50),
+        txn('2026-05-20', 'expense', 'cat-rent', 1000, 'rec-rent'),
+      ],
+      categories,
+      recurring,
+    });
+
+    expect(withFuture.startingBalance).toBe(150);
+  });
+
+  it('combines recurring occurrences with prorated average spend', () => {
+    const [may, june] = forecast.months;
+
+    // 300 a month over Feb-Apr, 16 of 31 days of May left.
+    expect(may).toEqual(
+      expect.objectContaining({
+        recurringIncome: 0,
+        recurringExpense: 1000,
+        estimatedSpend: 154.84,
+        openingBalance: 200,
+        closingBalance: -954.84,
+      }),
+    );
+    expect(may.categories).toEqual([
+      {
+        category: 'cat-rent',
+        name: 'Rent',
+        recurringExpense: 1000,
+        estimatedSpend: 0,
+      },
+      {
+        category: 'cat-food',
+        name: 'Food',
+        recurringExpense: 0,
+        estimatedSpend: 154.84,
+      },
+    ]);
+    // June's rent is skipped by an override.
+    expect(june).toEqual(
+      expect.objectContaining({
+        recurringIncome: 3000,
+        recurringExpense: 0,
+        estimatedSpend: 300,
+        net: 2700,
+        closingBalance: 1745.16,
+      }),
+    );
+  });
+
+  it('reports when the balance first goes negative', () => {
+    expect(forecast.firstNegativeMonth).toBe('2026-05');
+    expect(forecast.lowestBalance).toBe(-954.84);
+  });
+
+  it('counts overdue occurrences in the current month', () => {
+    const overdue = buildCashFlowForecast('2026-05-16', 1, {
+      transactions: [],
+      categories,
+      recurring: [
+        rule({
+          type: 'expense',
+          category: 'Rent',
+          baseAmount: 50,
+          nextOccurrence: '2026-04-01',
+          rule: {
+            frequency: 'monthly',
+            startDate: '2026-01-01',
+            dayOfMonth: 1,
+          },
+        }),
+      ],
+    });
+
+    expect(overdue.months[0].recurringExpense).toBe(100);
+  });
+});
+
+describe('forecast handler', () => {
+  it('rejects an out of range months parameter', async () => {
+    const response = await handler(
+      {
+        headers: {},
+        queryStringParameters: { months: '30' },
+        requestContext: { authorizer: { claims: { sub: 'user-1' } } },
+      } as unknown as APIGatewayEvent,
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(JSON.parse(response?.body ?? '{}').message).toBe(
+      'months must be an integer between 1 and 24',
+    );
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,368 @@
+/* eslint-disable max-lines */
+process.env.TABLE_NAME = 'test-goals';
+process.env.GOAL_CONTRIBUTIONS_TABLE_NAME = 'test-goal-contributions';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+jest.mock('../utils', () => ({
+  BASE_CURRENCY_CODE: 'EUR',
+  buildResponse: jest.requireActual('../utils/build-response').default,
+  convertFromBaseCurrency: jest.fn(
+    async (amount: number, currency: string) => ({
+      amount,
+      snapshot: {
+        fromCurrency: 'EUR',
+        toCurrency: currency,
+        rate: 1,
+        provider: 'test',
+        capturedAt: '2026-01-01T00:00:00.000Z',
+      },
+    }),
+  ),
+  convertToBaseCurrency: jest.fn(async (amount: number, currency: string) => ({
+    baseAmount: amount,
+    snapshot: {
+      fromCurrency: currency,
+      toCurrency: 'EUR',
+      rate: 1,
+      provider: 'test',
+      capturedAt: '2026-01-01T00:00:00.000Z',
+    },
+  })),
+  createRateContext: jest.fn(() => ({ source: 'test' })),
+  deleteGoalContributions: jest.fn(async () => undefined),
+  getContributionDelta: jest.requireActual('../utils/goal-contributions')
+    .getContributionDelta,
+  getUserPreferredCurrency: jest.fn(async () => 'EUR'),
+  isSupportedCurrency: jest.fn(() => true),
+  normalizeCurrencyCode: jest.fn((currency: string) => currency),
+  queryGoalContributions: jest.fn(),
+  recordGoalContribution: jest.fn(),
+  toCurrencyNumber: jest.fn((value: unknown) => Number(value)),
+}));
+
+import type { APIGatewayEvent } from 'aws-lambda';
+import {
+  BatchWriteItemCommand,
+  PutItemCommand,
+  QueryCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { handler } from '../lambdas/goals/handler';
+import type { Goal, GoalContribution } from '../types/budget';
+import { queryGoalContributions, recordGoalContribution } from '../utils';
+import { deleteGoalContributions } from '../utils/goal-contributions';
+
+const buildEvent = (
+  overrides: Partial<APIGatewayEvent> = {},
+): APIGatewayEvent => {
+  const baseRequestContext = {
+    accountId: '123',
+    apiId: 'api-id',
+    authorizer: { claims: { sub: 'user-1' } },
+    protocol: 'HTTP/1.1',
+    httpMethod: 'GET',
+    identity: {} as APIGatewayEvent['requestContext']['identity'],
+    path: '/goals',
+    requestId: 'request-id',
+    requestTimeEpoch: 0,
+    resourceId: 'resource-id',
+    resourcePath: '/goals',
+    stage: 'dev',
+  };
+  return {
+    body: null,
+    headers: {},
+    httpMethod: 'GET',
+    isBase64Encoded: false,
+    multiValueHeaders: {},
+    multiValueQueryStringParameters: null,
+    path: '/goals',
+    pathParameters: null,
+    queryStringParameters: null,
+    requestContext: {
+      ...baseRequestContext,
+      ...(overrides.requestContext ?? {}),
+    },
+    resource: '/goals',
+    stageVariables: null,
+    ...overrides,
+  } as APIGatewayEvent;
+};
+
+const storedGoal = (overrides: Partial<Goal> = {}) => ({
+  Item: marshall({
+    id: 'goal-1',
+    userId: 'user-1',
+    name: 'Trip',
+    target: 1000,
+    current: 150,
+    targetDate: '2027-01-01',
+    description: '',
+    currency: 'EUR',
+    baseCurrency: 'EUR',
+    ...overrides,
+  }),
+});
+
+const contributionsEvent = (
+  httpMethod: string,
+  body: Record<string, unknown> | null = null,
+) =>
+  buildEvent({
+    httpMethod,
+    body: body ? JSON.stringify(body) : null,
+    path: '/goals/goal-1/contributions',
+    resource: '/goals/{id}/contributions',
+    pathParameters: { id: 'goal-1' },
+  });
+
+const makeContribution = (
+  overrides: Partial<GoalContribution> = {},
+): GoalContribution => ({
+  goalId: 'goal-1',
+  dateKey: '2026-05-01#c-1',
+  id: 'c-1',
+  userId: 'user-1',
+  type: 'deposit',
+  date: '2026-05-01',
+  baseAmount: 100,
+  baseCurrency: 'EUR',
+  originalAmount: 100,
+  originalCurrency: 'EUR',
+  createdAt: '2026-05-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('goals handler contributions', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    (recordGoalContribution as jest.Mock).mockReset();
+    (queryGoalContributions as jest.Mock).mockReset();
+  });
+
+  it('records a deposit and returns the new balance', async () => {
+    mockSend.mockResolvedValueOnce(storedGoal());
+    (recordGoalContribution as jest.Mock).mockResolvedValueOnce('recorded');
+
+    const response = await handler(
+      contributionsEvent('POST', { amount: 50, date: '2026-06-01' }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(201);
+    expect(recordGoalContribution).toHaveBeenCalledWith(
+      expect.objectContaining({
+        goalId: 'goal-1',
+        type: 'deposit',
+        baseAmount: 50,
+        dateKey: expect.stringMatching(/^2026-06-01#/),
+      }),
+    );
+    expect(JSON.parse(response?.body ?? '{}')).toEqual(
+      expect.objectContaining({ amount: 50, balance: 200, current: 200 }),
+    );
+  });
+
+  it('rejects withdrawals larger than the balance', async () => {
+    mockSend.mockResolvedValueOnce(storedGoal());
+    (recordGoalContribution as jest.Mock).mockResolvedValueOnce('insufficient');
+
+    const response = await handler(
+      contributionsEvent('POST', { amount: 500, type: 'withdrawal' }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(JSON.parse(response?.body ?? '{}').message).toBe(
+      'Withdrawal exceeds the goal balance',
+    );
+  });
+
+  it('returns 404 when the goal is deleted before the deposit lands', async () => {
+    mockSend.mockResolvedValueOnce(storedGoal());
+    (recordGoalContribution as jest.Mock).mockResolvedValueOnce('goalNotFound');
+
+    const response = await handler(
+      contributionsEvent('POST', { amount: 50 }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(404);
+    expect(JSON.parse(response?.body ?? '{}').message).toBe('Goal not found');
+  });
+
+  it('validates the contribution payload', async () => {
+    mockSend.mockResolvedValueOnce(storedGoal());
+
+    const response = await handler(
+      contributionsEvent('POST', { amount: -5 }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(recordGoalContribution).not.toHaveBeenCalled();
+  });
+
+  it('returns the history with running balances', async () => {
+    mockSend.mockResolvedValueOnce(storedGoal({ current: 150 }));
+    (queryGoalContributions as jest.Mock).mockResolvedValueOnce([
+      makeContribution(),
+      makeContribution({
+        id: 'c-2',
+        dateKey: '2026-05-10#c-2',
+        date: '2026-05-10',
+        type: 'withdrawal',
+        baseAmount: 20,
+      }),
+    ]);
+
+    const response = await handler(
+      contributionsEvent('GET'),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(200);
+    const body = JSON.parse(response?.body ?? '{}');
+    expect(body.openingBalance).toBe(70);
+    expect(body.current).toBe(150);
+    expect(
+      body.contributions.map((c: { balance: number }) => c.balance),
+    ).toEqual([170, 150]);
+  });
+
+  it('forbids access to another user goal', async () => {
+    mockSend.mockResolvedValueOnce(storedGoal({ userId: 'user-2' }));
+
+    const response = await handler(
+      contributionsEvent('GET'),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(403);
+    expect(queryGoalContributions).not.toHaveBeenCalled();
+  });
+});
+
+describe('goals handler PUT', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('does not let current be overwritten', async () => {
+    mockSend.mockResolvedValueOnce(storedGoal());
+
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'PUT',
+        pathParameters: { id: 'goal-1' },
+        body: JSON.stringify({ current: 900 }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts a goal that never had a balance', async () => {
+    const { Item } = storedGoal();
+    delete Item.current;
+    mockSend.mockResolvedValueOnce({ Item }).mockResolvedValueOnce({});
+
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'PUT',
+        pathParameters: { id: 'goal-1' },
+        body: JSON.stringify({ name: 'Holiday' }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(200);
+    const put = mockSend.mock.calls[1][0] as PutItemCommand;
+    expect(put.input.ConditionExpression).toBe(
+      'attribute_not_exists(#current) OR #current = :current',
+    );
+  });
+});
+
+describe('deleteGoalContributions', () => {
+  const TABLE = 'test-goal-contributions';
+  const deleteRequest = (dateKey: string) => ({
+    DeleteRequest: { Key: marshall({ goalId: 'goal-1', dateKey }) },
+  });
+
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  const respondWith = (unprocessed: (attempt: number) => string[]) => {
+    let attempt = 0;
+    mockSend.mockImplementation(async (command: unknown) => {
+      if (command instanceof QueryCommand) {
+        return {
+          Items: ['2026-01-01#a', '2026-01-02#b'].map((dateKey) =>
+            marshall({ goalId: 'goal-1', dateKey }),
+          ),
+        };
+      }
+      attempt += 1;
+      const keys = unprocessed(attempt);
+      return keys.length
+        ? { UnprocessedItems: { [TABLE]: keys.map(deleteRequest) } }
+        : {};
+    });
+  };
+
+  const batchWrites = () =>
+    mockSend.mock.calls
+      .map(([command]) => command)
+      .filter(
+        (command) => command instanceof BatchWriteItemCommand,
+      ) as BatchWriteItemCommand[];
+
+  it('retries unprocessed deletes until they go through', async () => {
+    respondWith((attempt) => (attempt === 1 ? ['2026-01-02#b'] : []));
+
+    await deleteGoalContributions('goal-1');
+
+    expect(
+      batchWrites().map((command) => command.input.RequestItems?.[TABLE]),
+    ).toEqual([
+      [deleteRequest('2026-01-01#a'), deleteRequest('2026-01-02#b')],
+      [deleteRequest('2026-01-02#b')],
+    ]);
+  });
+
+  it('throws when deletes stay unprocessed', async () => {
+    respondWith(() => ['2026-01-02#b']);
+
+    await expect(deleteGoalContributions('goal-1')).rejects.toThrow(
+      'Failed to delete 1 contributions of goal goal-1',
+    );
+    expect(batchWrites()).toHaveLength(5);
+  });
+});
@@ -0,0 +1,107 @@
+import { projectGoal } from '../lambdas/goals/helpers/project-goal';
+import type { Goal, GoalContribution } from '../types/budget';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+const makeGoal = (overrides: Partial<Goal> = {}): Goal => ({
+  id: 'goal-1',
+  userId: 'user-1',
+  name: 'Trip',
+  target: 1200,
+  current: 300,
+  targetDate: '2027-06-01',
+  description: '',
+  baseCurrency: 'EUR',
+  ...overrides,
+});
+
+const deposit = (
+  date: string,
+  baseAmount: number,
+  type: GoalContribution['type'] = 'deposit',
+): GoalContribution => ({
+  goalId: 'goal-1',
+  dateKey: `${date}#${date}`,
+  id: date,
+  userId: 'user-1',
+  type,
+  date,
+  baseAmount,
+  baseCurrency: 'EUR',
+  originalAmount: baseAmount,
+  originalCurrency: 'EUR',
+  createdAt: `${date}T00:00:00.000Z`,
+});
+
+const quarterOf = (monthly: number) => [
+  deposit('2026-03-05', monthly),
+  deposit('2026-04-05', monthly),
+  deposit('2026-05-05', monthly),
+];
+
+describe('projectGoal', () => {
+  it('is achieved once current reaches target', () => {
+    const projection = projectGoal(
+      makeGoal({ current: 1200 }),
+      quarterOf(100),
+      NOW,
+    );
+
+    expect(projection).toEqual(
+      expect.objectContaining({
+        status: 'achieved',
+        requiredMonthly: 0,
+        projectedCompletionDate: null,
+      }),
+    );
+  });
+
+  it('derives the pace from the last 90 days of contributions', () => {
+    const projection = projectGoal(
+      makeGoal(),
+      [deposit('2025-01-01', 5000), ...quarterOf(75)],
+      NOW,
+    );
+
+    // 225 over the 90 day window, ignoring the old lump sum.
+    expect(projection.monthlyVelocity).toBe(76.09);
+    expect(projection.requiredMonthly).toBeCloseTo(75, 0);
+    expect(projection.status).toBe('onTrack');
+  });
+
+  it('is ahead when the projection beats the target date by a month', () => {
+    const projection = projectGoal(makeGoal(), quarterOf(150), NOW);
+
+    expect(projection.status).toBe('ahead');
+    expect(projection.projectedCompletionDate! < '2027-06-01').toBe(true);
+  });
+
+  it('is behind when the pace misses the target date', () => {
+    const projection = projectGoal(makeGoal(), quarterOf(30), NOW);
+
+    expect(projection.status).toBe('behind');
+    expect(projection.projectedCompletionDate! > '2027-06-01').toBe(true);
+  });
+
+  it('never completes without a positive pace', () => {
+    const projection = projectGoal(
+      makeGoal(),
+      [deposit('2026-05-01', 50), deposit('2026-05-20', 80, 'withdrawal')],
+      NOW,
+    );
+
+    expect(projection.status).toBe('behind');
+    expect(projection.projectedCompletionDate).toBeNull();
+  });
+
+  it('asks for the whole remainder once the target date has passed', () => {
+    const projection = projectGoal(
+      makeGoal({ targetDate: '2026-05-01' }),
+      quarterOf(100),
+      NOW,
+    );
+
+    expect(projection.requiredMonthly).toBe(900);
+    expect(projection.status).toBe('behind');
+  });
+});
@@ -42,12 +42,21 @@ jest.mock('../utils', () => ({
     },
   })),
   createRateContext: jest.fn(() => ({ source: 'test' })),
+  deleteGoalContributions: jest.fn(async () => undefined),
+  getContributionDelta: jest.requireActual('../utils/goal-contributions')
+    .getContributionDelta,
   getUserPreferredCurrency: jest.fn(async () => 'EUR'),
   normalizeCurrencyCode: jest.fn((currency: string) => currency),
+  queryGoalContributions: jest.fn(async () => []),
   toCurrencyNumber: jest.fn((value: unknown) => Number(value)),
 }));
 
-import { QueryCommand, ScanCommand } from '@aws-sdk/client-dynamodb';
+import {
+  PutItemCommand,
+  QueryCommand,
+  ScanCommand,
+} from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
 import type { APIGatewayEvent } from 'aws-lambda';
 import { handler } from '../lambdas/goals/handler';
 import type { Goal } from '../types/budget';
@@ -162,3 +171,52 @@ describe('goals handler GET list', () => {
     expect(body.map((g: Goal) => g.id)).toEqual(['goal-a', 'goal-b']);
   });
 });
+
+describe('goals handler POST', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('starts a new goal with an empty balance', async () => {
+    mockSend.mockResolvedValueOnce({});
+
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        body: JSON.stringify({
+          name: 'Trip',
+          target: 1000,
+          targetDate: '2027-01-01',
+          description: '',
+        }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(201);
+    const put = mockSend.mock.calls[0][0] as PutItemCommand;
+    expect(put).toBeInstanceOf(PutItemCommand);
+    expect(unmarshall(put.input.Item ?? {})).toMatchObject({
+      target: 1000,
+      current: 0,
+    });
+  });
+
+  it('rejects a client supplied balance', async () => {
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        body: JSON.stringify({ name: 'Trip', target: 1000, current: 400 }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(JSON.parse(response?.body ?? '{}').message).toMatch(
+      /derived from contributions/,
+    );
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
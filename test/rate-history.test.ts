@@ -0,0 +1,188 @@
+process.env.RATES_TABLE_NAME = 'test-rates';
+process.env.SUPPORTED_CURRENCIES = 'EUR,USD';
+process.env.CURRENCY_API_KEY = 'test-key';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import {
+  BatchWriteItemCommand,
+  GetItemCommand,
+  QueryCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import {
+  convertAmount,
+  createRateContext,
+  refreshAllRates,
+} from '../utils/currency';
+
+const commandsOf = <T>(type: new (...args: never[]) => T): T[] =>
+  mockSend.mock.calls
+    .map(([command]) => command)
+    .filter((command) => command instanceof type);
+
+const batchedRequests = () =>
+  commandsOf(BatchWriteItemCommand).map(
+    (command) => command.input.RequestItems?.['test-rates'] ?? [],
+  );
+
+describe('rate history', () => {
+  const fetchMock = jest.fn();
+
+  beforeAll(() => {
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  beforeEach(() => {
+    mockSend.mockReset();
+    fetchMock.mockReset();
+    jest.useFakeTimers({ now: new Date('2026-10-18T09:30:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('records one dated row per pair on refresh', async () => {
+    mockSend.mockResolvedValue({});
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: { USD: { value: 1.25 } } }),
+    });
+
+    await refreshAllRates({ force: true });
+
+    const history = batchedRequests()
+      .flat()
+      .map((request) => unmarshall(request.PutRequest!.Item!))
+      .filter((item) => item.rateDate);
+    expect(history).toEqual([
+      expect.objectContaining({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD#2026-10-18',
+        rate: 1.25,
+        rateDate: '2026-10-18',
+      }),
+      expect.objectContaining({
+        fromCurrency: 'USD',
+        toCurrency: 'EUR#2026-10-18',
+        rate: 0.8,
+        rateDate: '2026-10-18',
+        derivation: { method: 'inverse', path: ['USD', 'EUR'] },
+      }),
+    ]);
+    history.forEach((item) => expect(item.ttlEpoch).toBeUndefined());
+  });
+
+  it('retries rate rows the batch write left unprocessed', async () => {
+    jest.useRealTimers();
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: { USD: { value: 1.25 } } }),
+    });
+    let batches = 0;
+    mockSend.mockImplementation(async (command) => {
+      if (!(command instanceof BatchWriteItemCommand)) {
+        return {};
+      }
+      batches += 1;
+      const requests = command.input.RequestItems!['test-rates'];
+      return batches === 1
+        ? { UnprocessedItems: { 'test-rates': requests.slice(1) } }
+        : {};
+    });
+
+    await refreshAllRates({ force: true });
+
+    expect(batchedRequests().map((requests) => requests.length)).toEqual([
+      4, 3,
+    ]);
+  });
+
+  it('converts at the latest daily rate on or before asOf', async () => {
+    mockSend.mockResolvedValue({
+      Items: [
+        marshall({
+          fromCurrency: 'EUR',
+          toCurrency: 'USD#2026-03-31',
+          rate: 1.08,
+          provider: 'currencyapi.com',
+          capturedAt: '2026-03-31T08:00:00.000Z',
+          rateDate: '2026-03-31',
+        }),
+      ],
+    });
+
+    const result = await convertAmount(
+      100,
+      'EUR',
+      'USD',
+      createRateContext(),
+      '2026-04-01',
+    );
+
+    expect(result.amount).toBe(108);
+    expect(result.snapshot).toEqual(
+      expect.objectContaining({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rateDate: '2026-03-31',
+      }),
+    );
+    const [query] = commandsOf(QueryCommand);
+    expect(query.input.ScanIndexForward).toBe(false);
+    expect(unmarshall(query.input.ExpressionAttributeValues!)).toEqual({
+      ':from': 'EUR',
+      ':first': 'USD#',
+      ':asOf': 'USD#2026-04-01',
+    });
+  });
+
+  it('falls back to the latest rate without history', async () => {
+    mockSend.mockImplementation(async (command) =>
+      command instanceof GetItemCommand
+        ? {
+            Item: marshall({
+              fromCurrency: 'EUR',
+              toCurrency: 'USD',
+              rate: 1.25,
+              capturedAt: '2026-10-18T06:00:00.000Z',
+              freshUntilEpoch: Date.now() + 60_000,
+            }),
+          }
+        : { Items: [] },
+    );
+
+    const result = await convertAmount(
+      10,
+      'USD',
+      'EUR',
+      createRateContext(),
+      '2025-01-15',
+    );
+
+    expect(result.amount).toBe(8);
+    expect(result.snapshot.rateDate).toBeUndefined();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('ignores asOf for today', async () => {
+    await convertAmount(10, 'USD', 'EUR', createRateContext(), '2026-10-18');
+
+    expect(commandsOf(QueryCommand)).toHaveLength(0);
+  });
+});
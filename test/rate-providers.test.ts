@@ -0,0 +1,145 @@
+process.env.CURRENCY_API_KEY = 'test-key';
+process.env.CURRENCY_PROVIDER_TIMEOUT_MS = '20';
+
+import type { RateProvider } from '../utils/rate-providers';
+import { fetchProviderRates, getRateProviders } from '../utils/rate-providers';
+import { currencyApiProvider } from '../utils/rate-providers/currencyapi';
+import { ecbProvider, parseEcbRates } from '../utils/rate-providers/ecb';
+import { staticPegProvider } from '../utils/rate-providers/static-peg';
+
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope>
+  <Cube>
+    <Cube time='2026-10-16'>
+      <Cube currency='USD' rate='1.0800'/>
+      <Cube currency='GBP' rate='0.8640'/>
+      <Cube currency='JPY' rate='161.20'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+const failingProvider: RateProvider = {
+  name: 'down',
+  fetchRates: async () => {
+    throw new Error('Service unavailable');
+  },
+};
+
+describe('rate providers', () => {
+  const fetchMock = jest.fn();
+
+  beforeAll(() => {
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('fails over to the next provider', async () => {
+    const snapshots = await fetchProviderRates(
+      'EUR',
+      ['BGN'],
+      [failingProvider, staticPegProvider],
+    );
+
+    expect(snapshots).toEqual([
+      expect.objectContaining({
+        fromCurrency: 'EUR',
+        toCurrency: 'BGN',
+        rate: 1.95583,
+        provider: 'peg',
+      }),
+    ]);
+  });
+
+  it('gives up on a hanging provider and fails over', async () => {
+    fetchMock.mockImplementation(
+      (_url: URL, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () =>
+            reject(init.signal!.reason),
+          );
+        }),
+    );
+
+    const snapshots = await fetchProviderRates(
+      'EUR',
+      ['BGN'],
+      [currencyApiProvider, staticPegProvider],
+    );
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.any(URL),
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    );
+    expect(snapshots).toEqual([
+      expect.objectContaining({ toCurrency: 'BGN', provider: 'peg' }),
+    ]);
+  });
+
+  it('asks later providers only for the rates still missing', async () => {
+    fetchMock.mockResolvedValue({ ok: true, text: async () => ECB_XML });
+
+    const snapshots = await fetchProviderRates(
+      'EUR',
+      ['BGN', 'USD'],
+      [staticPegProvider, ecbProvider],
+    );
+
+    expect(
+      snapshots.map(({ toCurrency, provider }) => [toCurrency, provider]),
+    ).toEqual([
+      ['BGN', 'peg'],
+      ['USD', 'ecb'],
+    ]);
+  });
+
+  it('reports every failure when no provider can quote a rate', async () => {
+    await expect(
+      fetchProviderRates('USD', ['GBP'], [failingProvider, staticPegProvider]),
+    ).rejects.toThrow(
+      'Exchange rate not found for USD->GBP; Service unavailable',
+    );
+  });
+
+  it('derives ECB cross rates through EUR', async () => {
+    fetchMock.mockResolvedValue({ ok: true, text: async () => ECB_XML });
+
+    const rates = await ecbProvider.fetchRates('USD', ['GBP', 'EUR', 'BGN']);
+
+    expect(rates.GBP).toBeCloseTo(0.8, 10);
+    expect(rates.EUR).toBeCloseTo(1 / 1.08, 10);
+    expect(rates).not.toHaveProperty('BGN');
+    expect(parseEcbRates(ECB_XML)).toEqual({
+      EUR: 1,
+      USD: 1.08,
+      GBP: 0.864,
+      JPY: 161.2,
+    });
+  });
+
+  it('leaves out currencyapi targets missing from the response', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: { USD: { value: 1.09 } } }),
+    });
+
+    const rates = await currencyApiProvider.fetchRates('EUR', ['USD', 'GBP']);
+
+    expect(rates).toEqual({ USD: 1.09 });
+    const url = fetchMock.mock.calls[0][0] as URL;
+    expect(url.searchParams.get('currencies')).toBe('USD,GBP');
+    expect(url.searchParams.get('apikey')).toBe('test-key');
+  });
+
+  it('resolves configured ids in order and ignores unknown ones', () => {
+    expect(
+      getRateProviders(['ecb', 'nope', 'static']).map(({ name }) => name),
+    ).toEqual(['ecb', 'peg']);
+    expect(getRateProviders([]).map(({ name }) => name)).toEqual([
+      'currencyapi.com',
+    ]);
+  });
+});
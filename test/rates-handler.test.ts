@@ -0,0 +1,252 @@
+process.env.RATES_TABLE_NAME = 'test-rates';
+process.env.SUPPORTED_CURRENCIES = 'EUR,USD,GBP';
+process.env.CURRENCY_API_KEY = 'test-key';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import { GetItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { APIGatewayEvent, Context } from 'aws-lambda';
+import { handler } from '../lambdas/rates/handler';
+
+const NOW = new Date('2026-10-18T09:30:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const buildEvent = (
+  resource: string,
+  overrides: Partial<APIGatewayEvent> = {},
+): APIGatewayEvent =>
+  ({
+    body: null,
+    headers: {},
+    httpMethod: 'GET',
+    isBase64Encoded: false,
+    multiValueHeaders: {},
+    multiValueQueryStringParameters: null,
+    path: resource,
+    pathParameters: null,
+    queryStringParameters: null,
+    requestContext: {
+      authorizer: { claims: { sub: 'user-1' } },
+    },
+    resource,
+    stageVariables: null,
+    ...overrides,
+  }) as unknown as APIGatewayEvent;
+
+const invoke = async (event: APIGatewayEvent) => {
+  const result = await handler(event, {} as Context, () => undefined);
+  return { statusCode: result!.statusCode, body: JSON.parse(result!.body) };
+};
+
+const baseLegs: Record<string, number> = { USD: 1.25, GBP: 0.8 };
+
+const respondWith = (meta: Record<string, number> | null) =>
+  mockSend.mockImplementation(async (command) => {
+    if (command instanceof GetItemCommand) {
+      const key = unmarshall(command.input.Key!);
+      if (key.fromCurrency === '__meta__') {
+        return meta ? { Item: marshall({ ...key, ...meta }) } : {};
+      }
+      const rate =
+        key.fromCurrency === 'EUR' ? baseLegs[key.toCurrency] : undefined;
+      return rate
+        ? {
+            Item: marshall({
+              ...key,
+              rate,
+              provider: 'currencyapi',
+              capturedAt: new Date(NOW.getTime() - HOUR_MS).toISOString(),
+              freshUntilEpoch: NOW.getTime() + HOUR_MS,
+            }),
+          }
+        : {};
+    }
+    if (command instanceof QueryCommand) {
+      return {
+        Items: ['2026-10-01', '2026-10-02'].map((rateDate, index) =>
+          marshall({
+            fromCurrency: 'EUR',
+            toCurrency: `USD#${rateDate}`,
+            rate: 1.2 + index / 100,
+            provider: 'currencyapi',
+            capturedAt: `${rateDate}T06:00:00.000Z`,
+            rateDate,
+          }),
+        ),
+      };
+    }
+    return {};
+  });
+
+describe('rates handler', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    jest.useFakeTimers({ now: NOW });
+    respondWith({ lastRefreshEpoch: NOW.getTime() - 2 * HOUR_MS });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rejects callers without a user', async () => {
+    const event = buildEvent('/rates', {
+      requestContext: {} as APIGatewayEvent['requestContext'],
+    });
+
+    expect((await invoke(event)).statusCode).toBe(401);
+  });
+
+  it('lists current snapshots against the base currency by default', async () => {
+    const { statusCode, body } = await invoke(buildEvent('/rates'));
+
+    expect(statusCode).toBe(200);
+    expect(body.base).toBe('EUR');
+    expect(body.stale).toBe(false);
+    expect(body.rates).toEqual([
+      expect.objectContaining({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rate: 1.25,
+        provider: 'currencyapi',
+        capturedAt: '2026-10-18T08:30:00.000Z',
+      }),
+      expect.objectContaining({ toCurrency: 'GBP', rate: 0.8 }),
+    ]);
+  });
+
+  it('derives snapshots for a non-base currency', async () => {
+    const { body } = await invoke(
+      buildEvent('/rates', { queryStringParameters: { base: 'usd' } }),
+    );
+
+    expect(body.base).toBe('USD');
+    expect(body.rates).toEqual([
+      expect.objectContaining({
+        toCurrency: 'EUR',
+        rate: 0.8,
+        derivation: { method: 'inverse', path: ['USD', 'EUR'] },
+      }),
+      expect.objectContaining({
+        toCurrency: 'GBP',
+        rate: 0.64,
+        derivation: { method: 'cross', path: ['USD', 'EUR', 'GBP'] },
+      }),
+    ]);
+  });
+
+  it('rejects an unsupported base currency', async () => {
+    const { statusCode, body } = await invoke(
+      buildEvent('/rates', { queryStringParameters: { base: 'XYZ' } }),
+    );
+
+    expect(statusCode).toBe(400);
+    expect(body.message).toBe('base must be one of EUR, USD, GBP');
+  });
+
+  it('returns the current snapshot and daily history for a pair', async () => {
+    const { statusCode, body } = await invoke(
+      buildEvent('/rates/{from}/{to}', {
+        pathParameters: { from: 'EUR', to: 'USD' },
+        queryStringParameters: { from: '2026-10-01', to: '2026-10-02' },
+      }),
+    );
+
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject({
+      fromCurrency: 'EUR',
+      toCurrency: 'USD',
+      from: '2026-10-01',
+      to: '2026-10-02',
+      current: { rate: 1.25, stale: false },
+    });
+    expect(body.history).toEqual([
+      expect.objectContaining({
+        toCurrency: 'USD',
+        rate: 1.2,
+        rateDate: '2026-10-01',
+      }),
+      expect.objectContaining({ rate: 1.21, rateDate: '2026-10-02' }),
+    ]);
+
+    const query = mockSend.mock.calls
+      .map(([command]) => command)
+      .find((command) => command instanceof QueryCommand) as QueryCommand;
+    expect(unmarshall(query.input.ExpressionAttributeValues!)).toEqual({
+      ':from': 'EUR',
+      ':start': 'USD#2026-10-01',
+      ':end': 'USD#2026-10-02',
+    });
+  });
+
+  it('defaults the history window to the last 30 days', async () => {
+    const { body } = await invoke(
+      buildEvent('/rates/{from}/{to}', {
+        pathParameters: { from: 'EUR', to: 'USD' },
+      }),
+    );
+
+    expect(body.from).toBe('2026-09-19');
+    expect(body.to).toBe('2026-10-18');
+  });
+
+  it.each([
+    [{ from: '2026-10-05', to: '2026-10-01' }, 'from must not be after to'],
+    [
+      { from: '2025-01-01', to: '2026-10-01' },
+      'history range must not exceed 366 days',
+    ],
+    [{ from: '10/01/2026' }, 'from must be a date in the format YYYY-MM-DD'],
+  ])('rejects the history range %j', async (query, message) => {
+    const { statusCode, body } = await invoke(
+      buildEvent('/rates/{from}/{to}', {
+        pathParameters: { from: 'EUR', to: 'USD' },
+        queryStringParameters: query,
+      }),
+    );
+
+    expect(statusCode).toBe(400);
+    expect(body.message).toBe(message);
+  });
+
+  it('reports when the last refresh is still fresh', async () => {
+    const lastRefreshEpoch = NOW.getTime() - 2 * HOUR_MS;
+
+    const { statusCode, body } = await invoke(buildEvent('/rates/status'));
+
+    expect(statusCode).toBe(200);
+    expect(body).toEqual({
+      lastRefreshEpoch,
+      lastRefreshAt: '2026-10-18T07:30:00.000Z',
+      lastManualRefreshEpoch: null,
+      freshUntilEpoch: lastRefreshEpoch + 24 * HOUR_MS,
+      stale: false,
+    });
+  });
+
+  it('flags stale rates when no refresh landed in the freshness window', async () => {
+    respondWith({ lastRefreshEpoch: NOW.getTime() - 30 * HOUR_MS });
+    expect((await invoke(buildEvent('/rates/status'))).body.stale).toBe(true);
+
+    respondWith(null);
+    expect((await invoke(buildEvent('/rates/status'))).body).toMatchObject({
+      lastRefreshEpoch: null,
+      stale: true,
+    });
+  });
+});
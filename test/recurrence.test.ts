@@ -1,8 +1,10 @@
 import {
+  RecurrenceRuleError,
   advanceOccurrencePointer,
   buildInitialNextOccurrence,
   computeNextOccurrence,
   getNextOccurrence,
+  getRuleEndDate,
   getStatusForOccurrence,
   isDueInUserTimezone,
   normalizeRecurringRule,
@@ -69,6 +71,110 @@ describe('recurrence utilities', () => {
   });
 });
 
+describe('extended recurrence rules', () => {
+  const makeRule = (overrides: Partial<RecurringRule>) =>
+    ({
+      frequency: 'monthly',
+      startDate: '2026-01-01',
+      ...overrides,
+    }) as RecurringRule;
+
+  it('steps daily, quarterly and yearly rules', () => {
+    expect(
+      getNextOccurrence(
+        makeRule({ frequency: 'daily', interval: 3 }),
+        '2026-01-30',
+      ),
+    ).toBe('2026-02-02');
+    const quarterly = normalizeRecurringRule(
+      makeRule({ frequency: 'quarterly', startDate: '2026-01-31' }),
+    );
+    expect(getNextOccurrence(quarterly, '2026-01-31')).toBe('2026-04-30');
+    expect(getNextOccurrence(quarterly, '2026-04-30')).toBe('2026-07-31');
+    const yearly = normalizeRecurringRule(
+      makeRule({ frequency: 'yearly', startDate: '2028-02-29' }),
+    );
+    expect(getNextOccurrence(yearly, '2028-02-29')).toBe('2029-02-28');
+  });
+
+  it('follows the nth weekday of the month', () => {
+    // Second Tuesday.
+    const rule = makeRule({ weekday: 2, weekOfMonth: 2 });
+    expect(buildInitialNextOccurrence(rule)).toBe('2026-01-13');
+    expect(getNextOccurrence(rule, '2026-01-13')).toBe('2026-02-10');
+    expect(normalizeRecurringRule(rule).dayOfMonth).toBeUndefined();
+
+    // Last Friday.
+    const last = makeRule({ weekday: 5, weekOfMonth: -1 });
+    expect(getNextOccurrence(last, '2026-01-30')).toBe('2026-02-27');
+  });
+
+  it('skips an anchor that falls before the start date', () => {
+    const rule = makeRule({
+      startDate: '2026-01-20',
+      weekday: 2,
+      weekOfMonth: 2,
+    });
+    expect(buildInitialNextOccurrence(rule)).toBe('2026-02-10');
+  });
+
+  it('lands on the last business day of the month', () => {
+    const rule = makeRule({ lastBusinessDay: true });
+    // 2026-01-31 is a Saturday; 2026-05-31 is a Sunday.
+    expect(buildInitialNextOccurrence(rule)).toBe('2026-01-30');
+    expect(getNextOccurrence(rule, '2026-04-30')).toBe('2026-05-29');
+  });
+
+  it('ends after count occurrences or endDate, whichever is first', () => {
+    const rule = makeRule({ frequency: 'weekly', count: 3 });
+    expect(getRuleEndDate(rule)).toBe('2026-01-15');
+    expect(getRuleEndDate({ ...rule, endDate: '2026-01-10' })).toBe(
+      '2026-01-10',
+    );
+    expect(getRuleEndDate(makeRule({ endDate: '2026-06-01' }))).toBe(
+      '2026-06-01',
+    );
+  });
+
+  it('rejects invalid extended rules', () => {
+    expect(() =>
+      validateRecurringRule(makeRule({ frequency: 'hourly' as never })),
+    ).toThrow('Unsupported recurrence frequency');
+    expect(() => validateRecurringRule(makeRule({ count: 0 }))).toThrow(
+      'recurrence count must be a positive integer',
+    );
+    expect(() => validateRecurringRule(makeRule({ count: 1e9 }))).toThrow(
+      new RecurrenceRuleError(
+        'recurrence count must be a positive integer of at most 1000',
+      ),
+    );
+    expect(() =>
+      validateRecurringRule(
+        makeRule({ frequency: 'weekly', lastBusinessDay: true }),
+      ),
+    ).toThrow('need a monthly, quarterly or yearly frequency');
+    expect(() => validateRecurringRule(makeRule({ weekday: 2 }))).toThrow(
+      'recurrence weekday and weekOfMonth must be set together',
+    );
+    expect(() =>
+      validateRecurringRule(makeRule({ weekday: 7, weekOfMonth: 1 })),
+    ).toThrow('recurrence weekday must be between 0 (Sunday) and 6');
+    expect(() =>
+      validateRecurringRule(makeRule({ weekday: 1, weekOfMonth: 5 })),
+    ).toThrow('recurrence weekOfMonth must be 1-4, or -1 for the last one');
+    expect(() =>
+      validateRecurringRule(
+        makeRule({ dayOfMonth: 10, weekday: 1, weekOfMonth: 1 }),
+      ),
+    ).toThrow('cannot be combined');
+    expect(() =>
+      validateRecurringRule(
+        makeRule({ frequency: 'yearly', weekday: 1, weekOfMonth: -1 }),
+      ),
+    ).not.toThrow();
+  });
+});
+
 describe('timezone-aware recurrence helpers', () => {
   const makeRule = (overrides: Partial<RecurringRule>) =>
     ({
@@ -0,0 +1,365 @@
+/* eslint-disable max-lines */
+process.env.TRANSACTIONS_TABLE_NAME = 'test-transactions';
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+process.env.RECURRING_TRANSACTIONS_TABLE_NAME = 'test-recurring';
+process.env.USER_TABLE_NAME = 'test-users';
+process.env.RECURRING_BACKFILL_ALLOWED_GROUP = 'recurring-admins';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import {
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { APIGatewayEvent } from 'aws-lambda';
+import { handler as backfillHandler } from '../lambdas/recurring-backfill/handler';
+import type { RecurringTransaction } from '../types/budget';
+import {
+  MAX_BACKFILL_OCCURRENCES,
+  backfillRecurring,
+  decodeBackfillCursor,
+  materializeDueForUser,
+  selectCatchUpOccurrences,
+} from '../utils/recurring';
+
+const makeRecurring = (
+  overrides: Partial<RecurringTransaction> = {},
+): RecurringTransaction =>
+  ({
+    id: 'rec-1',
+    description: 'Phone',
+    amount: 20,
+    currency: 'EUR',
+    baseAmount: 20,
+    baseCurrency: 'EUR',
+    category: 'cat-1',
+    type: 'expense',
+    rule: { frequency: 'monthly', startDate: '2026-01-01', dayOfMonth: 1 },
+    nextOccurrence: '2026-05-01',
+    status: 'active',
+    userId: 'user-1',
+    ...overrides,
+  }) as RecurringTransaction;
+
+const respondWith = (
+  recurring: RecurringTransaction,
+  existingIds: string[] = [],
+) =>
+  mockSend.mockImplementation(async (command) => {
+    if (command instanceof QueryCommand) {
+      return command.input.IndexName === 'userId-nextOccurrence-index'
+        ? { Items: [marshall(recurring)] }
+        : { Items: [] };
+    }
+    if (
+      command instanceof GetItemCommand &&
+      command.input.TableName === 'test-transactions'
+    ) {
+      const { id } = unmarshall(command.input.Key!);
+      return existingIds.includes(id) ? { Item: marshall({ id }) } : {};
+    }
+    return {};
+  });
+
+const putsTo = (table: string) =>
+  mockSend.mock.calls
+    .map(([command]) => command)
+    .filter(
+      (command) =>
+        command instanceof PutItemCommand && command.input.TableName === table,
+    )
+    .map((command: PutItemCommand) => unmarshall(command.input.Item!));
+
+describe('selectCatchUpOccurrences', () => {
+  const due = ['2026-05-01', '2026-06-01', '2026-07-01'];
+
+  it('books every due occurrence by default', () => {
+    expect(selectCatchUpOccurrences(due, undefined, '2026-07-01')).toEqual({
+      skip: [],
+      materialize: due,
+    });
+  });
+
+  it('books only the most recent one for latest', () => {
+    expect(selectCatchUpOccurrences(due, 'latest', '2026-07-15')).toEqual({
+      skip: ['2026-05-01', '2026-06-01'],
+      materialize: ['2026-07-01'],
+    });
+  });
+
+  it('books only today for none', () => {
+    expect(selectCatchUpOccurrences(due, 'none', '2026-07-01')).toEqual({
+      skip: ['2026-05-01', '2026-06-01'],
+      materialize: ['2026-07-01'],
+    });
+    expect(
+      selectCatchUpOccurrences(due, 'none', '2026-07-02').materialize,
+    ).toEqual([]);
+  });
+});
+
+describe('materializer catch-up policy', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    jest.useFakeTimers({ now: new Date('2026-07-15T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('jumps past missed occurrences before booking the latest', async () => {
+    respondWith(makeRecurring({ catchUp: 'latest' }));
+
+    const summary = await materializeDueForUser('user-1');
+
+    expect(summary).toEqual(
+      expect.objectContaining({ created: 1, skipped: 2, failures: 0 }),
+    );
+    expect(putsTo('test-transactions').map(({ id }) => id)).toEqual([
+      'rec-1-2026-07-01',
+    ]);
+    expect(
+      putsTo('test-recurring').map(({ nextOccurrence }) => nextOccurrence),
+    ).toEqual(['2026-07-01', '2026-08-01']);
+  });
+
+  it('books nothing missed for none', async () => {
+    respondWith(makeRecurring({ catchUp: 'none' }));
+
+    const summary = await materializeDueForUser('user-1');
+
+    expect(summary).toEqual(
+      expect.objectContaining({ created: 0, skipped: 3 }),
+    );
+    expect(putsTo('test-transactions')).toHaveLength(0);
+    expect(putsTo('test-recurring')[0].nextOccurrence).toBe('2026-08-01');
+  });
+});
+
+describe('backfillRecurring', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('reports passed occurrences in the range without writing on dry run', async () => {
+    respondWith(
+      makeRecurring({
+        nextOccurrence: '2026-07-01',
+        overrides: { '2026-05-01': { skip: true } },
+      }),
+      ['rec-1-2026-04-01'],
+    );
+
+    const report = await backfillRecurring({
+      userId: 'user-1',
+      from: '2026-03-01',
+      to: '2026-12-31',
+      dryRun: true,
+    });
+
+    expect(report).toEqual(
+      expect.objectContaining({
+        processed: 1,
+        created: 2,
+        skipped: 2,
+        failures: 0,
+        dryRun: true,
+      }),
+    );
+    expect(
+      report.occurrences.map(({ date, result }) => [date, result]),
+    ).toEqual([
+      ['2026-03-01', 'wouldCreate'],
+      ['2026-04-01', 'exists'],
+      ['2026-05-01', 'skipped'],
+      ['2026-06-01', 'wouldCreate'],
+    ]);
+    expect(putsTo('test-transactions')).toHaveLength(0);
+  });
+
+  it('books missing occurrences without moving the pointer', async () => {
+    respondWith(makeRecurring({ nextOccurrence: '2026-07-01' }));
+
+    const report = await backfillRecurring({
+      userId: 'user-1',
+      from: '2026-06-01',
+      to: '2026-06-30',
+      dryRun: false,
+    });
+
+    expect(report.created).toBe(1);
+    expect(putsTo('test-transactions').map(({ id }) => id)).toEqual([
+      'rec-1-2026-06-01',
+    ]);
+    expect(putsTo('test-recurring')).toHaveLength(0);
+  });
+
+  it('still honours a skip after the pointer passed and pruned it', async () => {
+    let stored = makeRecurring({
+      rule: {
+        frequency: 'monthly',
+        startDate: '2026-01-01',
+        dayOfMonth: 1,
+        endDate: '2026-05-31',
+      },
+      overrides: { '2026-05-01': { skip: true } },
+    });
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof QueryCommand) {
+        return command.input.IndexName === 'userId-nextOccurrence-index'
+          ? { Items: [marshall(stored)] }
+          : { Items: [] };
+      }
+      if (
+        command instanceof PutItemCommand &&
+        command.input.TableName === 'test-recurring'
+      ) {
+        stored = unmarshall(command.input.Item!) as RecurringTransaction;
+      }
+      return {};
+    });
+
+    await materializeDueForUser('user-1');
+    expect(stored.overrides).toBeUndefined();
+    expect(stored.skippedOccurrences).toEqual(['2026-05-01']);
+
+    const report = await backfillRecurring({
+      userId: 'user-1',
+      from: '2026-05-01',
+      to: '2026-05-31',
+      dryRun: false,
+    });
+
+    expect(report.occurrences).toEqual([
+      { recurrenceId: 'rec-1', date: '2026-05-01', result: 'skipped' },
+    ]);
+    expect(putsTo('test-transactions')).toHaveLength(0);
+  });
+
+  it('starts at the day the rule was created', async () => {
+    respondWith(
+      makeRecurring({
+        nextOccurrence: '2026-07-01',
+        createdAt: '2026-04-15T10:00:00.000Z',
+      }),
+    );
+
+    const report = await backfillRecurring({
+      userId: 'user-1',
+      from: '2026-01-01',
+      to: '2026-12-31',
+      dryRun: true,
+    });
+
+    expect(report.occurrences.map(({ date }) => date)).toEqual([
+      '2026-05-01',
+      '2026-06-01',
+    ]);
+  });
+
+  it('stops at the per-call limit and resumes from the cursor', async () => {
+    respondWith(
+      makeRecurring({
+        rule: { frequency: 'daily', startDate: '2026-01-01' },
+        nextOccurrence: '2026-07-01',
+      }),
+    );
+    const request = {
+      userId: 'user-1',
+      from: '2026-01-01',
+      to: '2026-12-31',
+      dryRun: true,
+    };
+
+    const first = await backfillRecurring(request);
+    expect(first.occurrences).toHaveLength(MAX_BACKFILL_OCCURRENCES);
+    expect(decodeBackfillCursor(first.nextCursor!)).toEqual({
+      recurrenceId: 'rec-1',
+      date: '2026-04-11',
+    });
+
+    const second = await backfillRecurring({
+      ...request,
+      cursor: decodeBackfillCursor(first.nextCursor!),
+    });
+    expect(second.occurrences[0].date).toBe('2026-04-11');
+    expect(second.occurrences).toHaveLength(81);
+    expect(second.nextCursor).toBeUndefined();
+  });
+});
+
+describe('recurring backfill handler', () => {
+  const buildEvent = (groups: string | undefined, body: unknown) =>
+    ({
+      headers: {},
+      body: JSON.stringify(body),
+      requestContext: {
+        authorizer: { claims: { sub: 'admin-1', 'cognito:groups': groups } },
+      },
+    }) as unknown as APIGatewayEvent;
+
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('is limited to the recurring admin group', async () => {
+    const response = await backfillHandler(
+      buildEvent('rates-admins', {}),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(403);
+  });
+
+  it('validates the requested range', async () => {
+    const response = await backfillHandler(
+      buildEvent('recurring-admins', {
+        userId: 'user-1',
+        from: '2025-01-01',
+        to: '2026-06-30',
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(JSON.parse(response?.body ?? '{}').message).toBe(
+      'backfill range cannot exceed 366 days',
+    );
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed cursor', async () => {
+    const response = await backfillHandler(
+      buildEvent('recurring-admins', {
+        userId: 'user-1',
+        from: '2026-01-01',
+        to: '2026-06-30',
+        cursor: 'not-a-cursor',
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(JSON.parse(response?.body ?? '{}').message).toBe('Invalid cursor');
+  });
+});
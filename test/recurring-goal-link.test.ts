@@ -0,0 +1,207 @@
+process.env.TRANSACTIONS_TABLE_NAME = 'test-transactions';
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+process.env.RECURRING_TRANSACTIONS_TABLE_NAME = 'test-recurring';
+process.env.USER_TABLE_NAME = 'test-users';
+process.env.GOALS_TABLE_NAME = 'test-goals';
+process.env.GOAL_CONTRIBUTIONS_TABLE_NAME = 'test-goal-contributions';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import {
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  TransactWriteItemsCommand,
+  TransactionCanceledException,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { RecurringTransaction } from '../types/budget';
+import {
+  backfillRecurring,
+  buildMaterializedContribution,
+  materializeDueForUser,
+} from '../utils/recurring';
+
+const makeRecurring = (
+  overrides: Partial<RecurringTransaction> = {},
+): RecurringTransaction =>
+  ({
+    id: 'rec-1',
+    description: 'Test sub',
+    amount: 100,
+    currency: 'EUR',
+    baseAmount: 100,
+    baseCurrency: 'EUR',
+    category: 'cat-1',
+    type: 'expense',
+    rule: { frequency: 'monthly', startDate: '2026-01-01' },
+    nextOccurrence: '2026-05-01',
+    status: 'active',
+    userId: 'user-1',
+    ...overrides,
+  }) as RecurringTransaction;
+
+describe('goal-linked recurring', () => {
+  const linked = () =>
+    makeRecurring({
+      goalId: 'goal-1',
+      rule: {
+        frequency: 'monthly',
+        startDate: '2026-01-01',
+        endDate: '2026-05-31',
+      },
+    });
+
+  const respondByCommand = (onTransactWrite: () => Promise<unknown>) =>
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof TransactWriteItemsCommand) {
+        return onTransactWrite();
+      }
+      if (command instanceof QueryCommand) {
+        return command.input.IndexName === 'userId-nextOccurrence-index'
+          ? { Items: [marshall(linked())] }
+          : { Items: [marshall({ id: 'cat-1' })] };
+      }
+      return {};
+    });
+
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('keys the deposit by the recurrence instance', () => {
+    const contribution = buildMaterializedContribution(
+      { ...linked(), goalId: 'goal-1' },
+      '2026-05-01',
+    );
+
+    expect(contribution).toEqual(
+      expect.objectContaining({
+        goalId: 'goal-1',
+        id: 'rec-1-2026-05-01',
+        dateKey: '2026-05-01#rec-1-2026-05-01',
+        recurrenceInstanceId: 'rec-1-2026-05-01',
+        type: 'deposit',
+        baseAmount: 100,
+      }),
+    );
+  });
+
+  it('deposits the occurrence into the goal with the transaction', async () => {
+    respondByCommand(async () => ({}));
+
+    const summary = await materializeDueForUser('user-1');
+
+    expect(summary).toEqual(
+      expect.objectContaining({ created: 1, failures: 0 }),
+    );
+    const write = mockSend.mock.calls
+      .map(([command]) => command)
+      .find(
+        (command) => command instanceof TransactWriteItemsCommand,
+      ) as TransactWriteItemsCommand;
+    const [put, update] = write.input.TransactItems ?? [];
+    expect(put.Put!.ConditionExpression).toBe('attribute_not_exists(goalId)');
+    expect(put.Put!.Item!.dateKey).toEqual({
+      S: '2026-05-01#rec-1-2026-05-01',
+    });
+    expect(update.Update!.Key).toEqual({ id: { S: 'goal-1' } });
+    expect(update.Update!.UpdateExpression).toBe('ADD #current :delta');
+  });
+
+  it('treats an already recorded deposit as done', async () => {
+    respondByCommand(async () => {
+      throw new TransactionCanceledException({
+        message: 'cancelled',
+        $metadata: {},
+        CancellationReasons: [
+          { Code: 'ConditionalCheckFailed' },
+          { Code: 'None' },
+        ],
+      });
+    });
+
+    const summary = await materializeDueForUser('user-1');
+
+    expect(summary).toEqual(
+      expect.objectContaining({ created: 1, failures: 0 }),
+    );
+  });
+
+  it('keeps a moved occurrence to one deposit after its override is pruned', async () => {
+    let stored: RecurringTransaction = {
+      ...linked(),
+      overrides: { '2026-05-01': { date: '2026-05-03' } },
+    };
+    const transactionIds = new Set<string>();
+    const deposits = new Map<string, Record<string, unknown>>();
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof QueryCommand) {
+        return command.input.IndexName === 'userId-nextOccurrence-index'
+          ? { Items: [marshall(stored)] }
+          : { Items: [marshall({ id: 'cat-1' })] };
+      }
+      if (command instanceof GetItemCommand) {
+        const { id } = unmarshall(command.input.Key!);
+        return command.input.TableName === 'test-transactions' &&
+          transactionIds.has(id)
+          ? { Item: marshall({ id }) }
+          : {};
+      }
+      if (command instanceof PutItemCommand) {
+        const item = unmarshall(command.input.Item!);
+        if (command.input.TableName === 'test-recurring') {
+          stored = item as RecurringTransaction;
+        } else if (command.input.TableName === 'test-transactions') {
+          transactionIds.add(item.id);
+        }
+        return {};
+      }
+      if (command instanceof TransactWriteItemsCommand) {
+        const deposit = unmarshall(command.input.TransactItems![0].Put!.Item!);
+        if (deposits.has(deposit.dateKey)) {
+          throw new TransactionCanceledException({
+            message: 'cancelled',
+            $metadata: {},
+            CancellationReasons: [
+              { Code: 'ConditionalCheckFailed' },
+              { Code: 'None' },
+            ],
+          });
+        }
+        deposits.set(deposit.dateKey, deposit);
+      }
+      return {};
+    });
+
+    await materializeDueForUser('user-1');
+    expect(stored.overrides).toBeUndefined();
+    await backfillRecurring({
+      userId: 'user-1',
+      from: '2026-05-01',
+      to: '2026-05-31',
+      dryRun: false,
+    });
+
+    expect([...deposits.values()]).toEqual([
+      expect.objectContaining({
+        dateKey: '2026-05-01#rec-1-2026-05-01',
+        date: '2026-05-03',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+process.env.TRANSACTIONS_TABLE_NAME = 'test-transactions';
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+process.env.RECURRING_TRANSACTIONS_TABLE_NAME = 'test-recurring';
+process.env.USER_TABLE_NAME = 'test-users';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import { PutItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { validateOccurrenceOverrides } from '../lambdas/recurring-transactions/helpers';
+import type { RecurringTransaction } from '../types/budget';
+import {
+  buildMaterializedTransaction,
+  materializeDueForUser,
+  pruneOccurrenceOverrides,
+} from '../utils/recurring';
+
+const RULE = {
+  frequency: 'monthly',
+  startDate: '2026-01-01',
+  dayOfMonth: 1,
+} as const;
+
+const makeRecurring = (
+  overrides: Partial<RecurringTransaction> = {},
+): RecurringTransaction =>
+  ({
+    id: 'rec-1',
+    description: 'Gym',
+    amount: 100,
+    currency: 'EUR',
+    baseAmount: 100,
+    baseCurrency: 'EUR',
+    originalAmount: 100,
+    originalCurrency: 'EUR',
+    category: 'cat-1',
+    type: 'expense',
+    rule: { ...RULE, endDate: '2026-05-31' },
+    nextOccurrence: '2026-05-01',
+    status: 'active',
+    userId: 'user-1',
+    ...overrides,
+  }) as RecurringTransaction;
+
+const respondWith = (recurring: RecurringTransaction) =>
+  mockSend.mockImplementation(async (command) => {
+    if (command instanceof QueryCommand) {
+      return command.input.IndexName === 'userId-nextOccurrence-index'
+        ? { Items: [marshall(recurring)] }
+        : { Items: [marshall({ id: 'cat-1' })] };
+    }
+    return {};
+  });
+
+const putsTo = (table: string) =>
+  mockSend.mock.calls
+    .map(([command]) => command)
+    .filter(
+      (command) =>
+        command instanceof PutItemCommand && command.input.TableName === table,
+    ) as PutItemCommand[];
+
+describe('buildMaterializedTransaction with overrides', () => {
+  it('books a moved occurrence with its one-off amount', () => {
+    const txn = buildMaterializedTransaction(
+      makeRecurring({
+        overrides: {
+          '2026-05-01': {
+            date: '2026-05-04',
+            amount: 130,
+            baseAmount: 120,
+          },
+        },
+      }),
+      '2026-05-01',
+    );
+
+    expect(txn).toEqual(
+      expect.objectContaining({
+        id: 'rec-1-2026-05-01',
+        date: 'May 4, 2026',
+        dateKey: '2026-05-04#rec-1-2026-05-01',
+        recurrenceInstanceDate: '2026-05-01',
+        amount: 120,
+        baseAmount: 120,
+        originalAmount: 130,
+      }),
+    );
+  });
+});
+
+describe('materializer overrides', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('skips an occurrence and drops the used override', async () => {
+    respondWith(makeRecurring({ overrides: { '2026-05-01': { skip: true } } }));
+
+    const summary = await materializeDueForUser('user-1');
+
+    expect(summary).toEqual(
+      expect.objectContaining({ created: 0, skipped: 1, failures: 0 }),
+    );
+    expect(putsTo('test-transactions')).toHaveLength(0);
+    const [pointer] = putsTo('test-recurring');
+    const stored = unmarshall(pointer.input.Item!);
+    expect(stored.nextOccurrence).toBe('2026-06-01');
+    expect(stored.status).toBe('completed');
+    expect(stored.overrides).toBeUndefined();
+  });
+
+  it('waits for the date a moved occurrence was booked on', async () => {
+    jest.useFakeTimers({ now: new Date('2026-05-02T12:00:00Z') });
+    respondWith(
+      makeRecurring({
+        overrides: { '2026-05-01': { date: '2026-05-10' } },
+      }),
+    );
+
+    const summary = await materializeDueForUser('user-1');
+
+    expect(summary).toEqual(
+      expect.objectContaining({ created: 0, skipped: 0 }),
+    );
+    expect(putsTo('test-transactions')).toHaveLength(0);
+  });
+});
+
+describe('occurrence override helpers', () => {
+  it('keeps only upcoming occurrences of the rule', () => {
+    expect(
+      pruneOccurrenceOverrides(
+        {
+          '2026-04-01': { skip: true },
+          '2026-05-15': { skip: true },
+          '2026-06-01': { amount: 10, baseAmount: 10 },
+        },
+        RULE,
+        '2026-05-01',
+      ),
+    ).toEqual({ '2026-06-01': { amount: 10, baseAmount: 10 } });
+  });
+
+  it('rejects overrides the rule cannot apply', () => {
+    const check = (overrides: unknown) =>
+      validateOccurrenceOverrides(overrides, RULE, '2026-05-01');
+
+    expect(check({ '2026-06-01': { skip: true } })).toBeUndefined();
+    expect(check(['2026-06-01'])).toBe(
+      'overrides must be an object keyed by occurrence date',
+    );
+    expect(check({ '2026-06-02': { skip: true } })).toBe(
+      '2026-06-02 is not an upcoming occurrence of this rule',
+    );
+    expect(check({ '2026-04-01': { skip: true } })).toBe(
+      '2026-04-01 is not an upcoming occurrence of this rule',
+    );
+    expect(check({ '2026-06-01': { skip: true, amount: 5 } })).toBe(
+      'override for 2026-06-01 cannot combine skip with date or amount',
+    );
+    expect(check({ '2026-06-01': { date: '2026-07-01' } })).toBe(
+      'override for 2026-06-01 must move to a date after 2026-05-01 and before 2026-07-01',
+    );
+    expect(check({ '2026-06-01': { amount: -5 } })).toBe(
+      'override for 2026-06-01 needs a positive amount',
+    );
+  });
+});
@@ -0,0 +1,215 @@
+process.env.TABLE_NAME = 'test-recurring';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+jest.mock('../utils', () => ({
+  BASE_CURRENCY_CODE: 'EUR',
+  RecurrenceRuleError: jest.requireActual('../utils/recurring/recurrence')
+    .RecurrenceRuleError,
+  buildResponse: jest.requireActual('../utils/build-response').default,
+  computeNextOccurrence: jest.requireActual('../utils/recurring/recurrence')
+    .computeNextOccurrence,
+  convertFromBaseCurrency: jest.fn(
+    async (amount: number, currency: string) => ({
+      amount,
+      snapshot: {
+        fromCurrency: 'EUR',
+        toCurrency: currency,
+        rate: 1,
+        provider: 'test',
+        capturedAt: '2026-01-01T00:00:00.000Z',
+      },
+    }),
+  ),
+  convertToBaseCurrency: jest.fn(async (amount: number, currency: string) => ({
+    baseAmount: amount,
+    snapshot: {
+      fromCurrency: currency,
+      toCurrency: 'EUR',
+      rate: 1,
+      provider: 'test',
+      capturedAt: '2026-01-01T00:00:00.000Z',
+    },
+  })),
+  createRateContext: jest.fn(() => ({ source: 'test' })),
+  getNextOccurrence: jest.requireActual('../utils/recurring/recurrence')
+    .getNextOccurrence,
+  getOccurrenceOverride: jest.requireActual('../utils/recurring/overrides')
+    .getOccurrenceOverride,
+  getRuleEndDate: jest.requireActual('../utils/recurring/recurrence')
+    .getRuleEndDate,
+  getStatusForOccurrence: jest.requireActual('../utils/recurring/recurrence')
+    .getStatusForOccurrence,
+  getUserPreferredCurrency: jest.fn(async () => 'EUR'),
+  normalizeCurrencyCode: jest.fn((currency: string) => currency),
+  normalizeRecurringRule: jest.requireActual('../utils/recurring/recurrence')
+    .normalizeRecurringRule,
+  toCurrencyNumber: jest.fn((value: unknown) => Number(value)),
+  validateRecurringRule: jest.requireActual('../utils/recurring/recurrence')
+    .validateRecurringRule,
+}));
+
+import { PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import type { APIGatewayEvent } from 'aws-lambda';
+import { handler } from '../lambdas/recurring-transactions/handler';
+import type { RecurringTransaction } from '../types/budget';
+
+const buildEvent = (
+  overrides: Partial<APIGatewayEvent> = {},
+): APIGatewayEvent =>
+  ({
+    body: null,
+    headers: {},
+    httpMethod: 'GET',
+    isBase64Encoded: false,
+    path: '/recurring-transactions/rec-1/preview',
+    pathParameters: { id: 'rec-1' },
+    queryStringParameters: null,
+    requestContext: { authorizer: { claims: { sub: 'user-1' } } },
+    resource: '/recurring-transactions/{id}/preview',
+    ...overrides,
+  }) as unknown as APIGatewayEvent;
+
+const makeRecurring = (
+  overrides: Partial<RecurringTransaction> = {},
+): RecurringTransaction =>
+  ({
+    id: 'rec-1',
+    description: 'Rent',
+    amount: 500,
+    currency: 'EUR',
+    baseAmount: 500,
+    baseCurrency: 'EUR',
+    category: 'cat-1',
+    type: 'expense',
+    rule: { frequency: 'monthly', startDate: '2026-01-31', dayOfMonth: 31 },
+    nextOccurrence: '2026-01-31',
+    status: 'active',
+    userId: 'user-1',
+    ...overrides,
+  }) as RecurringTransaction;
+
+const call = async (event: APIGatewayEvent) => {
+  const response = await handler(event, {} as never, () => undefined);
+  return {
+    statusCode: response?.statusCode,
+    body: JSON.parse(response?.body ?? '{}'),
+  };
+};
+
+describe('recurring-transactions preview', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('lists the next occurrences and flags month-end clamping', async () => {
+    mockSend.mockResolvedValueOnce({ Item: marshall(makeRecurring()) });
+
+    const { statusCode, body } = await call(
+      buildEvent({ queryStringParameters: { count: '3' } }),
+    );
+
+    expect(statusCode).toBe(200);
+    expect(body).toEqual({
+      id: 'rec-1',
+      status: 'active',
+      occurrences: [
+        { date: '2026-01-31', amount: 500, currency: 'EUR', baseAmount: 500 },
+        {
+          date: '2026-02-28',
+          amount: 500,
+          currency: 'EUR',
+          baseAmount: 500,
+          clamped: true,
+        },
+        { date: '2026-03-31', amount: 500, currency: 'EUR', baseAmount: 500 },
+      ],
+    });
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops at the rule count', async () => {
+    mockSend.mockResolvedValueOnce({
+      Item: marshall(
+        makeRecurring({
+          rule: {
+            frequency: 'monthly',
+            startDate: '2026-01-31',
+            dayOfMonth: 31,
+            count: 2,
+          },
+        }),
+      ),
+    });
+
+    const { body } = await call(buildEvent());
+
+    expect(body.occurrences.map(({ date }: { date: string }) => date)).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+    ]);
+  });
+
+  it('rejects an out of range count', async () => {
+    const { statusCode, body } = await call(
+      buildEvent({ queryStringParameters: { count: '0' } }),
+    );
+
+    expect(statusCode).toBe(400);
+    expect(body.message).toBe('count must be an integer between 1 and 60');
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it("forbids previewing another user's rule", async () => {
+    mockSend.mockResolvedValueOnce({
+      Item: marshall(makeRecurring({ userId: 'user-2' })),
+    });
+
+    const { statusCode } = await call(buildEvent());
+
+    expect(statusCode).toBe(403);
+  });
+
+  it('previews a new rule on POST without saving it', async () => {
+    const { statusCode, body } = await call(
+      buildEvent({
+        httpMethod: 'POST',
+        path: '/recurring-transactions',
+        pathParameters: null,
+        resource: '/recurring-transactions',
+        queryStringParameters: { dryRun: 'true', count: '2' },
+        body: JSON.stringify({
+          description: 'Rent',
+          amount: 500,
+          currency: 'EUR',
+          category: 'cat-1',
+          type: 'expense',
+          rule: { frequency: 'monthly', startDate: '2027-01-31' },
+        }),
+      }),
+    );
+
+    expect(statusCode).toBe(200);
+    expect(body.nextOccurrence).toBe('2027-01-31');
+    expect(body.occurrences.map(({ date }: { date: string }) => date)).toEqual([
+      '2027-01-31',
+      '2027-02-28',
+    ]);
+    expect(mockSend).not.toHaveBeenCalledWith(expect.any(PutItemCommand));
+  });
+});
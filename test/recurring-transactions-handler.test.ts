@@ -18,6 +18,8 @@ jest.mock('@aws-sdk/client-dynamodb', () => {
 
 jest.mock('../utils', () => ({
   BASE_CURRENCY_CODE: 'EUR',
+  RecurrenceRuleError: jest.requireActual('../utils/recurring/recurrence')
+    .RecurrenceRuleError,
   buildResponse: jest.requireActual('../utils/build-response').default,
   computeNextOccurrence: jest.requireActual('../utils/recurring/recurrence')
     .computeNextOccurrence,
@@ -44,6 +46,8 @@ jest.mock('../utils', () => ({
     },
   })),
   createRateContext: jest.fn(() => ({ source: 'test' })),
+  getRuleEndDate: jest.requireActual('../utils/recurring/recurrence')
+    .getRuleEndDate,
   getStatusForOccurrence: jest.requireActual('../utils/recurring/recurrence')
     .getStatusForOccurrence,
   getUserPreferredCurrency: jest.fn(async () => 'EUR'),
@@ -216,3 +220,33 @@ describe('recurring-transactions handler GET list', () => {
     ]);
   });
 });
+
+describe('recurring-transactions handler validation', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+  });
+
+  it('rejects a rule whose count is above the limit', async () => {
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        body: JSON.stringify({
+          description: 'Gym',
+          amount: 30,
+          currency: 'EUR',
+          category: 'cat-1',
+          type: 'expense',
+          rule: { frequency: 'daily', startDate: '2026-01-01', count: 1e9 },
+        }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(JSON.parse(response?.body ?? '{}')).toEqual({
+      message: 'recurrence count must be a positive integer of at most 1000',
+    });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
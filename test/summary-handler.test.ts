@@ -0,0 +1,262 @@
+process.env.TRANSACTIONS_TABLE_NAME = 'test-transactions';
+process.env.CATEGORIES_TABLE_NAME = 'test-categories';
+
+let mockSend: jest.Mock;
+let mockPreferredCurrency: string;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+jest.mock('../utils', () => ({
+  allocateTransactionAmount: jest.requireActual('../utils/transaction-splits')
+    .allocateTransactionAmount,
+  BASE_CURRENCY_CODE: 'EUR',
+  buildResponse: jest.requireActual('../utils/build-response').default,
+  computeCategoryRollover: jest.requireActual('../utils/category-rollover')
+    .computeCategoryRollover,
+  convertFromBaseCurrency: jest.fn(
+    async (amount: number, currency: string) => ({
+      amount: amount * 2,
+      snapshot: {
+        fromCurrency: 'EUR',
+        toCurrency: currency,
+        rate: 2,
+        provider: 'test',
+        capturedAt: '2026-01-01T00:00:00.000Z',
+      },
+    }),
+  ),
+  createRateContext: jest.fn(() => ({ source: 'test' })),
+  getUserPreferredCurrency: jest.fn(async () => mockPreferredCurrency),
+  toCurrencyNumber: jest.fn((value: unknown) => Number(value)),
+}));
+
+import { QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import type { APIGatewayEvent } from 'aws-lambda';
+import { handler } from '../lambdas/summary/handler';
+
+const buildEvent = (
+  queryStringParameters: Record<string, string> | null = null,
+): APIGatewayEvent =>
+  ({
+    body: null,
+    headers: {},
+    httpMethod: 'GET',
+    isBase64Encoded: false,
+    multiValueHeaders: {},
+    multiValueQueryStringParameters: null,
+    path: '/summary',
+    pathParameters: null,
+    queryStringParameters,
+    requestContext: {
+      authorizer: { claims: { sub: 'user-1' } },
+    },
+    resource: '/summary',
+    stageVariables: null,
+  }) as unknown as APIGatewayEvent;
+
+const transactions = [
+  { id: 't1', type: 'income', category: 'Salary', baseAmount: 3000 },
+  { id: 't2', type: 'expense', category: 'cat-food', baseAmount: 120.5 },
+  { id: 't3', type: 'expense', category: 'Food', baseAmount: 30 },
+  { id: 't4', type: 'expense', category: 'Unknown', baseAmount: 10 },
+].map((txn) => ({ ...txn, userId: 'user-1' }));
+
+const categories = [
+  {
+    id: 'cat-food',
+    name: 'Food',
+    color: '#fff',
+    type: 'expense',
+    userId: 'user-1',
+    monthlyData: {
+      '2026-05': { limit: 200, spent: 0, baseLimit: 200, baseSpent: 0 },
+    },
+  },
+  {
+    id: 'cat-salary',
+    name: 'Salary',
+    color: '#000',
+    type: 'income',
+    userId: 'user-1',
+    monthlyData: {},
+  },
+];
+
+const mockLedger = () => {
+  mockSend.mockImplementation(async (command: QueryCommand) =>
+    command.input.TableName === 'test-transactions'
+      ? { Items: transactions.map((txn) => marshall(txn)) }
+      : { Items: categories.map((category) => marshall(category)) },
+  );
+};
+
+describe('summary handler', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockPreferredCurrency = 'EUR';
+  });
+
+  it('aggregates the requested month in the base currency', async () => {
+    mockLedger();
+
+    const response = await handler(
+      buildEvent({ month: '2026-05' }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(200);
+    const transactionQuery = mockSend.mock.calls
+      .map((call) => call[0] as QueryCommand)
+      .find((command) => command.input.TableName === 'test-transactions');
+    expect(transactionQuery?.input.KeyConditionExpression).toBe(
+      'userId = :userId AND begins_with(dateKey, :prefix)',
+    );
+    expect(transactionQuery?.input.ExpressionAttributeValues).toEqual({
+      ':userId': { S: 'user-1' },
+      ':prefix': { S: '2026-05-' },
+    });
+
+    const body = JSON.parse(response?.body ?? '{}');
+    expect(body).toMatchObject({
+      month: '2026-05',
+      currency: 'EUR',
+      totalIncome: 3000,
+      totalExpense: 160.5,
+      net: 2839.5,
+      totalLimit: 200,
+      remainingBudget: 49.5,
+      uncategorizedExpense: 10,
+    });
+    expect(body.categories).toEqual([
+      expect.objectContaining({
+        id: 'cat-food',
+        limit: 200,
+        spent: 150.5,
+        remaining: 49.5,
+      }),
+      expect.objectContaining({ id: 'cat-salary', spent: 3000 }),
+    ]);
+  });
+
+  it('converts every amount to the preferred currency', async () => {
+    mockPreferredCurrency = 'USD';
+    mockLedger();
+
+    const response = await handler(
+      buildEvent({ month: '2026-05' }),
+      {} as never,
+      () => undefined,
+    );
+
+    const body = JSON.parse(response?.body ?? '{}');
+    expect(body).toMatchObject({
+      currency: 'USD',
+      baseCurrency: 'EUR',
+      totalIncome: 6000,
+      totalExpense: 321,
+      remainingBudget: 99,
+      exchangeRateSnapshot: expect.objectContaining({ toCurrency: 'USD' }),
+    });
+    expect(body.categories[0]).toMatchObject({ limit: 400, spent: 301 });
+  });
+
+  it('counts split shares towards their own categories', async () => {
+    mockSend.mockImplementation(async (command: QueryCommand) =>
+      command.input.TableName === 'test-transactions'
+        ? {
+            Items: [
+              marshall({
+                id: 't5',
+                userId: 'user-1',
+                type: 'expense',
+                category: 'Food',
+                baseAmount: 50,
+                splits: [
+                  { category: 'cat-food', baseAmount: 20 },
+                  { category: 'Household', baseAmount: 30 },
+                ],
+              }),
+            ],
+          }
+        : { Items: categories.map((category) => marshall(category)) },
+    );
+
+    const response = await handler(
+      buildEvent({ month: '2026-05' }),
+      {} as never,
+      () => undefined,
+    );
+
+    const body = JSON.parse(response?.body ?? '{}');
+    expect(body).toMatchObject({
+      totalExpense: 50,
+      uncategorizedExpense: 30,
+      remainingBudget: 180,
+    });
+    expect(body.categories[0]).toMatchObject({ id: 'cat-food', spent: 20 });
+  });
+
+  it('adds the carry-in to the limit of rollover categories', async () => {
+    mockSend.mockImplementation(async (command: QueryCommand) =>
+      command.input.TableName === 'test-transactions'
+        ? { Items: [] }
+        : {
+            Items: [
+              marshall({
+                ...categories[0],
+                rolloverPolicy: 'carryUnspent',
+                monthlyData: {
+                  '2026-04': {
+                    limit: 200,
+                    spent: 150,
+                    baseLimit: 200,
+                    baseSpent: 150,
+                  },
+                },
+              }),
+            ],
+          },
+    );
+
+    const response = await handler(
+      buildEvent({ month: '2026-05' }),
+      {} as never,
+      () => undefined,
+    );
+
+    const body = JSON.parse(response?.body ?? '{}');
+    expect(body.categories[0]).toMatchObject({
+      limit: 50,
+      carryIn: 50,
+      remaining: 50,
+    });
+  });
+
+  it('rejects a malformed month', async () => {
+    const response = await handler(
+      buildEvent({ month: '2026-13' }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(JSON.parse(response?.body ?? '{}')).toEqual({
+      message: 'Month must use the format YYYY-MM',
+    });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
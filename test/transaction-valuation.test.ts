@@ -0,0 +1,137 @@
+process.env.RATES_TABLE_NAME = 'test-rates';
+process.env.SUPPORTED_CURRENCIES = 'EUR,USD,BGN';
+
+let mockSend: jest.Mock;
+
+jest.mock('@aws-sdk/client-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/client-dynamodb');
+  mockSend = jest.fn();
+  return {
+    ...actual,
+    DynamoDBClient: jest.fn().mockImplementation(() => {
+      const instance = Object.create(actual.DynamoDBClient.prototype);
+      instance.send = mockSend;
+      instance.config = { region: 'us-east-1' };
+      return instance;
+    }),
+  };
+});
+
+import { GetItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  parseValuation,
+  toTransactionResponse,
+} from '../lambdas/transactions/helpers';
+import type { Transaction } from '../types/budget';
+import { createRateContext } from '../utils/currency';
+
+const LATEST_USD_RATE = 1.2;
+const HISTORY_USD_RATE = 1.05;
+
+const transaction = (overrides: Partial<Transaction> = {}) =>
+  ({
+    id: 't1',
+    userId: 'user-1',
+    description: 'Groceries',
+    date: 'Mar 3, 2026',
+    dateKey: '2026-03-03#t1',
+    category: 'Food',
+    type: 'expense',
+    amount: 51.13,
+    baseAmount: 51.13,
+    baseCurrency: 'EUR',
+    ...overrides,
+  }) as Record<string, unknown>;
+
+describe('transaction valuation', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockSend.mockImplementation(async (command) => {
+      if (command instanceof QueryCommand) {
+        return {
+          Items: [
+            marshall({
+              fromCurrency: 'EUR',
+              toCurrency: 'USD#2026-03-02',
+              rate: HISTORY_USD_RATE,
+              capturedAt: '2026-03-02T08:00:00.000Z',
+              rateDate: '2026-03-02',
+            }),
+          ],
+        };
+      }
+      if (command instanceof GetItemCommand) {
+        return {
+          Item: marshall({
+            fromCurrency: 'EUR',
+            toCurrency: 'USD',
+            rate: LATEST_USD_RATE,
+            capturedAt: new Date().toISOString(),
+            freshUntilEpoch: Date.now() + 60_000,
+          }),
+        };
+      }
+      return {};
+    });
+  });
+
+  it('defaults to the current rate', async () => {
+    const shaped = await toTransactionResponse(
+      transaction({ baseAmount: 10, amount: 10 }),
+      'USD',
+      createRateContext(),
+    );
+
+    expect(shaped.amount).toBe(12);
+    expect(mockSend.mock.calls[0][0]).toBeInstanceOf(GetItemCommand);
+  });
+
+  it('shows what was entered when the stored snapshot covers the pair', async () => {
+    const shaped = await toTransactionResponse(
+      transaction({
+        originalAmount: 100,
+        originalCurrency: 'BGN',
+        exchangeRateSnapshot: {
+          fromCurrency: 'BGN',
+          toCurrency: 'EUR',
+          rate: 0.5113,
+          provider: 'currencyapi.com',
+          capturedAt: '2026-03-03T08:00:00.000Z',
+        },
+        splits: [
+          { category: 'Food', amount: 60, baseAmount: 30.68 },
+          { category: 'Home', amount: 40, baseAmount: 20.45 },
+        ],
+      }),
+      'BGN',
+      createRateContext(),
+      'historical',
+    );
+
+    expect(shaped.amount).toBe(100);
+    expect(shaped.exchangeRateSnapshot?.fromCurrency).toBe('BGN');
+    expect(shaped.splits?.map(({ amount }) => amount)).toEqual([60, 40]);
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it("uses the rate history for the transaction's date otherwise", async () => {
+    const shaped = await toTransactionResponse(
+      transaction({ baseAmount: 20, amount: 20 }),
+      'USD',
+      createRateContext(),
+      'historical',
+    );
+
+    expect(shaped.amount).toBe(21);
+    expect(shaped.exchangeRateSnapshot?.rateDate).toBe('2026-03-02');
+  });
+
+  it('rejects unknown valuations', () => {
+    expect(parseValuation(undefined)).toBe('current');
+    expect(parseValuation('historical')).toBe('historical');
+    expect(() => parseValuation('average')).toThrow(
+      'valuation must be one of historical, current',
+    );
+  });
+});
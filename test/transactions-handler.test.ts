@@ -48,18 +48,33 @@ jest.mock('../utils', () => ({
   })),
   createRateContext: jest.fn(() => ({ source: 'test' })),
   getUserPreferredCurrency: jest.fn(async () => 'EUR'),
+  isSupportedCurrency: jest.fn((currency: string) =>
+    ['EUR', 'USD'].includes(currency),
+  ),
   normalizeCurrencyCode: jest.fn((currency: string) => currency),
+  parseCsv: jest.requireActual('../utils/csv').parseCsv,
+  roundToMinorUnits: jest.requireActual('../utils/currency-metadata')
+    .roundToMinorUnits,
   toCurrencyNumber: jest.fn((value: unknown) => Number(value)),
+  toTransactionDate: jest.requireActual('../utils/build-date-key')
+    .toTransactionDate,
 }));
 
 import {
+  BatchGetItemCommand,
+  BatchWriteItemCommand,
   GetItemCommand,
   PutItemCommand,
   QueryCommand,
 } from '@aws-sdk/client-dynamodb';
-import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import type { APIGatewayEvent } from 'aws-lambda';
 import { handler } from '../lambdas/transactions/handler';
+import {
+  TransactionValidationError,
+  descriptionSimilarity,
+} from '../lambdas/transactions/helpers';
+import { convertToBaseCurrency } from '../utils';
 
 const buildEvent = (
   overrides: Partial<APIGatewayEvent> = {},
@@ -161,6 +176,172 @@ describe('transactions handler', () => {
     expect(command.input.Limit).toBe(10);
   });
 
+  it('queries an ISO date range with additional filters', async () => {
+    mockSend.mockResolvedValueOnce({ Items: [] });
+
+    const response = await handler(
+      buildEvent({
+        queryStringParameters: {
+          from: '2026-01-01',
+          to: '2026-03-31',
+          type: 'expense',
+          category: 'food',
+          minAmount: '10',
+          maxAmount: '50',
+          recurrenceId: 'rec-1',
+          q: 'Coffee',
+        },
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(200);
+    const command = mockSend.mock.calls[0][0] as QueryCommand;
+    expect(command.input.IndexName).toBe('userId-dateKey-index');
+    expect(command.input.KeyConditionExpression).toBe(
+      'userId = :userId AND dateKey BETWEEN :fromKey AND :toKey',
+    );
+    expect(command.input.FilterExpression).toBe(
+      '#type = :type AND ' +
+        '(#category = :category OR contains(#splitCategories, :category)) AND ' +
+        '#recurrenceId = :recurrenceId AND #baseAmount >= :minAmount AND ' +
+        '#baseAmount <= :maxAmount AND ' +
+        '(contains(#descriptionSearch, :search) OR ' +
+        '(attribute_not_exists(#descriptionSearch) AND ' +
+        'contains(#description, :rawSearch)))',
+    );
+    expect(unmarshall(command.input.ExpressionAttributeValues ?? {})).toEqual({
+      ':userId': 'user-1',
+      ':fromKey': '2026-01-01',
+      ':toKey': '2026-03-31#\uffff',
+      ':type': 'expense',
+      ':category': 'food',
+      ':recurrenceId': 'rec-1',
+      ':minAmount': 10,
+      ':maxAmount': 50,
+      ':search': 'coffee',
+      ':rawSearch': 'Coffee',
+    });
+  });
+
+  describe('filtered pages', () => {
+    const stored = (n: number) =>
+      marshall({
+        id: `txn-${n}`,
+        userId: 'user-1',
+        description: 'Coffee',
+        amount: n,
+        baseAmount: n,
+        currency: 'EUR',
+        date: 'May 1, 2026',
+        dateKey: `2026-05-01#txn-${n}`,
+        category: 'food',
+        type: 'expense',
+      });
+    const lastKey = (n: number) => ({
+      id: { S: `txn-${n}` },
+      userId: { S: 'user-1' },
+      dateKey: { S: `2026-05-01#txn-${n}` },
+    });
+    const listPage = async () =>
+      parseBody(
+        (await handler(
+          buildEvent({ queryStringParameters: { limit: '2', q: 'coffee' } }),
+          {} as never,
+          () => undefined,
+        )) as { body: string },
+      );
+    const decode = (cursor: string) =>
+      JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    it('keeps reading until the page is full', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Items: [], LastEvaluatedKey: lastKey(9) })
+        .mockResolvedValueOnce({
+          Items: [stored(8)],
+          LastEvaluatedKey: lastKey(7),
+        })
+        .mockResolvedValueOnce({
+          Items: [stored(6)],
+          LastEvaluatedKey: lastKey(5),
+        });
+
+      const body = await listPage();
+
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      const starts = mockSend.mock.calls.map(
+        ([command]) => (command as QueryCommand).input.ExclusiveStartKey,
+      );
+      expect(starts).toEqual([undefined, lastKey(9), lastKey(7)]);
+      expect(body.items.map((item: { id: string }) => item.id)).toEqual([
+        'txn-8',
+        'txn-6',
+      ]);
+      expect(decode(body.nextCursor)).toEqual(unmarshall(lastKey(5)));
+    });
+
+    it('resumes after the last item kept when a read overshoots', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [stored(9)],
+          LastEvaluatedKey: lastKey(9),
+        })
+        .mockResolvedValueOnce({ Items: [stored(8), stored(7)] });
+
+      const body = await listPage();
+
+      expect(body.items).toHaveLength(2);
+      expect(decode(body.nextCursor)).toEqual(unmarshall(lastKey(8)));
+    });
+  });
+
+  it('supports an open-ended date range', async () => {
+    mockSend.mockResolvedValueOnce({ Items: [] });
+
+    await handler(
+      buildEvent({ queryStringParameters: { from: '2026-02-01' } }),
+      {} as never,
+      () => undefined,
+    );
+
+    const command = mockSend.mock.calls[0][0] as QueryCommand;
+    expect(command.input.KeyConditionExpression).toBe(
+      'userId = :userId AND dateKey >= :fromKey',
+    );
+    expect(command.input.FilterExpression).toBeUndefined();
+  });
+
+  it('rejects combining month with a date range', async () => {
+    const response = await handler(
+      buildEvent({
+        queryStringParameters: { month: '5', from: '2026-05-01' },
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(parseBody(response as { body: string })).toEqual({
+      message: 'month cannot be combined with from or to',
+    });
+  });
+
+  it('rejects an inverted date range', async () => {
+    const response = await handler(
+      buildEvent({
+        queryStringParameters: { from: '2026-05-02', to: '2026-05-01' },
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(parseBody(response as { body: string })).toEqual({
+      message: 'from must not be after to',
+    });
+  });
+
   it('returns all user transactions for /transactions/all', async () => {
     mockSend.mockResolvedValueOnce({
       Items: [
@@ -286,7 +467,7 @@ describe('transactions handler', () => {
   });
 
   it('writes dateKey on create', async () => {
-    mockSend.mockResolvedValueOnce({});
+    mockSend.mockResolvedValue({});
 
     const response = await handler(
       buildEvent({
@@ -305,15 +486,126 @@ describe('transactions handler', () => {
     );
 
     expect(response?.statusCode).toBe(201);
-    const command = mockSend.mock.calls[0][0] as PutItemCommand;
+    const command = mockSend.mock.calls
+      .map((call) => call[0])
+      .find((sent) => sent instanceof PutItemCommand) as PutItemCommand;
     expect(unmarshall(command.input.Item ?? {})).toMatchObject({
       id: 'generated-id',
       date: 'May 1, 2026',
       dateKey: '2026-05-01#generated-id',
+      descriptionSearch: 'coffee',
       userId: 'user-1',
     });
   });
 
+  it('stores split shares in base currency on create', async () => {
+    mockSend.mockResolvedValue({});
+
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        queryStringParameters: { force: 'true' },
+        body: JSON.stringify({
+          description: 'Supermarket',
+          amount: 100,
+          currency: 'EUR',
+          date: 'May 1, 2026',
+          category: 'groceries',
+          type: 'expense',
+          splits: [
+            { category: 'groceries', amount: 66.67 },
+            { category: 'household', amount: 33.33 },
+          ],
+        }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(201);
+    const command = mockSend.mock.calls[0][0] as PutItemCommand;
+    expect(unmarshall(command.input.Item ?? {}).splits).toEqual([
+      {
+        category: 'groceries',
+        amount: 66.67,
+        baseAmount: 66.67,
+        originalAmount: 66.67,
+      },
+      {
+        category: 'household',
+        amount: 33.33,
+        baseAmount: 33.33,
+        originalAmount: 33.33,
+      },
+    ]);
+    expect(parseBody(response as { body: string }).splits).toEqual([
+      expect.objectContaining({ category: 'groceries', amount: 66.67 }),
+      expect.objectContaining({ category: 'household', amount: 33.33 }),
+    ]);
+  });
+
+  it('rounds split shares to the currency minor units', async () => {
+    mockSend.mockResolvedValue({});
+
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        queryStringParameters: { force: 'true' },
+        body: JSON.stringify({
+          description: 'Konbini',
+          amount: 1000,
+          currency: 'JPY',
+          date: 'May 1, 2026',
+          category: 'groceries',
+          type: 'expense',
+          splits: [
+            { category: 'groceries', amount: 600.4 },
+            { category: 'household', amount: 399.6 },
+          ],
+        }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(201);
+    const command = mockSend.mock.calls[0][0] as PutItemCommand;
+    expect(
+      unmarshall(command.input.Item ?? {}).splits.map(
+        (split: { originalAmount: number }) => split.originalAmount,
+      ),
+    ).toEqual([600, 400]);
+  });
+
+  it('rejects splits that do not add up to the amount', async () => {
+    const response = await handler(
+      buildEvent({
+        httpMethod: 'POST',
+        queryStringParameters: { force: 'true' },
+        body: JSON.stringify({
+          description: 'Supermarket',
+          amount: 100,
+          currency: 'EUR',
+          date: 'May 1, 2026',
+          category: 'groceries',
+          type: 'expense',
+          splits: [
+            { category: 'groceries', amount: 60 },
+            { category: 'household', amount: 30 },
+          ],
+        }),
+      }),
+      {} as never,
+      () => undefined,
+    );
+
+    expect(response?.statusCode).toBe(400);
+    expect(parseBody(response as { body: string })).toEqual({
+      message: 'splits must sum to the transaction amount 100, got 90',
+    });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
   it('returns 404 on update when transaction is missing', async () => {
     mockSend.mockResolvedValueOnce({ Item: undefined });
 
@@ -414,4 +706,444 @@ describe('transactions handler', () => {
       userId: 'user-1',
     });
   });
+
+  describe('updating a split transaction', () => {
+    const storedSplit = {
+      id: 'txn-1',
+      description: 'Supermarket',
+      amount: 100,
+      baseAmount: 100,
+      currency: 'EUR',
+      baseCurrency: 'EUR',
+      originalAmount: 100,
+      originalCurrency: 'EUR',
+      date: 'May 1, 2026',
+      dateKey: '2026-05-01#txn-1',
+      category: 'groceries',
+      type: 'expense',
+      userId: 'user-1',
+      splitCategories: ['groceries', 'household'],
+      splits: [
+        {
+          category: 'groceries',
+          amount: 60,
+          baseAmount: 60,
+          originalAmount: 60,
+        },
+        {
+          category: 'household',
+          amount: 40,
+          baseAmount: 40,
+          originalAmount: 40,
+        },
+      ],
+    };
+    const update = (fields: Record<string, unknown>) =>
+      handler(
+        buildEvent({
+          httpMethod: 'PUT',
+          pathParameters: { id: 'txn-1' },
+          body: JSON.stringify({
+            description: 'Supermarket run',
+            amount: 100,
+            currency: 'EUR',
+            date: 'May 1, 2026',
+            category: 'groceries',
+            type: 'expense',
+            ...fields,
+          }),
+        }),
+        {} as never,
+        () => undefined,
+      );
+    const storedItem = () =>
+      unmarshall(
+        (mockSend.mock.calls[1][0] as PutItemCommand).input.Item ?? {},
+      );
+
+    beforeEach(() => {
+      mockSend
+        .mockResolvedValueOnce({ Item: marshall(storedSplit) })
+        .mockResolvedValueOnce({});
+    });
+
+    it('keeps the stored splits when the payload omits them', async () => {
+      const response = await update({});
+
+      expect(response?.statusCode).toBe(200);
+      expect(storedItem()).toMatchObject({
+        description: 'Supermarket run',
+        splits: storedSplit.splits,
+        splitCategories: ['groceries', 'household'],
+      });
+    });
+
+    it('rejects an amount the kept splits no longer add up to', async () => {
+      const response = await update({ amount: 120 });
+
+      expect(response?.statusCode).toBe(400);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([null, []])('clears the splits when sent %j', async (splits) => {
+      const response = await update({ splits });
+
+      expect(response?.statusCode).toBe(200);
+      const item = storedItem();
+      expect(item.splits).toBeUndefined();
+      expect(item.splitCategories).toBeUndefined();
+    });
+  });
+
+  describe('CSV import', () => {
+    const csv = [
+      'Booked,Details,Value,Ccy',
+      '03.05.2026,Groceries,"-1.234,50",EUR',
+      '04.05.2026,Salary,"2.000,00",USD',
+      '31.02.2026,Broken,-5,EUR',
+      '05.05.2026,Lunch,-12,JPY',
+    ].join('\n');
+    const importEvent = (payload: Record<string, unknown>) =>
+      buildEvent({
+        httpMethod: 'POST',
+        path: '/transactions/import',
+        resource: '/transactions/import',
+        body: JSON.stringify(payload),
+      });
+    const mapping = {
+      date: 'Booked',
+      amount: 'Value',
+      description: 'Details',
+      currency: 'Ccy',
+    };
+
+    it('writes valid rows and reports duplicates and invalid rows', async () => {
+      mockSend.mockImplementation(async (command: unknown) => {
+        if (command instanceof BatchGetItemCommand) {
+          const [firstKey] =
+            command.input.RequestItems?.['test-transactions']?.Keys ?? [];
+          return { Responses: { 'test-transactions': [firstKey] } };
+        }
+        return {};
+      });
+
+      const response = await handler(
+        importEvent({
+          csv,
+          mapping,
+          dateFormat: 'DD.MM.YYYY',
+          decimalSeparator: ',',
+          defaultCategory: 'Imported',
+        }),
+        {} as never,
+        () => undefined,
+      );
+
+      expect(response?.statusCode).toBe(200);
+      const body = parseBody(response as { body: string });
+      expect(body).toMatchObject({
+        created: 1,
+        duplicate: 1,
+        invalid: 2,
+        failed: 0,
+      });
+      expect(body.rows.map((row: { status: string }) => row.status)).toEqual([
+        'duplicate',
+        'created',
+        'invalid',
+        'invalid',
+      ]);
+      expect(body.rows[2].error).toBe(
+        'Date "31.02.2026" is not a valid calendar date',
+      );
+
+      const write = mockSend.mock.calls
+        .map((call) => call[0])
+        .find(
+          (command) => command instanceof BatchWriteItemCommand,
+        ) as BatchWriteItemCommand;
+      const requests = write.input.RequestItems?.['test-transactions'] ?? [];
+      expect(requests).toHaveLength(1);
+      expect(unmarshall(requests[0].PutRequest?.Item ?? {})).toMatchObject({
+        id: body.rows[1].id,
+        description: 'Salary',
+        type: 'income',
+        originalAmount: 2000,
+        originalCurrency: 'USD',
+        category: 'Imported',
+        date: 'May 4, 2026',
+        dateKey: `2026-05-04#${body.rows[1].id}`,
+        userId: 'user-1',
+      });
+    });
+
+    it('tells invalid rows apart from rows that failed to convert', async () => {
+      mockSend.mockResolvedValue({});
+      (convertToBaseCurrency as jest.Mock)
+        .mockRejectedValueOnce(new TransactionValidationError('Bad amount'))
+        .mockRejectedValueOnce(new Error('Exchange rate not found'));
+
+      const response = await handler(
+        importEvent({
+          csv,
+          mapping,
+          dateFormat: 'DD.MM.YYYY',
+          decimalSeparator: ',',
+          defaultCategory: 'Imported',
+        }),
+        {} as never,
+        () => undefined,
+      );
+
+      const body = parseBody(response as { body: string });
+      expect(body).toMatchObject({ created: 0, invalid: 3, failed: 1 });
+      expect(body.rows.slice(0, 2)).toEqual([
+        expect.objectContaining({ status: 'invalid', error: 'Bad amount' }),
+        expect.objectContaining({
+          status: 'failed',
+          error: 'Exchange rate not found',
+        }),
+      ]);
+    });
+
+    it('derives stable ids so re-imports are detected', async () => {
+      mockSend.mockResolvedValue({});
+      const payload = {
+        csv,
+        mapping,
+        dateFormat: 'DD.MM.YYYY',
+        decimalSeparator: ',',
+        defaultCategory: 'Imported',
+      };
+
+      const first = parseBody(
+        (await handler(importEvent(payload), {} as never, () => undefined)) as {
+          body: string;
+        },
+      );
+      const second = parseBody(
+        (await handler(importEvent(payload), {} as never, () => undefined)) as {
+          body: string;
+        },
+      );
+
+      expect(first.rows[0].id).toMatch(/^import-[0-9a-f]{32}$/);
+      expect(second.rows[0].id).toBe(first.rows[0].id);
+    });
+
+    it('rejects a mapping that references unknown columns', async () => {
+      const response = await handler(
+        importEvent({ csv, mapping: { ...mapping, category: 'Kind' } }),
+        {} as never,
+        () => undefined,
+      );
+
+      expect(response?.statusCode).toBe(400);
+      expect(parseBody(response as { body: string })).toEqual({
+        message: 'CSV is missing mapped columns: Kind',
+      });
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('duplicate detection', () => {
+    const stored = (overrides: Record<string, unknown>) => ({
+      userId: 'user-1',
+      type: 'expense',
+      category: 'food',
+      baseAmount: 42.5,
+      baseCurrency: 'EUR',
+      originalAmount: 42.5,
+      originalCurrency: 'EUR',
+      ...overrides,
+    });
+    const existing = stored({
+      id: 'txn-shared',
+      description: 'LIDL Store 1234',
+      date: 'May 2, 2026',
+      dateKey: '2026-05-02#txn-shared',
+    });
+    const createEvent = (queryStringParameters: Record<string, string> = {}) =>
+      buildEvent({
+        httpMethod: 'POST',
+        queryStringParameters,
+        body: JSON.stringify({
+          description: 'Lidl',
+          amount: 42.5,
+          currency: 'EUR',
+          date: 'May 4, 2026',
+          category: 'food',
+          type: 'expense',
+        }),
+      });
+    const sentCommands = () => mockSend.mock.calls.map((call) => call[0]);
+
+    it('scores descriptions by bigram overlap and containment', () => {
+      expect(descriptionSimilarity('Netflix', 'NETFLIX.COM 4029')).toBe(1);
+      expect(descriptionSimilarity('Groceries', 'Grocery')).toBeGreaterThan(
+        0.6,
+      );
+      expect(descriptionSimilarity('Rent', 'Coffee')).toBe(0);
+    });
+
+    it('rejects a likely duplicate with 409', async () => {
+      mockSend.mockResolvedValue({ Items: [marshall(existing)] });
+
+      const response = await handler(
+        createEvent(),
+        {} as never,
+        () => undefined,
+      );
+
+      expect(response?.statusCode).toBe(409);
+      const body = parseBody(response as { body: string });
+      expect(body.duplicates).toEqual([
+        expect.objectContaining({ id: 'txn-shared', amount: 42.5 }),
+      ]);
+      const query = sentCommands()[0] as QueryCommand;
+      expect(query.input.KeyConditionExpression).toBe(
+        'userId = :userId AND dateKey BETWEEN :fromKey AND :toKey',
+      );
+      expect(unmarshall(query.input.ExpressionAttributeValues ?? {})).toEqual({
+        ':userId': 'user-1',
+        ':fromKey': '2026-05-01',
+        ':toKey': '2026-05-07#\uffff',
+      });
+      expect(
+        sentCommands().some((command) => command instanceof PutItemCommand),
+      ).toBe(false);
+    });
+
+    it('ignores neighbours with a different amount or outside the window', async () => {
+      mockSend.mockResolvedValue({
+        Items: [
+          marshall({ ...existing, id: 'other-amount', originalAmount: 40 }),
+          marshall({
+            ...existing,
+            id: 'too-early',
+            dateKey: '2026-04-30#too-early',
+          }),
+        ],
+      });
+
+      const response = await handler(
+        createEvent(),
+        {} as never,
+        () => undefined,
+      );
+
+      expect(response?.statusCode).toBe(201);
+    });
+
+    it('creates the transaction anyway with force=true', async () => {
+      mockSend.mockResolvedValue({});
+
+      const response = await handler(
+        createEvent({ force: 'true' }),
+        {} as never,
+        () => undefined,
+      );
+
+      expect(response?.statusCode).toBe(201);
+      expect(sentCommands()).toHaveLength(1);
+      expect(sentCommands()[0]).toBeInstanceOf(PutItemCommand);
+    });
+
+    it('lists suspected pairs for review', async () => {
+      mockSend.mockResolvedValueOnce({
+        Items: [
+          existing,
+          stored({
+            id: 'txn-manual',
+            description: 'Lidl',
+            date: 'May 3, 2026',
+            dateKey: '2026-05-03#txn-manual',
+          }),
+          stored({
+            id: 'txn-rent',
+            description: 'Rent',
+            date: 'May 3, 2026',
+            dateKey: '2026-05-03#txn-rent',
+            originalAmount: 900,
+          }),
+        ].map((item) => marshall(item)),
+      });
+
+      const response = await handler(
+        buildEvent({
+          path: '/transactions/duplicates',
+          resource: '/transactions/duplicates',
+          queryStringParameters: { from: '2026-05-01' },
+        }),
+        {} as never,
+        () => undefined,
+      );
+
+      expect(response?.statusCode).toBe(200);
+      const { pairs } = parseBody(response as { body: string });
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0]).toMatchObject({ daysApart: 1, similarity: 1 });
+      expect(
+        pairs[0].transactions.map((txn: { id: string }) => txn.id),
+      ).toEqual(['txn-shared', 'txn-manual']);
+    });
+
+    it('looks for pairs only among transactions matching the filters', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [] });
+
+      const response = await handler(
+        buildEvent({
+          path: '/transactions/duplicates',
+          resource: '/transactions/duplicates',
+          queryStringParameters: {
+            from: '2026-05-01',
+            type: 'expense',
+            category: 'food',
+            q: 'Lidl',
+            minAmount: '10',
+          },
+        }),
+        {} as never,
+        () => undefined,
+      );
+
+      expect(response?.statusCode).toBe(200);
+      const [query] = sentCommands() as QueryCommand[];
+      expect(unmarshall(query.input.ExpressionAttributeValues!)).toMatchObject({
+        ':fromKey': '2026-05-01',
+        ':type': 'expense',
+        ':category': 'food',
+        ':search': 'lidl',
+        ':minAmount': 10,
+      });
+    });
+
+    it('marks imported rows matching existing transactions', async () => {
+      mockSend.mockImplementation(async (command: unknown) =>
+        command instanceof QueryCommand ? { Items: [marshall(existing)] } : {},
+      );
+
+      const response = await handler(
+        buildEvent({
+          httpMethod: 'POST',
+          path: '/transactions/import',
+          resource: '/transactions/import',
+          body: JSON.stringify({
+            csv: 'Date,Text,Amount\n2026-05-03,Lidl,-42.50\n2026-05-03,Bakery,-3',
+            mapping: { date: 'Date', amount: 'Amount', description: 'Text' },
+            defaultCategory: 'food',
+          }),
+        }),
+        {} as never,
+        () => undefined,
+      );
+
+      const body = parseBody(response as { body: string });
+      expect(body).toMatchObject({ created: 1, duplicate: 1 });
+      expect(body.rows[0]).toMatchObject({
+        status: 'duplicate',
+        duplicateOf: 'txn-shared',
+      });
+    });
+  });
 });
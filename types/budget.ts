@@ -1,17 +1,43 @@
-export type CurrencyCode = 'EUR' | 'BGN' | 'USD' | 'GBP';
+type Characters<S extends string> = S extends `${infer C}${infer Rest}`
+  ? C | Characters<Rest>
+  : never;
+type CurrencyLetter = Characters<'ABCDEFGHIJKLMNOPQRSTUVWXYZ'>;
 
-export type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly';
+// ISO 4217 alphabetic code; the enabled set comes from SUPPORTED_CURRENCIES.
+// Plain strings have to pass isCurrencyCode or isSupportedCurrency first.
+export type CurrencyCode =
+  `${CurrencyLetter}${CurrencyLetter}${CurrencyLetter}`;
+
+export type RecurringFrequency =
+  | 'daily'
+  | 'weekly'
+  | 'biweekly'
+  | 'monthly'
+  | 'quarterly'
+  | 'yearly';
 
 export interface RecurringRule {
   frequency: RecurringFrequency;
   interval?: number;
   startDate: string; // yyyy-MM-dd
   endDate?: string; // yyyy-MM-dd
-  dayOfMonth?: number; // 1..31 for monthly
+  count?: number; // total occurrences, including the first
+  dayOfMonth?: number; // 1..31 for monthly, quarterly and yearly
+  weekday?: number; // 0 (Sunday)..6, used with weekOfMonth
+  weekOfMonth?: number; // 1..4, or -1 for the last one in the month
+  lastBusinessDay?: boolean; // last Monday..Friday of the month
 }
 
 export type RecurringStatus = 'active' | 'paused' | 'completed';
 
+// How many missed occurrences the materializer books when it falls behind.
+export type RecurringCatchUpPolicy = 'all' | 'latest' | 'none';
+
+export interface RateDerivation {
+  method: 'inverse' | 'cross';
+  path: CurrencyCode[]; // e.g. USD -> EUR -> GBP through the base currency
+}
+
 export interface ExchangeRateSnapshot {
   fromCurrency: CurrencyCode;
   toCurrency: CurrencyCode;
@@ -19,11 +45,24 @@ export interface ExchangeRateSnapshot {
   provider: string;
   capturedAt: string;
   stale?: boolean;
+  rateDate?: string; // day of the historical rate used for an asOf lookup
+  derivation?: RateDerivation; // absent when quoted directly
+}
+
+// historical: rate of the transaction's date, current: today's rate
+export type TransactionValuation = 'historical' | 'current';
+
+export interface TransactionSplit {
+  category: string;
+  amount: number; // share of the parent "amount", in the same currency
+  baseAmount?: number; // share of the parent "baseAmount" (EUR)
+  originalAmount?: number; // share as entered, in "originalCurrency"
 }
 
 export interface Transaction {
   id: string;
   description: string;
+  descriptionSearch?: string; // lower-cased description for the `q` filter
   amount: number; // value returned to the client in the user preferred currency
   currency: CurrencyCode; // currency that matches the exposed "amount"
   baseAmount?: number; // canonical amount stored in DynamoDB (EUR)
@@ -36,6 +75,8 @@ export interface Transaction {
   date: string;
   dateKey?: string;
   category: string;
+  splits?: TransactionSplit[]; // per category shares summing to the total
+  splitCategories?: string[]; // categories of `splits`, for category filters
   type: 'income' | 'expense';
   userId: string;
   recurrenceId?: string;
@@ -50,12 +91,17 @@ export interface PaginatedTransactionsResponse {
 }
 
 export interface CategoryMonthlyEntry {
-  limit: number; // legacy amount stored in original currency
+  limit?: number; // legacy amount, unset until a limit is budgeted
   spent: number; // legacy amount stored in original currency
   baseSpent: number;
-  baseLimit: number;
+  baseLimit?: number; // unset on months that only have spend so far
+  alertsSent?: Record<string, string>; // threshold percent -> ISO time sent
 }
 
+// How a month's remaining budget (effective limit - spent) flows into the
+// next month: not at all, only when positive, or only when negative.
+export type RolloverPolicy = 'none' | 'carryUnspent' | 'carryOverspend';
+
 export interface Category {
   id: string;
   name: string;
@@ -63,6 +109,9 @@ export interface Category {
   type: 'income' | 'expense';
   currency?: CurrencyCode; // last requested display currency
   baseCurrency?: CurrencyCode; // canonical currency (EUR)
+  rolloverPolicy?: RolloverPolicy; // defaults to "none"
+  defaultLimit?: number; // seeded into new months, in defaultLimitCurrency
+  defaultLimitCurrency?: CurrencyCode;
   monthlyData: {
     [month: string]: CategoryMonthlyEntry;
   }; // e.g., { "2025-05": { limit: 200, spent: 120 } }
@@ -72,6 +121,8 @@ export interface Category {
 export type CategoryResponseMonthlyEntry = {
   limit: number; // exposed to the client in its preferred currency
   spent: number;
+  carryIn: number; // rolled over from the previous month, may be negative
+  effectiveLimit: number; // limit + carryIn
 };
 
 export type CategoryResponse = Omit<Category, 'monthlyData'> & {
@@ -80,6 +131,60 @@ export type CategoryResponse = Omit<Category, 'monthlyData'> & {
   };
 };
 
+export interface MonthlySummaryCategory {
+  id: string;
+  name: string;
+  color: string;
+  type: 'income' | 'expense';
+  limit: number; // effective limit, carry-in included
+  carryIn: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface MonthlySummary {
+  month: string; // yyyy-MM
+  currency: CurrencyCode; // currency every amount below is expressed in
+  baseCurrency: CurrencyCode;
+  totalIncome: number;
+  totalExpense: number;
+  net: number;
+  totalLimit: number; // sum of expense category limits
+  remainingBudget: number;
+  uncategorizedExpense: number;
+  categories: MonthlySummaryCategory[];
+  exchangeRateSnapshot?: ExchangeRateSnapshot;
+}
+
+export interface ForecastCategory {
+  category: string; // category id, or name for legacy entries
+  name: string;
+  recurringExpense: number;
+  estimatedSpend: number; // average non-recurring spend
+}
+
+export interface ForecastMonth {
+  month: string; // yyyy-MM
+  recurringIncome: number;
+  recurringExpense: number;
+  estimatedSpend: number;
+  net: number;
+  openingBalance: number;
+  closingBalance: number;
+  categories: ForecastCategory[];
+}
+
+export interface CashFlowForecast {
+  currency: CurrencyCode; // currency every amount below is expressed in
+  baseCurrency: CurrencyCode;
+  startingBalance: number; // all-time net of the recorded ledger
+  lookbackMonths: number; // months averaged for estimatedSpend
+  lowestBalance: number;
+  firstNegativeMonth: string | null;
+  months: ForecastMonth[];
+  exchangeRateSnapshot?: ExchangeRateSnapshot;
+}
+
 export interface Goal {
   id: string;
   name: string;
@@ -95,13 +200,71 @@ export interface Goal {
   userId: string;
 }
 
+export type GoalStatus = 'onTrack' | 'behind' | 'ahead' | 'achieved';
+
+export interface GoalProjection {
+  status: GoalStatus;
+  monthlyVelocity: number; // recent net contributions per month
+  requiredMonthly: number; // still needed per month to reach target in time
+  projectedCompletionDate: string | null; // yyyy-MM-dd, null when never
+}
+
+export type GoalContributionType = 'deposit' | 'withdrawal';
+
+export interface GoalContribution {
+  goalId: string;
+  dateKey: string; // yyyy-MM-dd#id, sort key within the goal
+  id: string;
+  userId: string;
+  type: GoalContributionType;
+  date: string; // yyyy-MM-dd
+  baseAmount: number; // always positive, in the base currency (EUR)
+  baseCurrency: CurrencyCode;
+  originalAmount: number;
+  originalCurrency: CurrencyCode;
+  exchangeRateSnapshot?: ExchangeRateSnapshot;
+  note?: string;
+  recurrenceId?: string; // set when deposited by a recurring transaction
+  recurrenceInstanceId?: string;
+  createdAt: string;
+}
+
+export interface GoalContributionResponse {
+  id: string;
+  type: GoalContributionType;
+  date: string;
+  amount: number; // in the caller's preferred currency
+  originalAmount: number;
+  originalCurrency: CurrencyCode;
+  balance: number; // goal balance after this entry, preferred currency
+  note?: string;
+}
+
+export interface GoalContributionHistory {
+  goalId: string;
+  currency: CurrencyCode;
+  openingBalance: number; // balance not backed by ledger entries
+  current: number;
+  contributions: GoalContributionResponse[];
+}
+
 export interface UserPreference {
   userId: string;
   preferredCurrency: CurrencyCode;
   timezone?: string;
+  alertEmail?: string; // receives this user's budget alerts
+  alertSubscriptionArn?: string; // SNS subscription behind alertEmail
   updatedAt: string;
 }
 
+export interface RecurringOccurrenceOverride {
+  skip?: boolean;
+  date?: string; // yyyy-MM-dd the occurrence is booked on instead
+  amount?: number; // one-off amount in the rule's originalCurrency
+  baseAmount?: number; // amount converted when the override was saved
+  exchangeRateSnapshot?: ExchangeRateSnapshot;
+}
+
 export interface RecurringTransaction {
   id: string;
   description: string;
@@ -119,12 +282,54 @@ export interface RecurringTransaction {
   rule: RecurringRule;
   nextOccurrence: string; // yyyy-MM-dd
   status: RecurringStatus;
+  goalId?: string; // each occurrence is also deposited into this goal
+  catchUp?: RecurringCatchUpPolicy; // defaults to 'all'
+  overrides?: Record<string, RecurringOccurrenceOverride>; // keyed by scheduled yyyy-MM-dd
+  skippedOccurrences?: string[]; // scheduled yyyy-MM-dd of skips whose override was pruned
+  createdAt?: string; // absent on rules created before it was recorded
   userId: string;
 }
 
+export interface RecurringOccurrencePreview {
+  date: string; // yyyy-MM-dd
+  amount: number; // in the preferred currency
+  currency: CurrencyCode;
+  baseAmount: number;
+  clamped?: boolean; // dayOfMonth did not exist in this month
+  scheduledDate?: string; // set when an override moved the occurrence
+  skipped?: boolean;
+}
+
+export interface RecurringPreview {
+  id?: string;
+  status: RecurringStatus;
+  occurrences: RecurringOccurrencePreview[];
+}
+
 export interface MaterializationSummary {
   processed: number;
   created: number;
   skipped: number;
   failures: number;
 }
+
+export type BackfillResult =
+  | 'created'
+  | 'wouldCreate'
+  | 'exists'
+  | 'skipped'
+  | 'failed';
+
+export interface BackfillOccurrence {
+  recurrenceId: string;
+  date: string; // scheduled yyyy-MM-dd
+  result: BackfillResult;
+}
+
+export interface BackfillReport extends MaterializationSummary {
+  dryRun: boolean;
+  from: string;
+  to: string;
+  occurrences: BackfillOccurrence[];
+  nextCursor?: string; // set when occurrences were left for another call
+}
@@ -12,6 +12,13 @@ export interface BudgetTrackerStackProps extends StackProps {
   currencyRates: {
     persistedFreshMs: number;
     persistedTtlDays: number;
+    providers: string[]; // currencyapi | ecb | static | mock, in failover order
+    providerTimeoutMs: number; // per-request abort before failing over
+    pegs: string[]; // fixed rates as PEGGED:ANCHOR:UNITS_PER_ANCHOR
   };
   ratesAdminGroup: string;
+  recurringAdminGroup: string;
+  budgetAlerts: {
+    thresholds: number[];
+  };
 }
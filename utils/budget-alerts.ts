@@ -0,0 +1,212 @@
+import {
+  PublishCommand,
+  SNSClient,
+  SubscribeCommand,
+  UnsubscribeCommand,
+} from '@aws-sdk/client-sns';
+import type {
+  Category,
+  CategoryMonthlyEntry,
+  UserPreference,
+} from '../types/budget';
+import { computeCategoryRollover } from './category-rollover';
+import { claimBudgetAlert, releaseBudgetAlert } from './ledger-store';
+
+const client = new SNSClient({});
+
+const TOPIC_ARN = process.env.BUDGET_ALERTS_TOPIC_ARN;
+const BASE_CURRENCY = process.env.BASE_CURRENCY || 'EUR';
+const DEFAULT_THRESHOLDS = [80, 100];
+
+export interface BudgetAlert {
+  userId: string;
+  categoryId: string;
+  categoryName: string;
+  month: string; // yyyy-MM
+  threshold: number; // percent of the month's effectiveLimit
+  baseSpent: number;
+  baseLimit: number;
+  effectiveLimit: number; // baseLimit plus the rollover carry-in
+  percentUsed: number;
+}
+
+/** Reads the comma separated BUDGET_ALERT_THRESHOLDS, e.g. "80,100". */
+export const getBudgetAlertThresholds = (
+  raw = process.env.BUDGET_ALERT_THRESHOLDS,
+): number[] => {
+  const thresholds = (raw ?? '')
+    .split(',')
+    .map((value) => Number(value.trim()))
+    .filter((value) => Number.isFinite(value) && value > 0);
+  return thresholds.length
+    ? [...new Set(thresholds)].sort((a, b) => a - b)
+    : DEFAULT_THRESHOLDS;
+};
+
+type MonthlyData = Record<string, Partial<CategoryMonthlyEntry>>;
+
+const hasBudgetChanged = (
+  before: Partial<CategoryMonthlyEntry> | undefined,
+  after: Partial<CategoryMonthlyEntry>,
+) =>
+  before?.baseSpent !== after.baseSpent ||
+  before?.baseLimit !== after.baseLimit;
+
+/**
+ * Lists the thresholds a category write pushed a month over, measured
+ * against the month's effective limit so rollover carry-ins count. Only
+ * months whose spend or limit changed in this write are considered, so
+ * unrelated edits never alert about old months, and thresholds already
+ * recorded in `alertsSent` are left out.
+ */
+export const findBudgetAlerts = (
+  oldImage: Record<string, unknown> | undefined,
+  newImage: Record<string, unknown> | undefined,
+  thresholds: number[],
+): BudgetAlert[] => {
+  if (
+    !newImage ||
+    newImage.type !== 'expense' ||
+    typeof newImage.userId !== 'string'
+  ) {
+    return [];
+  }
+  const oldMonthly = (oldImage?.monthlyData ?? {}) as MonthlyData;
+  const newMonthly = (newImage.monthlyData ?? {}) as MonthlyData;
+  const rollover = computeCategoryRollover(
+    newImage as Pick<Category, 'monthlyData' | 'rolloverPolicy'>,
+  );
+
+  return Object.entries(newMonthly).flatMap(([month, entry]) => {
+    const baseLimit = Number(entry?.baseLimit ?? 0);
+    const baseSpent = Number(entry?.baseSpent ?? 0);
+    const { effectiveLimit } = rollover[month];
+    if (!(effectiveLimit > 0) || !hasBudgetChanged(oldMonthly[month], entry)) {
+      return [];
+    }
+
+    const percentUsed = Number(((baseSpent / effectiveLimit) * 100).toFixed(2));
+    return thresholds
+      .filter(
+        (threshold) =>
+          percentUsed >= threshold && !entry.alertsSent?.[String(threshold)],
+      )
+      .map((threshold) => ({
+        userId: newImage.userId as string,
+        categoryId: newImage.id as string,
+        categoryName: String(newImage.name ?? ''),
+        month,
+        threshold,
+        baseSpent,
+        baseLimit,
+        effectiveLimit,
+        percentUsed,
+      }));
+  });
+};
+
+const buildMessage = (alert: BudgetAlert) =>
+  `${alert.categoryName} has used ${alert.percentUsed}% of its ${alert.month} ` +
+  `budget (${alert.baseSpent.toFixed(2)} of ${alert.effectiveLimit.toFixed(2)} ` +
+  `${BASE_CURRENCY}), crossing the ${alert.threshold}% alert threshold.`;
+
+/**
+ * Publishes one alert unless another delivery already claimed it. Each
+ * user's subscription filters on the userId attribute, so only the owner
+ * receives it. Returns whether the alert was published.
+ */
+export const sendBudgetAlert = async (
+  alert: BudgetAlert,
+  now: Date = new Date(),
+): Promise<boolean> => {
+  if (!TOPIC_ARN) {
+    throw new Error('BUDGET_ALERTS_TOPIC_ARN is not configured');
+  }
+
+  const claimed = await claimBudgetAlert(
+    alert.categoryId,
+    alert.month,
+    alert.threshold,
+    now.toISOString(),
+  );
+  if (!claimed) {
+    return false;
+  }
+
+  // SNS rejects subjects longer than 100 characters.
+  const subject = `Budget alert: ${alert.categoryName} at ${alert.threshold}%`;
+  try {
+    await client.send(
+      new PublishCommand({
+        TopicArn: TOPIC_ARN,
+        Subject: subject.slice(0, 100),
+        Message: buildMessage(alert),
+        MessageAttributes: {
+          userId: { DataType: 'String', StringValue: alert.userId },
+          categoryId: { DataType: 'String', StringValue: alert.categoryId },
+          month: { DataType: 'String', StringValue: alert.month },
+          threshold: {
+            DataType: 'Number',
+            StringValue: String(alert.threshold),
+          },
+        },
+      }),
+    );
+  } catch (error) {
+    await releaseBudgetAlert(alert.categoryId, alert.month, alert.threshold);
+    throw error;
+  }
+  return true;
+};
+
+type AlertSubscription = Pick<
+  UserPreference,
+  'alertEmail' | 'alertSubscriptionArn'
+>;
+
+/**
+ * Points the user's alert subscription at `email`. The new address is
+ * subscribed with a filter policy on its userId before the old one is
+ * dropped, and SNS emails it a confirmation link before delivery starts.
+ * `undefined` keeps the current subscription, `null` or an empty string
+ * removes it. Returns the fields to store on the user preference.
+ */
+export const updateBudgetAlertSubscription = async (
+  userId: string,
+  current: AlertSubscription,
+  email: string | null | undefined,
+): Promise<AlertSubscription> => {
+  const alertEmail = email?.trim() || undefined;
+  if (email === undefined || alertEmail === current.alertEmail) {
+    return {
+      alertEmail: current.alertEmail,
+      alertSubscriptionArn: current.alertSubscriptionArn,
+    };
+  }
+  if (!TOPIC_ARN) {
+    throw new Error('BUDGET_ALERTS_TOPIC_ARN is not configured');
+  }
+
+  let alertSubscriptionArn: string | undefined;
+  if (alertEmail) {
+    const response = await client.send(
+      new SubscribeCommand({
+        TopicArn: TOPIC_ARN,
+        Protocol: 'email',
+        Endpoint: alertEmail,
+        Attributes: { FilterPolicy: JSON.stringify({ userId: [userId] }) },
+        ReturnSubscriptionArn: true,
+      }),
+    );
+    alertSubscriptionArn = response.SubscriptionArn;
+  }
+  if (current.alertSubscriptionArn) {
+    await client.send(
+      new UnsubscribeCommand({
+        SubscriptionArn: current.alertSubscriptionArn,
+      }),
+    );
+  }
+
+  return { alertEmail, alertSubscriptionArn };
+};
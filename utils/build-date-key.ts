@@ -30,5 +30,17 @@ const toIsoDate = (date: string): string => {
   return `${year}-${month}-${paddedDay}`;
 };
 
+// Sorts after every "#id" suffix, so `${to}${DATE_KEY_UPPER_SUFFIX}` as an
+// upper bound includes the whole `to` day.
+export const DATE_KEY_UPPER_SUFFIX = '#\uffff';
+
 export const buildDateKey = (date: string, id: string): string =>
   `${toIsoDate(date)}#${id}`;
+
+export const toTransactionDate = (isoDate: string): string =>
+  new Date(`${isoDate}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
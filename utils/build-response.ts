@@ -2,7 +2,7 @@ const allowedOrigins = (process.env.ALLOW_ORIGINS ?? '')
   .split(',')
   .filter(Boolean);
 
-const buildResponse = (statusCode: number, body: unknown, origin?: string) => {
+const buildHeaders = (origin?: string) => {
   const headers: Record<string, string> = {
     'Access-Control-Allow-Headers': 'Content-Type',
     'Access-Control-Allow-Methods': 'OPTIONS,GET,POST,PUT,DELETE',
@@ -12,11 +12,34 @@ const buildResponse = (statusCode: number, body: unknown, origin?: string) => {
     headers['Access-Control-Allow-Origin'] = origin;
   }
 
+  return headers;
+};
+
+const buildResponse = (statusCode: number, body: unknown, origin?: string) => {
   return {
     statusCode,
-    headers,
+    headers: buildHeaders(origin),
     body: JSON.stringify(body),
   };
 };
 
+/** Returns an already serialized body as a download with the given name. */
+export const buildFileResponse = (
+  body: string,
+  contentType: string,
+  fileName: string,
+  origin?: string,
+) => {
+  return {
+    statusCode: 200,
+    headers: {
+      ...buildHeaders(origin),
+      'Access-Control-Expose-Headers': 'Content-Disposition',
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+    body,
+  };
+};
+
 export default buildResponse;
@@ -0,0 +1,25 @@
+/** Splits a comma separated group list such as `rates-admins,ops`. */
+export const parseGroupList = (value: string): string[] =>
+  value
+    .split(',')
+    .map((group) => group.trim())
+    .filter(Boolean);
+
+/**
+ * Whether the caller's `cognito:groups` claim names one of `allowedGroups`.
+ * An empty allow list lets every authenticated caller through.
+ */
+export const isCallerInGroups = (
+  groupsClaim: unknown,
+  allowedGroups: string[],
+): boolean => {
+  if (!allowedGroups.length) {
+    return true;
+  }
+  if (typeof groupsClaim !== 'string' || !groupsClaim) {
+    return false;
+  }
+  return parseGroupList(groupsClaim).some((group) =>
+    allowedGroups.includes(group),
+  );
+};
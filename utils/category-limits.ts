@@ -0,0 +1,77 @@
+import {
+  convertToBaseCurrency,
+  createRateContext,
+  normalizeCurrencyCode,
+} from './currency';
+import {
+  scanCategoriesWithDefaultLimit,
+  seedCategoryMonth,
+} from './ledger-store';
+
+export interface LimitSeedingSummary {
+  months: string[];
+  processed: number;
+  seeded: number;
+  skipped: number;
+  failures: number;
+}
+
+const addMonths = (month: string, count: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + count, 1))
+    .toISOString()
+    .slice(0, 7);
+};
+
+/**
+ * Seeds the current and the next month of every category that has a
+ * `defaultLimit`, converting it to the base currency at today's rate.
+ * Months that already have a limit are left alone, so the job can run
+ * daily and a missed run is caught up by the next one.
+ */
+export const seedDefaultLimits = async (
+  now: Date = new Date(),
+): Promise<LimitSeedingSummary> => {
+  const currentMonth = now.toISOString().slice(0, 7);
+  const months = [currentMonth, addMonths(currentMonth, 1)];
+  const rateContext = createRateContext();
+  const categories = await scanCategoriesWithDefaultLimit();
+  const summary: LimitSeedingSummary = {
+    months,
+    processed: 0,
+    seeded: 0,
+    skipped: 0,
+    failures: 0,
+  };
+
+  for (const category of categories) {
+    summary.processed += 1;
+    try {
+      const limit = category.defaultLimit ?? 0;
+      const { baseAmount: baseLimit } = await convertToBaseCurrency(
+        limit,
+        normalizeCurrencyCode(category.defaultLimitCurrency),
+        rateContext,
+      );
+
+      for (const month of months) {
+        const seeded = await seedCategoryMonth(category.id, month, {
+          limit,
+          spent: 0,
+          baseLimit,
+          baseSpent: 0,
+        });
+        if (seeded) {
+          summary.seeded += 1;
+        } else {
+          summary.skipped += 1;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to seed default limit', category.id, error);
+      summary.failures += 1;
+    }
+  }
+
+  return summary;
+};
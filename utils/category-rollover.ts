@@ -0,0 +1,68 @@
+import type { Category, RolloverPolicy } from '../types/budget';
+import { toCurrencyNumber } from './currency';
+
+export const ROLLOVER_POLICIES: RolloverPolicy[] = [
+  'none',
+  'carryUnspent',
+  'carryOverspend',
+];
+
+export const isRolloverPolicy = (value: unknown): value is RolloverPolicy =>
+  ROLLOVER_POLICIES.includes(value as RolloverPolicy);
+
+export interface CategoryMonthRollover {
+  carryIn: number; // base currency
+  effectiveLimit: number; // baseLimit + carryIn
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const previousMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 2, 1)).toISOString().slice(0, 7);
+};
+
+const applyPolicy = (policy: RolloverPolicy, remaining: number) => {
+  if (policy === 'carryUnspent') {
+    return Math.max(0, remaining);
+  }
+  if (policy === 'carryOverspend') {
+    return Math.min(0, remaining);
+  }
+  return 0;
+};
+
+/**
+ * Walks `monthlyData` oldest first and derives each month's carry-in from
+ * the previous month's remaining budget (its effective limit minus
+ * `baseSpent`), so carries accumulate across consecutive months. A gap in
+ * the months resets the carry to zero.
+ */
+export const computeCategoryRollover = (
+  category: Pick<Category, 'monthlyData' | 'rolloverPolicy'>,
+): Record<string, CategoryMonthRollover> => {
+  const policy = category.rolloverPolicy ?? 'none';
+  const monthlyData = category.monthlyData ?? {};
+  const result: Record<string, CategoryMonthRollover> = {};
+
+  Object.keys(monthlyData)
+    .sort()
+    .forEach((month) => {
+      const previousKey = previousMonth(month);
+      const previous = result[previousKey];
+      const remaining = previous
+        ? previous.effectiveLimit -
+          toCurrencyNumber(monthlyData[previousKey]?.baseSpent ?? 0)
+        : 0;
+      const carryIn = round(applyPolicy(policy, remaining));
+
+      result[month] = {
+        carryIn,
+        effectiveLimit: round(
+          toCurrencyNumber(monthlyData[month]?.baseLimit ?? 0) + carryIn,
+        ),
+      };
+    });
+
+  return result;
+};
@@ -0,0 +1,104 @@
+import { buildDateKey } from './build-date-key';
+import { adjustCategorySpendAtomically } from './recurring/spend-store';
+import type { CategorySpendAdjustment } from './recurring/spend-store';
+import { resolveCategoryId } from './recurring/store';
+import { allocateTransactionAmount } from './transaction-splits';
+
+export interface CategorySpendDelta {
+  userId: string;
+  category: string;
+  month: string; // yyyy-MM
+  deltaBase: number;
+}
+
+const MONTH_REGEX = /^\d{4}-\d{2}/;
+
+const resolveMonth = (image: Record<string, unknown>): string | null => {
+  if (typeof image.dateKey === 'string' && MONTH_REGEX.test(image.dateKey)) {
+    return image.dateKey.slice(0, 7);
+  }
+  if (typeof image.date !== 'string' || typeof image.id !== 'string') {
+    return null;
+  }
+  try {
+    return buildDateKey(image.date, image.id).slice(0, 7);
+  } catch {
+    return null;
+  }
+};
+
+const toSpendEntries = (
+  image: Record<string, unknown> | undefined,
+  sign: 1 | -1,
+): CategorySpendDelta[] => {
+  if (!image || image.type !== 'expense' || typeof image.userId !== 'string') {
+    return [];
+  }
+  const month = resolveMonth(image);
+  if (!month) {
+    return [];
+  }
+  const userId = image.userId;
+  return allocateTransactionAmount(image)
+    .filter((allocation) => allocation.category)
+    .map((allocation) => ({
+      userId,
+      category: allocation.category,
+      month,
+      deltaBase: sign * allocation.baseAmount,
+    }));
+};
+
+/**
+ * Diffs the old and new image of a transaction into per category/month
+ * spend deltas, one per split when the transaction is split. Creating only
+ * adds, deleting only reverses, and editing reverses the old allocation
+ * before applying the new one so amount, month and category moves all net
+ * out correctly.
+ */
+export const computeCategorySpendDeltas = (
+  oldImage?: Record<string, unknown>,
+  newImage?: Record<string, unknown>,
+): CategorySpendDelta[] => {
+  const merged = new Map<string, CategorySpendDelta>();
+  [...toSpendEntries(oldImage, -1), ...toSpendEntries(newImage, 1)].forEach(
+    (entry) => {
+      const key = `${entry.userId}|${entry.category}|${entry.month}`;
+      const existing = merged.get(key);
+      merged.set(key, {
+        ...entry,
+        deltaBase: (existing?.deltaBase ?? 0) + entry.deltaBase,
+      });
+    },
+  );
+
+  return [...merged.values()]
+    .map((entry) => ({
+      ...entry,
+      deltaBase: Number(entry.deltaBase.toFixed(2)),
+    }))
+    .filter((entry) => entry.deltaBase !== 0);
+};
+
+/**
+ * Applies the deltas of one stream record in a single transaction, keyed by
+ * `requestToken` (the record's event id) so a retry cannot book them twice.
+ */
+export const applyCategorySpendDeltas = async (
+  deltas: CategorySpendDelta[],
+  requestToken?: string,
+): Promise<void> => {
+  const adjustments: CategorySpendAdjustment[] = [];
+  for (const delta of deltas) {
+    const categoryId = await resolveCategoryId(delta.userId, delta.category);
+    if (categoryId) {
+      adjustments.push({
+        categoryId,
+        userId: delta.userId,
+        month: delta.month,
+        deltaBase: delta.deltaBase,
+      });
+    }
+  }
+  await adjustCategorySpendAtomically(adjustments, requestToken);
+};
@@ -0,0 +1,63 @@
+import type { CurrencyCode, ExchangeRateSnapshot } from '../types/budget';
+import { BASE_CURRENCY_CODE } from './currency-config';
+
+/** Base currency rates keyed by their target currency. */
+export type BaseLegs = Map<CurrencyCode, ExchangeRateSnapshot>;
+
+const combineProviders = (legs: ExchangeRateSnapshot[]) =>
+  [...new Set(legs.map(({ provider }) => provider))].join('+');
+
+const requireLeg = (legs: BaseLegs, currency: CurrencyCode) => {
+  const leg = legs.get(currency);
+  if (!leg) {
+    throw new Error(
+      `Exchange rate not found for ${BASE_CURRENCY_CODE}->${currency}`,
+    );
+  }
+  return leg;
+};
+
+/**
+ * Derives `from`->`to` from base currency rates: the leg itself when `from` is
+ * the base, its inverse when `to` is, and otherwise the cross rate through the
+ * base. The snapshot is as old and as stale as its oldest leg.
+ */
+export const deriveFromBaseLegs = (
+  from: CurrencyCode,
+  to: CurrencyCode,
+  legs: BaseLegs,
+): ExchangeRateSnapshot => {
+  if (from === BASE_CURRENCY_CODE) {
+    return requireLeg(legs, to);
+  }
+
+  const fromLeg = requireLeg(legs, from);
+  if (to === BASE_CURRENCY_CODE) {
+    return {
+      fromCurrency: from,
+      toCurrency: to,
+      rate: 1 / fromLeg.rate,
+      provider: fromLeg.provider,
+      capturedAt: fromLeg.capturedAt,
+      stale: fromLeg.stale ?? false,
+      derivation: { method: 'inverse', path: [from, to] },
+    };
+  }
+
+  const toLeg = requireLeg(legs, to);
+  return {
+    fromCurrency: from,
+    toCurrency: to,
+    rate: toLeg.rate / fromLeg.rate,
+    provider: combineProviders([fromLeg, toLeg]),
+    capturedAt:
+      fromLeg.capturedAt < toLeg.capturedAt
+        ? fromLeg.capturedAt
+        : toLeg.capturedAt,
+    stale: Boolean(fromLeg.stale || toLeg.stale),
+    derivation: {
+      method: 'cross',
+      path: [from, BASE_CURRENCY_CODE, to],
+    },
+  };
+};
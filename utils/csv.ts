@@ -0,0 +1,88 @@
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain the delimiter, line
+ * breaks and doubled quotes. Blank lines are dropped.
+ */
+export const parseCsv = (input: string, delimiter = ','): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (text[i + 1] === '\n') {
+        i += 1;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+  if (field !== '' || row.length) {
+    endRow();
+  }
+
+  return rows;
+};
+
+const escapeCsvField = (value: unknown, delimiter: string) => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+  return text.includes('"') ||
+    text.includes(delimiter) ||
+    text.includes('\n') ||
+    text.includes('\r')
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+/** Serializes rows under a header of `columns`; missing values stay empty. */
+export const toCsv = (
+  rows: Record<string, unknown>[],
+  columns: string[],
+  delimiter = ',',
+): string =>
+  [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((values) =>
+      values.map((value) => escapeCsvField(value, delimiter)).join(delimiter),
+    )
+    .join('\r\n');
@@ -9,21 +9,69 @@ const SECRET_CACHE_TTL_MS = Number(
   process.env.CURRENCY_SECRET_CACHE_TTL_MS ?? 5 * 60 * 1000,
 );
 
-export const BASE_CURRENCY_CODE =
-  (process.env.BASE_CURRENCY as CurrencyCode) || 'EUR';
+const ISO_CODE_REGEX = /^[A-Z]{3}$/;
+
+/** Narrows a string to a {@link CurrencyCode} if it is ISO 4217 shaped. */
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === 'string' && ISO_CODE_REGEX.test(value);
+
+const BASE_CURRENCY_ENV = process.env.BASE_CURRENCY?.trim().toUpperCase();
+export const BASE_CURRENCY_CODE: CurrencyCode = isCurrencyCode(
+  BASE_CURRENCY_ENV,
+)
+  ? BASE_CURRENCY_ENV
+  : 'EUR';
 const SUPPORTED_CURRENCIES_ENV =
   process.env.SUPPORTED_CURRENCIES || BASE_CURRENCY_CODE;
-export const SUPPORTED_CURRENCIES = SUPPORTED_CURRENCIES_ENV.split(',')
-  .map((currency) => currency.trim())
-  .filter(Boolean) as CurrencyCode[];
+export const SUPPORTED_CURRENCIES: CurrencyCode[] =
+  SUPPORTED_CURRENCIES_ENV.split(',')
+    .map((currency) => currency.trim().toUpperCase())
+    .filter(isCurrencyCode);
 export const RATE_PROVIDER =
   process.env.CURRENCY_RATE_PROVIDER || 'currencyapi.com';
 export const CURRENCY_API_URL =
   process.env.CURRENCY_API_URL || 'https://api.currencyapi.com/v3/latest';
+export const ECB_RATES_URL =
+  process.env.ECB_RATES_URL ||
+  'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml';
+// Ordered provider ids; later ones fill in what earlier ones could not quote.
+export const RATE_PROVIDER_IDS = (
+  process.env.CURRENCY_RATE_PROVIDERS || 'currencyapi'
+)
+  .split(',')
+  .map((provider) => provider.trim())
+  .filter(Boolean);
+// Abort a provider request after this long so the next provider gets a turn.
+export const RATE_PROVIDER_TIMEOUT_MS = Number(
+  process.env.CURRENCY_PROVIDER_TIMEOUT_MS ?? 5000,
+);
 export const CURRENCY_API_SECRET_ARN = process.env.CURRENCY_API_SECRET_ARN;
+// Fixed pegs as `PEGGED:ANCHOR:UNITS_PER_ANCHOR`, e.g. 1 EUR = 1.95583 BGN.
+const CURRENCY_PEGS_ENV = process.env.CURRENCY_PEGS || 'BGN:EUR:1.95583';
+export const PEG_PROVIDER = 'peg';
+
+export interface CurrencyPeg {
+  anchor: CurrencyCode;
+  rate: number; // units of the pegged currency per one anchor unit
+}
+
+export const CURRENCY_PEGS: Record<string, CurrencyPeg> = Object.fromEntries(
+  CURRENCY_PEGS_ENV.split(',').flatMap((entry) => {
+    const [pegged, anchor, rate] = entry.trim().toUpperCase().split(':');
+    return isCurrencyCode(pegged) &&
+      isCurrencyCode(anchor) &&
+      pegged !== anchor &&
+      Number(rate) > 0
+      ? [[pegged, { anchor, rate: Number(rate) }]]
+      : [];
+  }),
+);
 export const CACHE_TTL_MS = Number(
   process.env.CURRENCY_CACHE_TTL_MS ?? 5 * 60 * 1000,
 );
+export const CURRENCY_PERSISTED_FRESH_MS = Number(
+  process.env.CURRENCY_PERSISTED_FRESH_MS ?? 24 * 60 * 60 * 1000,
+);
 
 let cachedSecret: { value: string; expiresAt: number } | null = null;
 
@@ -34,12 +82,35 @@ export const getSupportedCurrencies = () => SUPPORTED_CURRENCIES;
 export const isSupportedCurrency = (
   currency?: string,
 ): currency is CurrencyCode =>
-  !!currency && SUPPORTED_CURRENCIES.includes(currency as CurrencyCode);
+  isCurrencyCode(currency) && SUPPORTED_CURRENCIES.includes(currency);
 
 export const normalizeCurrencyCode = (currency?: string): CurrencyCode =>
-  isSupportedCurrency(currency)
-    ? (currency as CurrencyCode)
-    : BASE_CURRENCY_CODE;
+  isSupportedCurrency(currency) ? currency : BASE_CURRENCY_CODE;
+
+const toAnchorUnits = (currency: CurrencyCode) => {
+  const peg = CURRENCY_PEGS[currency];
+  return peg
+    ? { anchor: peg.anchor, units: peg.rate }
+    : { anchor: currency, units: 1 };
+};
+
+/**
+ * Exact rate between two currencies tied by a peg: a pegged currency and its
+ * anchor (either way), or two currencies pegged to the same anchor.
+ */
+export const getPeggedRate = (
+  from: CurrencyCode,
+  to: CurrencyCode,
+): number | undefined => {
+  if (from === to || (!CURRENCY_PEGS[from] && !CURRENCY_PEGS[to])) {
+    return undefined;
+  }
+  const source = toAnchorUnits(from);
+  const target = toAnchorUnits(to);
+  return source.anchor === target.anchor
+    ? target.units / source.units
+    : undefined;
+};
 
 export const getCurrencyApiKey = async (): Promise<string | undefined> => {
   if (process.env.CURRENCY_API_KEY) {
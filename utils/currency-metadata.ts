@@ -0,0 +1,47 @@
+import type { CurrencyCode } from '../types/budget';
+
+export interface CurrencyMetadata {
+  code: CurrencyCode;
+  name: string;
+  symbol: string;
+  minorUnits: number; // ISO 4217 exponent: digits after the decimal point
+}
+
+// ISO 4217 data for the currencies we can offer. A currency listed here only
+// needs adding to SUPPORTED_CURRENCIES to be enabled.
+const ISO_4217: Partial<Record<string, Omit<CurrencyMetadata, 'code'>>> = {
+  AUD: { name: 'Australian Dollar', symbol: 'A$', minorUnits: 2 },
+  BGN: { name: 'Bulgarian Lev', symbol: 'лв', minorUnits: 2 },
+  CAD: { name: 'Canadian Dollar', symbol: 'C$', minorUnits: 2 },
+  CHF: { name: 'Swiss Franc', symbol: 'CHF', minorUnits: 2 },
+  CZK: { name: 'Czech Koruna', symbol: 'Kč', minorUnits: 2 },
+  DKK: { name: 'Danish Krone', symbol: 'kr', minorUnits: 2 },
+  EUR: { name: 'Euro', symbol: '€', minorUnits: 2 },
+  GBP: { name: 'Pound Sterling', symbol: '£', minorUnits: 2 },
+  HUF: { name: 'Forint', symbol: 'Ft', minorUnits: 2 },
+  JPY: { name: 'Yen', symbol: '¥', minorUnits: 0 },
+  KWD: { name: 'Kuwaiti Dinar', symbol: 'KD', minorUnits: 3 },
+  NOK: { name: 'Norwegian Krone', symbol: 'kr', minorUnits: 2 },
+  PLN: { name: 'Zloty', symbol: 'zł', minorUnits: 2 },
+  RON: { name: 'Romanian Leu', symbol: 'lei', minorUnits: 2 },
+  SEK: { name: 'Swedish Krona', symbol: 'kr', minorUnits: 2 },
+  TRY: { name: 'Turkish Lira', symbol: '₺', minorUnits: 2 },
+  USD: { name: 'US Dollar', symbol: '$', minorUnits: 2 },
+  XOF: { name: 'CFA Franc BCEAO', symbol: 'CFA', minorUnits: 0 },
+};
+
+const DEFAULT_MINOR_UNITS = 2;
+
+/** Metadata for any code; unknown codes get two minor units. */
+export const getCurrencyMetadata = (code: CurrencyCode): CurrencyMetadata => ({
+  code,
+  ...(ISO_4217[code] ?? {
+    name: code,
+    symbol: code,
+    minorUnits: DEFAULT_MINOR_UNITS,
+  }),
+});
+
+/** Rounds to the currency's minor units, e.g. whole yen or cents. */
+export const roundToMinorUnits = (amount: number, currency: CurrencyCode) =>
+  Number(amount.toFixed(getCurrencyMetadata(currency).minorUnits));
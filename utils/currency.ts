@@ -2,24 +2,41 @@ import type { CurrencyCode, ExchangeRateSnapshot } from '../types/budget';
 import {
   BASE_CURRENCY_CODE,
   CACHE_TTL_MS,
-  CURRENCY_API_URL,
   RATE_PROVIDER,
   getSupportedCurrencies as getConfiguredCurrencies,
-  getCurrencyApiKey,
 } from './currency-config';
-import { getPersistedRate, putPersistedRate } from './rates-store';
+import { roundToMinorUnits } from './currency-metadata';
+import { fetchProviderRates, getPegSnapshot } from './rate-providers';
+import { deriveFromBaseLegs } from './cross-rates';
+import type { BaseLegs } from './cross-rates';
+import {
+  getHistoricalRate,
+  getPersistedRate,
+  putPersistedRate,
+} from './rates-store';
+import type { PersistedRateResult } from './rates-store';
 
 export {
   refreshAllRates,
   type RefreshRatesOptions,
   type RefreshRatesResult,
-  getLastRefreshEpoch,
+  queryRateHistory,
 } from './rates-store';
+export {
+  getLastRefreshEpoch,
+  getRatesStatus,
+  type RatesStatus,
+} from './rates-refresh-state';
 export {
   BASE_CURRENCY_CODE,
   isSupportedCurrency,
   normalizeCurrencyCode,
 } from './currency-config';
+export {
+  type CurrencyMetadata,
+  getCurrencyMetadata,
+  roundToMinorUnits,
+} from './currency-metadata';
 
 type RateCacheEntry = {
   snapshot: ExchangeRateSnapshot;
@@ -27,7 +44,8 @@ type RateCacheEntry = {
 };
 
 const rateCache = new Map<string, RateCacheEntry>();
-const cacheKey = (from: CurrencyCode, to: CurrencyCode) => `${from}:${to}`;
+const cacheKey = (from: CurrencyCode, to: CurrencyCode, asOf?: string) =>
+  asOf ? `${from}:${to}@${asOf}` : `${from}:${to}`;
 const supportedCurrencies = getConfiguredCurrencies();
 const now = () => Date.now();
 
@@ -35,6 +53,7 @@ export interface RateContext {
   getSnapshot: (
     from: CurrencyCode,
     to: CurrencyCode,
+    asOf?: string,
   ) => Promise<ExchangeRateSnapshot>;
 }
 
@@ -54,8 +73,16 @@ function createSnapshotGetter() {
   return async function getSnapshot(
     from: CurrencyCode,
     to: CurrencyCode,
+    asOf?: string,
   ): Promise<ExchangeRateSnapshot> {
-    const key = cacheKey(from, to);
+    // Pegged pairs are exact and never change, on any date.
+    const pegged = getPegSnapshot(from, to);
+    if (pegged) {
+      return pegged;
+    }
+
+    const historicalDate = toHistoricalDate(asOf);
+    const key = cacheKey(from, to, historicalDate);
     const cached = rateCache.get(key);
     if (cached && cached.expiresAt > now()) {
       return cached.snapshot;
@@ -66,7 +93,11 @@ function createSnapshotGetter() {
       return inFlight;
     }
 
-    const fetchPromise = fetchRate(from, to).finally(() => {
+    const fetchPromise = (
+      historicalDate
+        ? fetchHistoricalRate(from, to, historicalDate)
+        : fetchRate(from, to)
+    ).finally(() => {
       pending.delete(key);
     });
 
@@ -87,15 +118,108 @@ const getSnapshot = (
   from: CurrencyCode,
   to: CurrencyCode,
   context?: RateContext,
-) => (context ? context.getSnapshot(from, to) : defaultGetSnapshot(from, to));
+  asOf?: string,
+) =>
+  context
+    ? context.getSnapshot(from, to, asOf)
+    : defaultGetSnapshot(from, to, asOf);
 
-const rememberRate = (snapshot: ExchangeRateSnapshot) => {
-  rateCache.set(cacheKey(snapshot.fromCurrency, snapshot.toCurrency), {
+const rememberRate = (snapshot: ExchangeRateSnapshot, asOf?: string) => {
+  rateCache.set(cacheKey(snapshot.fromCurrency, snapshot.toCurrency, asOf), {
     snapshot,
     expiresAt: now() + CACHE_TTL_MS,
   });
 };
 
+/**
+ * Only dates before today (UTC, matching the history keys) use the stored
+ * history; today, future dates and missing values use the latest rate.
+ */
+const toHistoricalDate = (asOf?: string) => {
+  const date = asOf?.slice(0, 10);
+  return date && date < new Date(now()).toISOString().slice(0, 10)
+    ? date
+    : undefined;
+};
+
+async function fetchHistoricalRate(
+  from: CurrencyCode,
+  to: CurrencyCode,
+  asOf: string,
+): Promise<ExchangeRateSnapshot> {
+  if (from === to) {
+    return fetchRate(from, to);
+  }
+  const historical = await getHistoricalRate(from, to, asOf);
+  if (!historical) {
+    // No history that far back (e.g. before it was recorded): use the
+    // latest rate rather than failing the conversion.
+    return fetchRate(from, to);
+  }
+  rememberRate(historical, asOf);
+  return historical;
+}
+
+const isFresh = (persisted: PersistedRateResult | null) =>
+  persisted?.freshUntilEpoch !== undefined && persisted.freshUntilEpoch > now();
+
+/**
+ * Base currency rates for `currencies`. Only legs missing from the caches
+ * (or no longer fresh) are requested, in a single provider call; if that
+ * fails, stale stored legs are used when every missing leg has one.
+ */
+async function getBaseLegs(currencies: CurrencyCode[]): Promise<BaseLegs> {
+  const legs: BaseLegs = new Map();
+  const storedLegs: BaseLegs = new Map();
+  const missing: CurrencyCode[] = [];
+
+  await Promise.all(
+    currencies.map(async (currency) => {
+      const pegged = getPegSnapshot(BASE_CURRENCY_CODE, currency);
+      const cached = rateCache.get(cacheKey(BASE_CURRENCY_CODE, currency));
+      if (pegged || (cached && cached.expiresAt > now())) {
+        legs.set(currency, pegged ?? cached!.snapshot);
+        return;
+      }
+      const persisted = await getPersistedRate(BASE_CURRENCY_CODE, currency);
+      if (isFresh(persisted)) {
+        const freshLeg = { ...persisted!.snapshot, stale: false };
+        rememberRate(freshLeg);
+        legs.set(currency, freshLeg);
+        return;
+      }
+      if (persisted) {
+        storedLegs.set(currency, persisted.snapshot);
+      }
+      missing.push(currency);
+    }),
+  );
+
+  if (!missing.length) {
+    return legs;
+  }
+  try {
+    const fetched = await fetchProviderRates(BASE_CURRENCY_CODE, missing);
+    await Promise.all(
+      fetched.map(async (snapshot) => {
+        rememberRate(snapshot);
+        await putPersistedRate(snapshot);
+        legs.set(snapshot.toCurrency, snapshot);
+      }),
+    );
+  } catch (err) {
+    if (!missing.every((currency) => storedLegs.has(currency))) {
+      throw err;
+    }
+    missing.forEach((currency) => {
+      const staleLeg = { ...storedLegs.get(currency)!, stale: true };
+      rememberRate(staleLeg);
+      legs.set(currency, staleLeg);
+    });
+  }
+  return legs;
+}
+
 async function fetchRate(
   from: CurrencyCode,
   to: CurrencyCode,
@@ -112,57 +236,31 @@ async function fetchRate(
 
   const key = cacheKey(from, to);
   const cached = rateCache.get(key);
-  const nowMs = now();
-  if (cached && cached.expiresAt > nowMs) {
+  if (cached && cached.expiresAt > now()) {
     return cached.snapshot;
   }
 
-  const persisted = await getPersistedRate(from, to);
-  if (
-    persisted?.freshUntilEpoch !== undefined &&
-    persisted.freshUntilEpoch > nowMs
-  ) {
-    const freshSnapshot = { ...persisted.snapshot, stale: false };
+  // Pairs with the base currency are the legs themselves; other pairs may
+  // have been stored, derived, by refreshAllRates.
+  const involvesBase = from === BASE_CURRENCY_CODE || to === BASE_CURRENCY_CODE;
+  const persisted = involvesBase ? null : await getPersistedRate(from, to);
+  if (isFresh(persisted)) {
+    const freshSnapshot = { ...persisted!.snapshot, stale: false };
     rememberRate(freshSnapshot);
     return freshSnapshot;
   }
 
-  const apiKey = await getCurrencyApiKey();
-  const url = new URL(CURRENCY_API_URL);
-  url.searchParams.set('base_currency', from);
-  url.searchParams.set('currencies', to);
-  if (apiKey && !url.searchParams.has('apikey')) {
-    url.searchParams.set('apikey', apiKey);
-  }
-
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch exchange rate ${from}->${to}: ${response.status} ${response.statusText}`,
-      );
+    const legs = await getBaseLegs(
+      [from, to].filter((currency) => currency !== BASE_CURRENCY_CODE),
+    );
+    const snapshot = deriveFromBaseLegs(from, to, legs);
+    if (snapshot.derivation) {
+      rememberRate(snapshot);
+      if (!snapshot.stale) {
+        await putPersistedRate(snapshot);
+      }
     }
-
-    const payload = (await response.json()) as {
-      data?: Record<string, { value: number }>;
-    };
-
-    const rate = payload.data?.[to]?.value;
-    if (typeof rate !== 'number') {
-      throw new Error(`Exchange rate not found for ${from}->${to}`);
-    }
-
-    const snapshot: ExchangeRateSnapshot = {
-      fromCurrency: from,
-      toCurrency: to,
-      rate,
-      provider: RATE_PROVIDER,
-      capturedAt: new Date().toISOString(),
-      stale: false,
-    };
-
-    rememberRate(snapshot);
-    await putPersistedRate(snapshot);
     return snapshot;
   } catch (err) {
     if (persisted?.snapshot) {
@@ -179,15 +277,21 @@ async function fetchRate(
 
 export const getSupportedCurrencies = () => supportedCurrencies;
 
+/**
+ * Converts at the latest rate, or at the stored daily rate for `asOf`
+ * (YYYY-MM-DD) when it is a past date. The result is rounded to the target
+ * currency's minor units.
+ */
 export async function convertAmount(
   amount: number,
   from: CurrencyCode,
   to: CurrencyCode,
   rateContext?: RateContext,
+  asOf?: string,
 ) {
-  const snapshot = await getSnapshot(from, to, rateContext);
+  const snapshot = await getSnapshot(from, to, rateContext, asOf);
   return {
-    amount: Number((amount * snapshot.rate).toFixed(2)),
+    amount: roundToMinorUnits(amount * snapshot.rate, to),
     snapshot,
   };
 }
@@ -196,12 +300,14 @@ export async function convertToBaseCurrency(
   amount: number,
   currency: CurrencyCode,
   rateContext?: RateContext,
+  asOf?: string,
 ) {
   const { amount: baseAmount, snapshot } = await convertAmount(
     amount,
     currency,
     BASE_CURRENCY_CODE,
     rateContext,
+    asOf,
   );
   return {
     baseAmount,
@@ -213,12 +319,14 @@ export async function convertFromBaseCurrency(
   baseAmount: number,
   targetCurrency: CurrencyCode,
   rateContext?: RateContext,
+  asOf?: string,
 ) {
   const { amount, snapshot } = await convertAmount(
     baseAmount,
     BASE_CURRENCY_CODE,
     targetCurrency,
     rateContext,
+    asOf,
   );
   return {
     amount,
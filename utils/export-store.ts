@@ -0,0 +1,47 @@
+import {
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { v4 as uuidv4 } from 'uuid';
+
+const client = new S3Client({});
+
+const EXPORT_BUCKET = process.env.EXPORT_BUCKET_NAME;
+export const EXPORT_URL_TTL_SECONDS = Number(
+  process.env.EXPORT_URL_TTL_SECONDS ?? 15 * 60,
+);
+
+/**
+ * Uploads an export file under the user's prefix and returns a presigned
+ * download URL that expires after EXPORT_URL_TTL_SECONDS. The bucket's
+ * lifecycle rule removes the object itself a day later.
+ */
+export const storeExportFile = async (
+  userId: string,
+  body: string,
+  contentType: string,
+  fileName: string,
+): Promise<string> => {
+  if (!EXPORT_BUCKET) {
+    throw new Error('EXPORT_BUCKET_NAME is not configured');
+  }
+
+  const key = `${userId}/${uuidv4()}/${fileName}`;
+  await client.send(
+    new PutObjectCommand({
+      Bucket: EXPORT_BUCKET,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      ContentDisposition: `attachment; filename="${fileName}"`,
+    }),
+  );
+
+  return getSignedUrl(
+    client,
+    new GetObjectCommand({ Bucket: EXPORT_BUCKET, Key: key }),
+    { expiresIn: EXPORT_URL_TTL_SECONDS },
+  );
+};
@@ -0,0 +1,166 @@
+import {
+  BatchWriteItemCommand,
+  BatchWriteItemCommandOutput,
+  DynamoDBClient,
+  TransactWriteItemsCommand,
+  TransactionCanceledException,
+  WriteRequest,
+  paginateQuery,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type { GoalContribution } from '../types/budget';
+
+const client = new DynamoDBClient({});
+
+const GOALS_TABLE = process.env.GOALS_TABLE_NAME;
+const CONTRIBUTIONS_TABLE = process.env.GOAL_CONTRIBUTIONS_TABLE_NAME;
+
+const ensureTable = (name: string | undefined, key: string) => {
+  if (!name) {
+    throw new Error(`${key} is not configured`);
+  }
+  return name;
+};
+
+const BATCH_WRITE_SIZE = 25;
+const MAX_BATCH_ATTEMPTS = 5;
+
+export type ContributionWriteResult =
+  | 'recorded'
+  | 'duplicate'
+  | 'insufficient'
+  | 'goalNotFound';
+
+/** Signed change a contribution makes to the goal's base balance. */
+export const getContributionDelta = (
+  contribution: Pick<GoalContribution, 'type' | 'baseAmount'>,
+) =>
+  contribution.type === 'withdrawal'
+    ? -contribution.baseAmount
+    : contribution.baseAmount;
+
+/**
+ * Appends a contribution and moves the goal's `current` by the same amount
+ * in one transaction, so the balance always matches the ledger. Entries are
+ * keyed by `dateKey`: writing the same one twice is reported as a
+ * duplicate, and withdrawals may not take the balance below zero.
+ * Deposits into a deleted goal are reported as `goalNotFound`.
+ */
+export const recordGoalContribution = async (
+  contribution: GoalContribution,
+): Promise<ContributionWriteResult> => {
+  const delta = getContributionDelta(contribution);
+  const goalCondition =
+    delta < 0
+      ? 'attribute_exists(id) AND #current >= :withdrawn'
+      : 'attribute_exists(id)';
+
+  try {
+    await client.send(
+      new TransactWriteItemsCommand({
+        TransactItems: [
+          {
+            Put: {
+              TableName: ensureTable(
+                CONTRIBUTIONS_TABLE,
+                'GOAL_CONTRIBUTIONS_TABLE_NAME',
+              ),
+              Item: marshall(contribution, { removeUndefinedValues: true }),
+              ConditionExpression: 'attribute_not_exists(goalId)',
+            },
+          },
+          {
+            Update: {
+              TableName: ensureTable(GOALS_TABLE, 'GOALS_TABLE_NAME'),
+              Key: marshall({ id: contribution.goalId }),
+              UpdateExpression: 'ADD #current :delta',
+              ConditionExpression: goalCondition,
+              ExpressionAttributeNames: { '#current': 'current' },
+              ExpressionAttributeValues: marshall({
+                ':delta': delta,
+                ...(delta < 0 ? { ':withdrawn': -delta } : {}),
+              }),
+            },
+          },
+        ],
+      }),
+    );
+    return 'recorded';
+  } catch (error) {
+    if (!(error instanceof TransactionCanceledException)) {
+      throw error;
+    }
+    const [putReason, updateReason] = error.CancellationReasons ?? [];
+    if (putReason?.Code === 'ConditionalCheckFailed') {
+      return 'duplicate';
+    }
+    if (updateReason?.Code === 'ConditionalCheckFailed') {
+      return delta < 0 ? 'insufficient' : 'goalNotFound';
+    }
+    throw error;
+  }
+};
+
+/** Returns a goal's contributions oldest first. */
+export const queryGoalContributions = async (
+  goalId: string,
+): Promise<GoalContribution[]> => {
+  const items: GoalContribution[] = [];
+  const paginator = paginateQuery(
+    { client },
+    {
+      TableName: ensureTable(
+        CONTRIBUTIONS_TABLE,
+        'GOAL_CONTRIBUTIONS_TABLE_NAME',
+      ),
+      KeyConditionExpression: 'goalId = :goalId',
+      ExpressionAttributeValues: marshall({ ':goalId': goalId }),
+    },
+  );
+  for await (const page of paginator) {
+    if (page.Items) {
+      items.push(...page.Items.map((i) => unmarshall(i) as GoalContribution));
+    }
+  }
+  return items;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Removes a deleted goal's ledger so it does not linger in the table.
+ * Unprocessed deletes are retried with backoff; throws if some remain.
+ */
+export const deleteGoalContributions = async (goalId: string) => {
+  const TableName = ensureTable(
+    CONTRIBUTIONS_TABLE,
+    'GOAL_CONTRIBUTIONS_TABLE_NAME',
+  );
+  const contributions = await queryGoalContributions(goalId);
+
+  for (let i = 0; i < contributions.length; i += BATCH_WRITE_SIZE) {
+    let requests: WriteRequest[] | undefined = contributions
+      .slice(i, i + BATCH_WRITE_SIZE)
+      .map(({ dateKey }) => ({
+        DeleteRequest: { Key: marshall({ goalId, dateKey }) },
+      }));
+
+    let attempt = 0;
+    while (requests?.length && attempt < MAX_BATCH_ATTEMPTS) {
+      const res: BatchWriteItemCommandOutput = await client.send(
+        new BatchWriteItemCommand({ RequestItems: { [TableName]: requests } }),
+      );
+      requests = res.UnprocessedItems?.[TableName];
+      attempt += 1;
+      if (requests?.length && attempt < MAX_BATCH_ATTEMPTS) {
+        await sleep(2 ** attempt * 50);
+      }
+    }
+
+    if (requests?.length) {
+      throw new Error(
+        `Failed to delete ${requests.length} contributions of goal ${goalId}`,
+      );
+    }
+  }
+};
@@ -1,5 +1,13 @@
-export { default as buildResponse } from './build-response';
+export { default as buildResponse, buildFileResponse } from './build-response';
 export * from './build-date-key';
+export * from './caller-groups';
+export * from './category-limits';
+export * from './category-rollover';
+export * from './category-spend';
+export * from './csv';
 export * from './currency';
+export * from './goal-contributions';
 export * from './recurring';
+export * from './transaction-splits';
+export * from './transaction-valuation';
 export * from './user-preferences';
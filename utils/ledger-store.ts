@@ -0,0 +1,274 @@
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+  paginateQuery,
+  paginateScan,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import type {
+  Category,
+  CategoryMonthlyEntry,
+  Goal,
+  Transaction,
+} from '../types/budget';
+import { DATE_KEY_UPPER_SUFFIX } from './build-date-key';
+
+const client = new DynamoDBClient({});
+
+const TRANSACTIONS_TABLE = process.env.TRANSACTIONS_TABLE_NAME;
+const CATEGORIES_TABLE = process.env.CATEGORIES_TABLE_NAME;
+const GOALS_TABLE = process.env.GOALS_TABLE_NAME;
+
+const ensureTable = (name: string | undefined, key: string) => {
+  if (!name) {
+    throw new Error(`${key} is not configured`);
+  }
+  return name;
+};
+
+export interface TransactionQueryOptions {
+  dateKeyPrefix?: string; // e.g. "2026-05-"
+  from?: string; // yyyy-MM-dd, inclusive; ignored when dateKeyPrefix is set
+  to?: string; // yyyy-MM-dd, inclusive
+}
+
+const buildDateKeyCondition = ({
+  dateKeyPrefix,
+  from,
+  to,
+}: TransactionQueryOptions) => {
+  if (dateKeyPrefix) {
+    return {
+      expression: ' AND begins_with(dateKey, :prefix)',
+      values: { ':prefix': dateKeyPrefix },
+    };
+  }
+  const toKey = to ? `${to}${DATE_KEY_UPPER_SUFFIX}` : undefined;
+  if (from && toKey) {
+    return {
+      expression: ' AND dateKey BETWEEN :fromKey AND :toKey',
+      values: { ':fromKey': from, ':toKey': toKey },
+    };
+  }
+  if (from) {
+    return {
+      expression: ' AND dateKey >= :fromKey',
+      values: { ':fromKey': from },
+    };
+  }
+  if (toKey) {
+    return {
+      expression: ' AND dateKey <= :toKey',
+      values: { ':toKey': toKey },
+    };
+  }
+  return { expression: '', values: {} };
+};
+
+const queryAll = async <T>(
+  input: Parameters<typeof paginateQuery>[1],
+): Promise<T[]> => {
+  const items: T[] = [];
+  const paginator = paginateQuery({ client }, input);
+  for await (const page of paginator) {
+    if (page.Items) {
+      items.push(...page.Items.map((i) => unmarshall(i) as T));
+    }
+  }
+  return items;
+};
+
+export const queryTransactionsByUser = async (
+  userId: string,
+  options: TransactionQueryOptions = {},
+): Promise<Transaction[]> => {
+  const { expression, values } = buildDateKeyCondition(options);
+  return queryAll<Transaction>({
+    TableName: ensureTable(TRANSACTIONS_TABLE, 'TRANSACTIONS_TABLE_NAME'),
+    IndexName: 'userId-dateKey-index',
+    KeyConditionExpression: `userId = :userId${expression}`,
+    ExpressionAttributeValues: marshall({ ':userId': userId, ...values }),
+  });
+};
+
+export const queryCategoriesByUser = async (
+  userId: string,
+): Promise<Category[]> =>
+  queryAll<Category>({
+    TableName: ensureTable(CATEGORIES_TABLE, 'CATEGORIES_TABLE_NAME'),
+    IndexName: 'userId-name-index',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: marshall({ ':userId': userId }),
+  });
+
+export const queryGoalsByUser = async (userId: string): Promise<Goal[]> =>
+  queryAll<Goal>({
+    TableName: ensureTable(GOALS_TABLE, 'GOALS_TABLE_NAME'),
+    IndexName: 'userId-targetDate-index',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: marshall({ ':userId': userId }),
+  });
+
+export const getGoal = async (goalId: string): Promise<Goal | undefined> => {
+  const { Item } = await client.send(
+    new GetItemCommand({
+      TableName: ensureTable(GOALS_TABLE, 'GOALS_TABLE_NAME'),
+      Key: marshall({ id: goalId }),
+    }),
+  );
+  return Item ? (unmarshall(Item) as Goal) : undefined;
+};
+
+export const scanCategoriesWithDefaultLimit = async (): Promise<Category[]> => {
+  const items: Category[] = [];
+  const paginator = paginateScan(
+    { client },
+    {
+      TableName: ensureTable(CATEGORIES_TABLE, 'CATEGORIES_TABLE_NAME'),
+      FilterExpression: 'attribute_exists(defaultLimit)',
+    },
+  );
+  for await (const page of paginator) {
+    if (page.Items) {
+      items.push(...page.Items.map((i) => unmarshall(i) as Category));
+    }
+  }
+  return items;
+};
+
+/**
+ * Writes `entry` as the category's budget for `month` unless a limit is
+ * already set. Spend booked before the limit (entry without `baseLimit`)
+ * keeps its `baseSpent`. Returns whether anything was written.
+ */
+export const seedCategoryMonth = async (
+  categoryId: string,
+  month: string,
+  entry: CategoryMonthlyEntry,
+): Promise<boolean> => {
+  const TableName = ensureTable(CATEGORIES_TABLE, 'CATEGORIES_TABLE_NAME');
+  const Key = marshall({ id: categoryId });
+
+  try {
+    await client.send(
+      new UpdateItemCommand({
+        TableName,
+        Key,
+        UpdateExpression: 'SET monthlyData.#month = :entry',
+        ConditionExpression:
+          'attribute_exists(id) AND attribute_not_exists(monthlyData.#month)',
+        ExpressionAttributeNames: { '#month': month },
+        ExpressionAttributeValues: marshall({ ':entry': entry }),
+      }),
+    );
+    return true;
+  } catch (error) {
+    if (!(error instanceof ConditionalCheckFailedException)) {
+      throw error;
+    }
+  }
+
+  try {
+    await client.send(
+      new UpdateItemCommand({
+        TableName,
+        Key,
+        UpdateExpression:
+          'SET monthlyData.#month.baseLimit = :baseLimit, monthlyData.#month.#limit = :limit',
+        ConditionExpression:
+          'attribute_exists(monthlyData.#month) AND attribute_not_exists(monthlyData.#month.baseLimit)',
+        ExpressionAttributeNames: { '#month': month, '#limit': 'limit' },
+        ExpressionAttributeValues: marshall({
+          ':baseLimit': entry.baseLimit,
+          ':limit': entry.limit,
+        }),
+      }),
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Records that the `threshold` alert for `month` went out. Returns false
+ * when it was already recorded, so concurrent consumers publish it once.
+ */
+export const claimBudgetAlert = async (
+  categoryId: string,
+  month: string,
+  threshold: number,
+  sentAt: string,
+): Promise<boolean> => {
+  const TableName = ensureTable(CATEGORIES_TABLE, 'CATEGORIES_TABLE_NAME');
+  const Key = marshall({ id: categoryId });
+
+  try {
+    await client.send(
+      new UpdateItemCommand({
+        TableName,
+        Key,
+        UpdateExpression: 'SET monthlyData.#month.alertsSent = :alertsSent',
+        ConditionExpression:
+          'attribute_exists(monthlyData.#month) AND attribute_not_exists(monthlyData.#month.alertsSent)',
+        ExpressionAttributeNames: { '#month': month },
+        ExpressionAttributeValues: marshall({
+          ':alertsSent': { [threshold]: sentAt },
+        }),
+      }),
+    );
+    return true;
+  } catch (error) {
+    if (!(error instanceof ConditionalCheckFailedException)) {
+      throw error;
+    }
+  }
+
+  try {
+    await client.send(
+      new UpdateItemCommand({
+        TableName,
+        Key,
+        UpdateExpression:
+          'SET monthlyData.#month.alertsSent.#threshold = :sentAt',
+        ConditionExpression:
+          'attribute_exists(monthlyData.#month.alertsSent) AND attribute_not_exists(monthlyData.#month.alertsSent.#threshold)',
+        ExpressionAttributeNames: {
+          '#month': month,
+          '#threshold': String(threshold),
+        },
+        ExpressionAttributeValues: marshall({ ':sentAt': sentAt }),
+      }),
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/** Undoes claimBudgetAlert when publishing failed, so a retry can send it. */
+export const releaseBudgetAlert = async (
+  categoryId: string,
+  month: string,
+  threshold: number,
+): Promise<void> => {
+  await client.send(
+    new UpdateItemCommand({
+      TableName: ensureTable(CATEGORIES_TABLE, 'CATEGORIES_TABLE_NAME'),
+      Key: marshall({ id: categoryId }),
+      UpdateExpression: 'REMOVE monthlyData.#month.alertsSent.#threshold',
+      ExpressionAttributeNames: {
+        '#month': month,
+        '#threshold': String(threshold),
+      },
+    }),
+  );
+};
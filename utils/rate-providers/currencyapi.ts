@@ -0,0 +1,41 @@
+import {
+  CURRENCY_API_URL,
+  RATE_PROVIDER,
+  RATE_PROVIDER_TIMEOUT_MS,
+  getCurrencyApiKey,
+} from '../currency-config';
+import type { ProviderRates, RateProvider } from './provider';
+
+export const currencyApiProvider: RateProvider = {
+  name: RATE_PROVIDER,
+  fetchRates: async (base, targets) => {
+    const apiKey = await getCurrencyApiKey();
+    const url = new URL(CURRENCY_API_URL);
+    url.searchParams.set('base_currency', base);
+    url.searchParams.set('currencies', targets.join(','));
+    if (apiKey && !url.searchParams.has('apikey')) {
+      url.searchParams.set('apikey', apiKey);
+    }
+
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(RATE_PROVIDER_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch exchange rates for ${base}: ${response.status} ${response.statusText}`,
+      );
+    }
+    const payload = (await response.json()) as {
+      data?: Record<string, { value: number }>;
+    };
+
+    const rates: ProviderRates = {};
+    targets.forEach((target) => {
+      const value = payload.data?.[target]?.value;
+      if (typeof value === 'number') {
+        rates[target] = value;
+      }
+    });
+    return rates;
+  },
+};
@@ -0,0 +1,30 @@
+import { ECB_RATES_URL, RATE_PROVIDER_TIMEOUT_MS } from '../currency-config';
+import { crossRatesFrom } from './provider';
+import type { RateProvider } from './provider';
+
+const CUBE_PATTERN = /currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]/g;
+
+/** Units per euro from the ECB reference rates XML. */
+export const parseEcbRates = (xml: string): Record<string, number> => {
+  const perEur: Record<string, number> = { EUR: 1 };
+  for (const [, currency, rate] of xml.matchAll(CUBE_PATTERN)) {
+    perEur[currency] = Number(rate);
+  }
+  return perEur;
+};
+
+/** ECB daily reference rates, published for EUR once per working day. */
+export const ecbProvider: RateProvider = {
+  name: 'ecb',
+  fetchRates: async (base, targets) => {
+    const response = await fetch(ECB_RATES_URL, {
+      signal: AbortSignal.timeout(RATE_PROVIDER_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ECB rates: ${response.status} ${response.statusText}`,
+      );
+    }
+    return crossRatesFrom(parseEcbRates(await response.text()), base, targets);
+  },
+};
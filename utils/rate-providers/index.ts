@@ -0,0 +1,86 @@
+import type { CurrencyCode, ExchangeRateSnapshot } from '../../types/budget';
+import { RATE_PROVIDER_IDS } from '../currency-config';
+import { currencyApiProvider } from './currencyapi';
+import { ecbProvider } from './ecb';
+import { mockProvider } from './mock';
+import type { RateProvider } from './provider';
+import { staticPegProvider } from './static-peg';
+
+export type { ProviderRates, RateProvider } from './provider';
+export { getPegSnapshot } from './static-peg';
+
+const RATE_PROVIDERS: Record<string, RateProvider> = {
+  currencyapi: currencyApiProvider,
+  ecb: ecbProvider,
+  static: staticPegProvider,
+  mock: mockProvider,
+};
+
+/** Providers in the configured order; unknown ids are ignored. */
+export const getRateProviders = (
+  ids: string[] = RATE_PROVIDER_IDS,
+): RateProvider[] => {
+  const providers = ids
+    .filter((id) => {
+      if (!RATE_PROVIDERS[id]) {
+        console.warn(`Unknown rate provider "${id}" ignored`);
+        return false;
+      }
+      return true;
+    })
+    .map((id) => RATE_PROVIDERS[id]);
+  return providers.length ? providers : [currencyApiProvider];
+};
+
+/**
+ * Fetches `base` rates from the providers in order. A provider that fails or
+ * cannot quote some targets hands the remaining ones to the next provider;
+ * each snapshot records the provider that answered it.
+ */
+export const fetchProviderRates = async (
+  base: CurrencyCode,
+  targets: CurrencyCode[],
+  providers: RateProvider[] = getRateProviders(),
+): Promise<ExchangeRateSnapshot[]> => {
+  const snapshots: ExchangeRateSnapshot[] = [];
+  const errors: string[] = [];
+  let missing = targets;
+
+  for (const provider of providers) {
+    if (!missing.length) {
+      break;
+    }
+    try {
+      const rates = await provider.fetchRates(base, missing);
+      const capturedAt = new Date().toISOString();
+      missing = missing.filter((target) => {
+        const rate = rates[target];
+        if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+          return true;
+        }
+        snapshots.push({
+          fromCurrency: base,
+          toCurrency: target,
+          rate,
+          provider: provider.name,
+          capturedAt,
+          stale: false,
+        });
+        return false;
+      });
+    } catch (error) {
+      console.warn(`Rate provider ${provider.name} failed`, error);
+      errors.push((error as Error).message);
+    }
+  }
+
+  if (missing.length) {
+    throw new Error(
+      [
+        `Exchange rate not found for ${base}->${missing.join(',')}`,
+        ...errors,
+      ].join('; '),
+    );
+  }
+  return snapshots;
+};
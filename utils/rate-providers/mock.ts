@@ -0,0 +1,16 @@
+import { crossRatesFrom } from './provider';
+import type { RateProvider } from './provider';
+
+// Plausible fixed rates in units per euro, for local runs without network.
+const MOCK_RATES_PER_EUR: Record<string, number> = {
+  EUR: 1,
+  BGN: 1.95583,
+  USD: 1.08,
+  GBP: 0.85,
+};
+
+export const mockProvider: RateProvider = {
+  name: 'mock',
+  fetchRates: async (base, targets) =>
+    crossRatesFrom(MOCK_RATES_PER_EUR, base, targets),
+};
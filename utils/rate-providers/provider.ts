@@ -0,0 +1,32 @@
+import type { CurrencyCode } from '../../types/budget';
+
+export type ProviderRates = Partial<Record<CurrencyCode, number>>;
+
+export interface RateProvider {
+  name: string; // recorded as the snapshot's provider
+  /**
+   * Rates from `base` for the targets this provider can quote. Targets it
+   * does not know are left out so the next provider can fill them in.
+   */
+  fetchRates: (
+    base: CurrencyCode,
+    targets: CurrencyCode[],
+  ) => Promise<ProviderRates>;
+}
+
+/** Cross rates from a table of units per one anchor currency. */
+export const crossRatesFrom = (
+  perAnchor: Record<string, number>,
+  base: CurrencyCode,
+  targets: CurrencyCode[],
+): ProviderRates => {
+  const baseRate = perAnchor[base];
+  if (!baseRate) {
+    return {};
+  }
+  return Object.fromEntries(
+    targets
+      .filter((target) => perAnchor[target])
+      .map((target) => [target, perAnchor[target] / baseRate]),
+  );
+};
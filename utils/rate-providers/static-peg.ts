@@ -0,0 +1,36 @@
+import type { CurrencyCode, ExchangeRateSnapshot } from '../../types/budget';
+import { PEG_PROVIDER, getPeggedRate } from '../currency-config';
+import type { ProviderRates, RateProvider } from './provider';
+
+/** Quotes only pairs tied by the configured currency pegs. */
+export const staticPegProvider: RateProvider = {
+  name: PEG_PROVIDER,
+  fetchRates: async (base, targets) => {
+    const rates: ProviderRates = {};
+    targets.forEach((target) => {
+      const rate = getPeggedRate(base, target);
+      if (rate !== undefined) {
+        rates[target] = rate;
+      }
+    });
+    return rates;
+  },
+};
+
+/** Snapshot for a pegged pair, resolved locally without any lookup. */
+export const getPegSnapshot = (
+  from: CurrencyCode,
+  to: CurrencyCode,
+): ExchangeRateSnapshot | undefined => {
+  const rate = getPeggedRate(from, to);
+  return rate === undefined
+    ? undefined
+    : {
+        fromCurrency: from,
+        toCurrency: to,
+        rate,
+        provider: PEG_PROVIDER,
+        capturedAt: new Date().toISOString(),
+        stale: false,
+      };
+};
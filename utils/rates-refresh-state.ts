@@ -0,0 +1,86 @@
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { CURRENCY_PERSISTED_FRESH_MS, now } from './currency-config';
+
+const RATES_TABLE_NAME = process.env.RATES_TABLE_NAME;
+// Refresh bookkeeping lives in a reserved partition of the rates table.
+const META_PARTITION_KEY = '__meta__';
+const META_SORT_KEY = 'snapshot';
+const dynamoClient = RATES_TABLE_NAME ? new DynamoDBClient({}) : null;
+
+type MetaRecord = {
+  lastRefreshEpoch?: number;
+  lastManualRefreshEpoch?: number;
+};
+
+const dynamoEnabled = () => Boolean(dynamoClient && RATES_TABLE_NAME);
+
+const metaKey = () =>
+  marshall({ fromCurrency: META_PARTITION_KEY, toCurrency: META_SORT_KEY });
+
+const getMetaRecord = async (): Promise<MetaRecord | null> => {
+  if (!dynamoEnabled()) {
+    return null;
+  }
+  const response = await dynamoClient!.send(
+    new GetItemCommand({ TableName: RATES_TABLE_NAME, Key: metaKey() }),
+  );
+  if (!response.Item) {
+    return null;
+  }
+  return unmarshall(response.Item) as MetaRecord;
+};
+
+export const setLastRefreshEpoch = async (epoch: number, manual?: boolean) => {
+  if (!dynamoEnabled()) {
+    return;
+  }
+  await dynamoClient!.send(
+    new PutItemCommand({
+      TableName: RATES_TABLE_NAME,
+      Item: marshall({
+        fromCurrency: META_PARTITION_KEY,
+        toCurrency: META_SORT_KEY,
+        lastRefreshEpoch: epoch,
+        ...(manual ? { lastManualRefreshEpoch: epoch } : {}),
+      }),
+    }),
+  );
+};
+
+export const getLastRefreshEpoch = async () => {
+  const meta = await getMetaRecord();
+  return meta?.lastRefreshEpoch ?? null;
+};
+
+export interface RatesStatus {
+  lastRefreshEpoch: number | null;
+  lastRefreshAt: string | null;
+  lastManualRefreshEpoch: number | null;
+  freshUntilEpoch: number | null;
+  /** True when no refresh has landed within the persisted freshness window. */
+  stale: boolean;
+}
+
+export const getRatesStatus = async (): Promise<RatesStatus> => {
+  const meta = await getMetaRecord();
+  const lastRefreshEpoch = meta?.lastRefreshEpoch ?? null;
+  const freshUntilEpoch =
+    lastRefreshEpoch === null
+      ? null
+      : lastRefreshEpoch + CURRENCY_PERSISTED_FRESH_MS;
+  return {
+    lastRefreshEpoch,
+    lastRefreshAt:
+      lastRefreshEpoch === null
+        ? null
+        : new Date(lastRefreshEpoch).toISOString(),
+    lastManualRefreshEpoch: meta?.lastManualRefreshEpoch ?? null,
+    freshUntilEpoch,
+    stale: freshUntilEpoch === null || freshUntilEpoch <= now(),
+  };
+};
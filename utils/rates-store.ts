@@ -1,28 +1,43 @@
 import {
+  BatchWriteItemCommand,
+  BatchWriteItemCommandOutput,
   DynamoDBClient,
   GetItemCommand,
   PutItemCommand,
+  QueryCommand,
+  WriteRequest,
+  paginateQuery,
 } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
-import type { CurrencyCode, ExchangeRateSnapshot } from '../types/budget';
+import type {
+  CurrencyCode,
+  ExchangeRateSnapshot,
+  RateDerivation,
+} from '../types/budget';
 import {
-  CURRENCY_API_URL,
+  BASE_CURRENCY_CODE,
+  CURRENCY_PERSISTED_FRESH_MS,
   RATE_PROVIDER,
-  getCurrencyApiKey,
   getSupportedCurrencies,
   now,
 } from './currency-config';
+import { deriveFromBaseLegs } from './cross-rates';
+import type { BaseLegs } from './cross-rates';
+import { fetchProviderRates, getPegSnapshot } from './rate-providers';
+import {
+  getLastRefreshEpoch,
+  setLastRefreshEpoch,
+} from './rates-refresh-state';
 
 const RATES_TABLE_NAME = process.env.RATES_TABLE_NAME;
-const CURRENCY_PERSISTED_FRESH_MS = Number(
-  process.env.CURRENCY_PERSISTED_FRESH_MS ?? 24 * 60 * 60 * 1000,
-);
 const CURRENCY_PERSISTED_TTL_DAYS = Number(
   process.env.CURRENCY_PERSISTED_TTL_DAYS ?? 30,
 );
 const PERSISTED_TTL_MS = CURRENCY_PERSISTED_TTL_DAYS * 24 * 60 * 60 * 1000;
-const META_PARTITION_KEY = '__meta__';
-const META_SORT_KEY = 'snapshot';
+// History rows share the pair's partition, keyed `${toCurrency}#YYYY-MM-DD`.
+const HISTORY_KEY_SEPARATOR = '#';
+const BATCH_WRITE_SIZE = 25;
+const MAX_BATCH_ATTEMPTS = 5;
 const dynamoClient = RATES_TABLE_NAME ? new DynamoDBClient({}) : null;
 
 type PersistedRateRecord = {
@@ -34,17 +49,14 @@ type PersistedRateRecord = {
   freshUntilEpoch?: number;
   ttlEpoch?: number;
   stale?: boolean;
-};
-
-type MetaRecord = {
-  lastRefreshEpoch?: number;
-  lastManualRefreshEpoch?: number;
+  rateDate?: string;
+  derivation?: RateDerivation;
 };
 
 const dynamoEnabled = () => Boolean(dynamoClient && RATES_TABLE_NAME);
 
-const metaKey = () =>
-  marshall({ fromCurrency: META_PARTITION_KEY, toCurrency: META_SORT_KEY });
+const historySortKey = (to: CurrencyCode, date: string) =>
+  `${to}${HISTORY_KEY_SEPARATOR}${date}`;
 
 const toSnapshot = (
   record: PersistedRateRecord,
@@ -59,9 +71,14 @@ const toSnapshot = (
     provider: record.provider ?? RATE_PROVIDER,
     capturedAt: record.capturedAt ?? new Date(0).toISOString(),
     stale: record.stale,
+    ...(record.rateDate ? { rateDate: record.rateDate } : {}),
+    ...(record.derivation ? { derivation: record.derivation } : {}),
   };
 };
 
+const derivationField = (snapshot: ExchangeRateSnapshot) =>
+  snapshot.derivation ? { derivation: snapshot.derivation } : {};
+
 export interface PersistedRateResult {
   snapshot: ExchangeRateSnapshot;
   freshUntilEpoch?: number;
@@ -97,95 +114,148 @@ export const getPersistedRate = async (
   };
 };
 
+const toLatestItem = (snapshot: ExchangeRateSnapshot) => {
+  const capturedAtMs = Date.parse(snapshot.capturedAt) || now();
+  return {
+    fromCurrency: snapshot.fromCurrency,
+    toCurrency: snapshot.toCurrency,
+    rate: snapshot.rate,
+    provider: snapshot.provider,
+    capturedAt: snapshot.capturedAt,
+    freshUntilEpoch: capturedAtMs + CURRENCY_PERSISTED_FRESH_MS,
+    ttlEpoch: Math.floor((capturedAtMs + PERSISTED_TTL_MS) / 1000),
+    stale: snapshot.stale ?? false,
+    ...derivationField(snapshot),
+  };
+};
+
+/**
+ * The snapshot as the pair's rate for its capture day. Later refreshes on
+ * the same day overwrite it, and history rows never expire.
+ */
+const toHistoryItem = (snapshot: ExchangeRateSnapshot) => {
+  const rateDate = snapshot.capturedAt.slice(0, 10);
+  return {
+    fromCurrency: snapshot.fromCurrency,
+    toCurrency: historySortKey(snapshot.toCurrency, rateDate),
+    rate: snapshot.rate,
+    provider: snapshot.provider,
+    capturedAt: snapshot.capturedAt,
+    rateDate,
+    ...derivationField(snapshot),
+  };
+};
+
 export const putPersistedRate = async (snapshot: ExchangeRateSnapshot) => {
   if (!dynamoEnabled()) {
     return;
   }
-  const capturedAtMs = Date.parse(snapshot.capturedAt) || now();
-  const freshUntilEpoch = capturedAtMs + CURRENCY_PERSISTED_FRESH_MS;
-  const ttlEpoch = Math.floor((capturedAtMs + PERSISTED_TTL_MS) / 1000);
   await dynamoClient!.send(
     new PutItemCommand({
       TableName: RATES_TABLE_NAME,
-      Item: marshall({
-        fromCurrency: snapshot.fromCurrency,
-        toCurrency: snapshot.toCurrency,
-        rate: snapshot.rate,
-        provider: snapshot.provider,
-        capturedAt: snapshot.capturedAt,
-        freshUntilEpoch,
-        ttlEpoch,
-        stale: snapshot.stale ?? false,
-      }),
+      Item: marshall(toLatestItem(snapshot)),
     }),
   );
 };
 
-const getMetaRecord = async (): Promise<MetaRecord | null> => {
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Writes rate rows one batch at a time so a refresh of every pair does not
+ * burst past the table's write capacity. Unprocessed rows are retried with
+ * backoff; throws if some remain.
+ */
+const batchPutRateItems = async (items: Record<string, unknown>[]) => {
+  for (let i = 0; i < items.length; i += BATCH_WRITE_SIZE) {
+    let requests: WriteRequest[] | undefined = items
+      .slice(i, i + BATCH_WRITE_SIZE)
+      .map((item) => ({ PutRequest: { Item: marshall(item) } }));
+
+    let attempt = 0;
+    while (requests?.length && attempt < MAX_BATCH_ATTEMPTS) {
+      const res: BatchWriteItemCommandOutput = await dynamoClient!.send(
+        new BatchWriteItemCommand({
+          RequestItems: { [RATES_TABLE_NAME!]: requests },
+        }),
+      );
+      requests = res.UnprocessedItems?.[RATES_TABLE_NAME!];
+      attempt += 1;
+      if (requests?.length && attempt < MAX_BATCH_ATTEMPTS) {
+        await sleep(2 ** attempt * 50);
+      }
+    }
+
+    if (requests?.length) {
+      throw new Error(`Failed to store ${requests.length} exchange rates`);
+    }
+  }
+};
+
+/** Latest stored daily rate on or before `asOf` (YYYY-MM-DD), if any. */
+export const getHistoricalRate = async (
+  from: CurrencyCode,
+  to: CurrencyCode,
+  asOf: string,
+): Promise<ExchangeRateSnapshot | null> => {
   if (!dynamoEnabled()) {
     return null;
   }
   const response = await dynamoClient!.send(
-    new GetItemCommand({ TableName: RATES_TABLE_NAME, Key: metaKey() }),
+    new QueryCommand({
+      TableName: RATES_TABLE_NAME,
+      KeyConditionExpression:
+        'fromCurrency = :from AND toCurrency BETWEEN :first AND :asOf',
+      ExpressionAttributeValues: marshall({
+        ':from': from,
+        ':first': `${to}${HISTORY_KEY_SEPARATOR}`,
+        ':asOf': historySortKey(to, asOf),
+      }),
+      ScanIndexForward: false,
+      Limit: 1,
+    }),
   );
-  if (!response.Item) {
+  const item = response.Items?.[0];
+  if (!item) {
     return null;
   }
-  return unmarshall(response.Item) as MetaRecord;
+  const record = unmarshall(item) as PersistedRateRecord;
+  return toSnapshot({ ...record, toCurrency: to, stale: false });
 };
 
-const setLastRefreshEpoch = async (epoch: number, manual?: boolean) => {
+/** Stored daily rates between `startDate` and `endDate` (inclusive), oldest first. */
+export const queryRateHistory = async (
+  from: CurrencyCode,
+  to: CurrencyCode,
+  startDate: string,
+  endDate: string,
+): Promise<ExchangeRateSnapshot[]> => {
   if (!dynamoEnabled()) {
-    return;
+    return [];
   }
-  await dynamoClient!.send(
-    new PutItemCommand({
+  const history: ExchangeRateSnapshot[] = [];
+  const paginator = paginateQuery(
+    { client: dynamoClient! },
+    {
       TableName: RATES_TABLE_NAME,
-      Item: marshall({
-        fromCurrency: META_PARTITION_KEY,
-        toCurrency: META_SORT_KEY,
-        lastRefreshEpoch: epoch,
-        ...(manual ? { lastManualRefreshEpoch: epoch } : {}),
+      KeyConditionExpression:
+        'fromCurrency = :from AND toCurrency BETWEEN :start AND :end',
+      ExpressionAttributeValues: marshall({
+        ':from': from,
+        ':start': historySortKey(to, startDate),
+        ':end': historySortKey(to, endDate),
       }),
-    }),
+    },
   );
-};
-
-export const getLastRefreshEpoch = async () => {
-  const meta = await getMetaRecord();
-  return meta?.lastRefreshEpoch ?? null;
-};
-
-const fetchBatchRates = async (
-  base: CurrencyCode,
-  targets: CurrencyCode[],
-  apiKey?: string,
-) => {
-  const url = new URL(CURRENCY_API_URL);
-  url.searchParams.set('base_currency', base);
-  url.searchParams.set('currencies', targets.join(','));
-  if (apiKey && !url.searchParams.has('apikey')) {
-    url.searchParams.set('apikey', apiKey);
-  }
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(
-      `Failed to refresh batch for ${base}: ${response.status} ${response.statusText}`,
-    );
-  }
-  const payload = (await response.json()) as {
-    data?: Record<string, { value: number }>;
-  };
-  const capturedAt = new Date().toISOString();
-  const rates: Record<string, number> = {};
-  targets.forEach((target) => {
-    const value = payload.data?.[target]?.value;
-    if (typeof value !== 'number') {
-      throw new Error(`Exchange rate not found for ${base}->${target}`);
+  for await (const page of paginator) {
+    for (const item of page.Items ?? []) {
+      const record = unmarshall(item) as PersistedRateRecord;
+      const snapshot = toSnapshot({ ...record, toCurrency: to, stale: false });
+      if (snapshot) {
+        history.push(snapshot);
+      }
     }
-    rates[target] = value;
-  });
-  return { rates, capturedAt };
+  }
+  return history;
 };
 
 export interface RefreshRatesOptions {
@@ -220,32 +290,41 @@ export const refreshAllRates = async (
     };
   }
 
-  const apiKey = await getCurrencyApiKey();
-  const bases = getSupportedCurrencies();
-  let updatedPairs = 0;
-  for (const base of bases) {
-    const targets = bases.filter((currency) => currency !== base);
-    if (!targets.length) {
-      continue;
+  // One provider call for the base currency; every other pair is derived
+  // from those legs by inverse or cross rate.
+  const currencies = getSupportedCurrencies();
+  const legs: BaseLegs = new Map();
+  const marketTargets = currencies.filter((currency) => {
+    if (currency === BASE_CURRENCY_CODE) {
+      return false;
     }
-    const { rates, capturedAt } = await fetchBatchRates(base, targets, apiKey);
-    await Promise.all(
-      Object.entries(rates).map(async ([target, value]) => {
-        const snapshot: ExchangeRateSnapshot = {
-          fromCurrency: base,
-          toCurrency: target as CurrencyCode,
-          rate: value,
-          provider: RATE_PROVIDER,
-          capturedAt,
-          stale: false,
-        };
-        await putPersistedRate(snapshot);
-        onSnapshot?.(snapshot);
-      }),
-    );
-    updatedPairs += targets.length;
+    const pegged = getPegSnapshot(BASE_CURRENCY_CODE, currency);
+    if (pegged) {
+      legs.set(currency, pegged);
+    }
+    return !pegged;
+  });
+  if (marketTargets.length) {
+    const fetched = await fetchProviderRates(BASE_CURRENCY_CODE, marketTargets);
+    fetched.forEach((snapshot) => legs.set(snapshot.toCurrency, snapshot));
   }
 
+  const snapshots = currencies.flatMap((from) =>
+    currencies
+      .filter((to) => to !== from)
+      .map(
+        (to) => getPegSnapshot(from, to) ?? deriveFromBaseLegs(from, to, legs),
+      ),
+  );
+  await batchPutRateItems(
+    snapshots.flatMap((snapshot) => [
+      toLatestItem(snapshot),
+      toHistoryItem(snapshot),
+    ]),
+  );
+  snapshots.forEach((snapshot) => onSnapshot?.(snapshot));
+  const updatedPairs = snapshots.length;
+
   await setLastRefreshEpoch(nowMs, options.force);
 
   return {
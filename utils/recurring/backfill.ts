@@ -0,0 +1,178 @@
+import type {
+  BackfillOccurrence,
+  BackfillReport,
+  RecurringTransaction,
+} from '../../types/budget';
+import { bookOccurrence } from './materializer';
+import { isOccurrenceSkipped } from './overrides';
+import {
+  buildInitialNextOccurrence,
+  getNextOccurrence,
+  getRuleEndDate,
+} from './recurrence';
+import { queryRecurringByUser, transactionExists } from './store';
+
+export interface BackfillCursor {
+  recurrenceId: string;
+  date: string; // first occurrence the next call handles
+}
+
+export interface BackfillRequest {
+  userId: string;
+  recurrenceId?: string;
+  from: string; // yyyy-MM-dd, inclusive
+  to: string; // yyyy-MM-dd, inclusive
+  dryRun: boolean;
+  cursor?: BackfillCursor;
+}
+
+// Keeps one call well inside the 29 s API Gateway timeout.
+export const MAX_BACKFILL_OCCURRENCES = 100;
+
+export const encodeBackfillCursor = (cursor: BackfillCursor): string =>
+  Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+
+export const decodeBackfillCursor = (cursor: string): BackfillCursor => {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as Record<string, unknown>;
+
+    if (
+      typeof decoded.recurrenceId !== 'string' ||
+      typeof decoded.date !== 'string'
+    ) {
+      throw new Error('Invalid cursor shape');
+    }
+
+    return { recurrenceId: decoded.recurrenceId, date: decoded.date };
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+};
+
+/**
+ * Scheduled dates within [from, to] that the rule's pointer has already
+ * passed. Later ones are left to the materializer, and dates before the
+ * rule was created were never its to book.
+ */
+const listPassedOccurrences = (
+  recurring: RecurringTransaction,
+  from: string,
+  to: string,
+): string[] => {
+  const createdOn = recurring.createdAt?.slice(0, 10);
+  const first = createdOn && createdOn > from ? createdOn : from;
+  const endDate = getRuleEndDate(recurring.rule);
+  const last = endDate && endDate < to ? endDate : to;
+  const dates: string[] = [];
+  for (
+    let date = buildInitialNextOccurrence(recurring.rule);
+    date <= last && date < recurring.nextOccurrence;
+    date = getNextOccurrence(recurring.rule, date)
+  ) {
+    if (date >= first) {
+      dates.push(date);
+    }
+  }
+  return dates;
+};
+
+const previewOccurrence = async (
+  recurring: RecurringTransaction,
+  date: string,
+): Promise<BackfillOccurrence['result']> => {
+  if (isOccurrenceSkipped(recurring, date)) {
+    return 'skipped';
+  }
+  return (await transactionExists(`${recurring.id}-${date}`))
+    ? 'exists'
+    : 'wouldCreate';
+};
+
+/**
+ * Books the occurrences of a user's rules that fall in a date range but
+ * were never materialized, e.g. after an outage or a `latest`/`none`
+ * catch-up. Works on rules in any status and never moves their pointer.
+ * With `dryRun` nothing is written and `created` counts what would be.
+ * A call handles at most {@link MAX_BACKFILL_OCCURRENCES}; the report's
+ * `nextCursor` continues where it stopped.
+ */
+export const backfillRecurring = async ({
+  userId,
+  recurrenceId,
+  from,
+  to,
+  dryRun,
+  cursor,
+}: BackfillRequest): Promise<BackfillReport> => {
+  const report: BackfillReport = {
+    processed: 0,
+    created: 0,
+    skipped: 0,
+    failures: 0,
+    dryRun,
+    from,
+    to,
+    occurrences: [],
+  };
+  // Sorted by id so a cursor resumes at the same place on the next call.
+  const rules = (await queryRecurringByUser(userId))
+    .filter((rule) => !recurrenceId || rule.id === recurrenceId)
+    .filter(
+      (rule) => !cursor || rule.id.localeCompare(cursor.recurrenceId) >= 0,
+    )
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  for (const recurring of rules) {
+    if (report.nextCursor) {
+      break;
+    }
+    report.processed += 1;
+    const start =
+      cursor?.recurrenceId === recurring.id && cursor.date > from
+        ? cursor.date
+        : from;
+    for (const date of listPassedOccurrences(recurring, start, to)) {
+      if (report.occurrences.length >= MAX_BACKFILL_OCCURRENCES) {
+        report.nextCursor = encodeBackfillCursor({
+          recurrenceId: recurring.id,
+          date,
+        });
+        break;
+      }
+      let result: BackfillOccurrence['result'];
+      try {
+        result = dryRun
+          ? await previewOccurrence(recurring, date)
+          : await bookOccurrence(recurring, date);
+      } catch (err) {
+        console.error('backfill: failed to book occurrence', {
+          recurrenceId: recurring.id,
+          date,
+          error: (err as Error).message,
+        });
+        result = 'failed';
+      }
+
+      if (result === 'created' || result === 'wouldCreate') {
+        report.created += 1;
+      } else if (result === 'failed') {
+        report.failures += 1;
+      } else {
+        report.skipped += 1;
+      }
+      report.occurrences.push({ recurrenceId: recurring.id, date, result });
+    }
+  }
+
+  console.log('backfill: complete', {
+    userId,
+    dryRun,
+    processed: report.processed,
+    created: report.created,
+    skipped: report.skipped,
+    failures: report.failures,
+  });
+  return report;
+};
@@ -0,0 +1,30 @@
+import type { RecurringCatchUpPolicy } from '../../types/budget';
+
+export const CATCH_UP_POLICIES: RecurringCatchUpPolicy[] = [
+  'all',
+  'latest',
+  'none',
+];
+
+/**
+ * Splits a rule's due occurrences (oldest first) into the ones the
+ * materializer books and the missed ones it skips. `latest` books only the
+ * most recent due occurrence and `none` only one falling on `today`; the
+ * skipped ones always come first, so the pointer can jump past them.
+ */
+export const selectCatchUpOccurrences = (
+  due: string[],
+  policy: RecurringCatchUpPolicy = 'all',
+  today: string,
+): { skip: string[]; materialize: string[] } => {
+  if (policy === 'latest') {
+    return { skip: due.slice(0, -1), materialize: due.slice(-1) };
+  }
+  if (policy === 'none') {
+    return {
+      skip: due.filter((date) => date < today),
+      materialize: due.filter((date) => date >= today),
+    };
+  }
+  return { skip: [], materialize: due };
+};
@@ -1,2 +1,5 @@
 export * from './recurrence';
 export * from './materializer';
+export * from './overrides';
+export * from './catch-up';
+export * from './backfill';
@@ -1,13 +1,23 @@
 import type {
+  GoalContribution,
   MaterializationSummary,
   RecurringTransaction,
   Transaction,
 } from '../../types/budget';
-import { buildDateKey } from '../build-date-key';
+import { buildDateKey, toTransactionDate } from '../build-date-key';
 import { BASE_CURRENCY_CODE } from '../currency';
+import { recordGoalContribution } from '../goal-contributions';
 import { getUserTimezone } from '../user-preferences';
+import {
+  applyOccurrenceAmount,
+  getBookedDate,
+  isOccurrenceSkipped,
+} from './overrides';
+import { selectCatchUpOccurrences } from './catch-up';
 import {
   advanceOccurrencePointer,
+  getLocalCalendarDate,
+  getRuleEndDate,
   getStatusForOccurrence,
   isDueInUserTimezone,
 } from './recurrence';
@@ -21,31 +31,33 @@ import {
   transactionExists,
 } from './store';
 
+/**
+ * The transaction for one occurrence. Overrides may move its date or change
+ * its amount, but the id stays derived from the scheduled date so retries
+ * still find it.
+ */
 export const buildMaterializedTransaction = (
   recurring: RecurringTransaction,
   occurrenceDate: string,
 ): Transaction => {
   const instanceId = `${recurring.id}-${occurrenceDate}`;
-  const formattedDate = new Date(
-    `${occurrenceDate}T00:00:00Z`,
-  ).toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric',
-    timeZone: 'UTC',
-  });
+  const formattedDate = toTransactionDate(
+    getBookedDate(recurring, occurrenceDate),
+  );
+  const occurrence = applyOccurrenceAmount(recurring, occurrenceDate);
   return {
     id: instanceId,
     description: recurring.description,
-    amount: recurring.amount,
+    descriptionSearch: recurring.description.toLowerCase(),
+    amount: occurrence.amount,
     currency: recurring.currency,
-    baseAmount: recurring.baseAmount,
+    baseAmount: occurrence.baseAmount,
     baseCurrency: recurring.baseCurrency || BASE_CURRENCY_CODE,
-    originalAmount: recurring.originalAmount,
+    originalAmount: occurrence.originalAmount,
     originalCurrency: recurring.originalCurrency,
-    displayAmount: recurring.displayAmount,
-    displayCurrency: recurring.displayCurrency,
-    exchangeRateSnapshot: recurring.exchangeRateSnapshot,
+    displayAmount: occurrence.displayAmount,
+    displayCurrency: occurrence.displayCurrency,
+    exchangeRateSnapshot: occurrence.exchangeRateSnapshot,
     date: formattedDate,
     dateKey: buildDateKey(formattedDate, instanceId),
     category: recurring.category,
@@ -58,43 +70,116 @@ export const buildMaterializedTransaction = (
   } as Transaction;
 };
 
+/**
+ * The deposit a goal-linked rule makes for one occurrence. Its key is
+ * derived from the scheduled date and instance id, which never change, so
+ * recording it again is a no-op even after a move override was pruned.
+ * `date` is still the booked date.
+ */
+export const buildMaterializedContribution = (
+  recurring: RecurringTransaction & { goalId: string },
+  occurrenceDate: string,
+): GoalContribution => {
+  const instanceId = `${recurring.id}-${occurrenceDate}`;
+  const occurrence = applyOccurrenceAmount(recurring, occurrenceDate);
+  const bookedDate = getBookedDate(recurring, occurrenceDate);
+  const baseAmount = Number(occurrence.baseAmount ?? occurrence.amount ?? 0);
+  return {
+    goalId: recurring.goalId,
+    dateKey: `${occurrenceDate}#${instanceId}`,
+    id: instanceId,
+    userId: recurring.userId,
+    type: 'deposit',
+    date: bookedDate,
+    baseAmount,
+    baseCurrency: recurring.baseCurrency || BASE_CURRENCY_CODE,
+    originalAmount: occurrence.originalAmount ?? baseAmount,
+    originalCurrency:
+      recurring.originalCurrency ||
+      recurring.baseCurrency ||
+      BASE_CURRENCY_CODE,
+    exchangeRateSnapshot: occurrence.exchangeRateSnapshot,
+    note: recurring.description,
+    recurrenceId: recurring.id,
+    recurrenceInstanceId: instanceId,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+const depositIntoGoal = async (
+  recurring: RecurringTransaction,
+  occDate: string,
+) => {
+  if (!recurring.goalId) return;
+  const result = await recordGoalContribution(
+    buildMaterializedContribution(
+      recurring as RecurringTransaction & { goalId: string },
+      occDate,
+    ),
+  );
+  if (result === 'goalNotFound') {
+    console.warn('materializer: linked goal no longer exists', {
+      recurrenceId: recurring.id,
+      goalId: recurring.goalId,
+    });
+  }
+};
+
+export type OccurrenceBooking = 'created' | 'exists' | 'skipped';
+
+/**
+ * Books one occurrence without moving the rule's pointer: creates the
+ * transaction, its category spend and its goal deposit. Occurrences that
+ * already exist only get their deposit retried, since a run that failed
+ * after creating the transaction left the goal short and duplicates are
+ * no-ops.
+ */
+export const bookOccurrence = async (
+  recurring: RecurringTransaction,
+  occDate: string,
+): Promise<OccurrenceBooking> => {
+  if (isOccurrenceSkipped(recurring, occDate)) {
+    return 'skipped';
+  }
+
+  const exists = await transactionExists(`${recurring.id}-${occDate}`);
+  if (exists) {
+    await depositIntoGoal(recurring, occDate);
+    return 'exists';
+  }
+
+  const txn = buildMaterializedTransaction(recurring, occDate);
+  const created = await putTransactionIfNotExists(txn);
+  if (!created) {
+    await depositIntoGoal(recurring, occDate);
+    return 'exists';
+  }
+
+  if (recurring.type === 'expense' && recurring.category) {
+    const catId = await resolveCategoryId(recurring.userId, recurring.category);
+    if (catId) {
+      const month = getBookedDate(recurring, occDate).slice(0, 7);
+      const delta = Number(txn.baseAmount ?? txn.amount ?? 0) || 0;
+      await incrementCategorySpend(catId, recurring.userId, month, delta);
+    }
+  }
+
+  await depositIntoGoal(recurring, occDate);
+  return 'created';
+};
+
 const materializeOneOccurrence = async (
   recurring: RecurringTransaction,
   occDate: string,
   summary: MaterializationSummary,
 ): Promise<boolean> => {
-  const instanceId = `${recurring.id}-${occDate}`;
   try {
-    const exists = await transactionExists(instanceId);
-    if (exists) {
-      summary.skipped += 1;
-      await advanceRecurringPointer(recurring, occDate);
-      return true;
-    }
-
-    const txn = buildMaterializedTransaction(recurring, occDate);
-    const created = await putTransactionIfNotExists(txn);
-    if (!created) {
+    const booking = await bookOccurrence(recurring, occDate);
+    if (booking === 'created') {
+      summary.created += 1;
+    } else {
       summary.skipped += 1;
-      await advanceRecurringPointer(recurring, occDate);
-      return true;
-    }
-
-    summary.created += 1;
-
-    if (recurring.type === 'expense' && recurring.category) {
-      const catId = await resolveCategoryId(
-        recurring.userId,
-        recurring.category,
-      );
-      if (catId) {
-        const month = occDate.slice(0, 7);
-        const delta =
-          Number(recurring.baseAmount ?? recurring.amount ?? 0) || 0;
-        await incrementCategorySpend(catId, recurring.userId, month, delta);
-      }
     }
-
     await advanceRecurringPointer(recurring, occDate);
     return true;
   } catch (err) {
@@ -108,36 +193,58 @@ const materializeOneOccurrence = async (
   }
 };
 
+/** Scheduled dates of the rule that are due, oldest first. */
+const collectDueOccurrences = (
+  recurring: RecurringTransaction,
+  timezone: string,
+): string[] => {
+  const due: string[] = [];
+  const endDate = getRuleEndDate(recurring.rule);
+  for (
+    let date = recurring.nextOccurrence;
+    isDueInUserTimezone(getBookedDate(recurring, date), timezone) &&
+    getStatusForOccurrence(date, endDate) === 'active' &&
+    due.length < 1000;
+    date = advanceOccurrencePointer(recurring.rule, date)
+  ) {
+    due.push(date);
+  }
+  return due;
+};
+
 const materializeForRule = async (
   recurring: RecurringTransaction,
   timezone: string,
   summary: MaterializationSummary,
 ): Promise<void> => {
   if (recurring.status !== 'active') return;
-  const current = { ...recurring };
-  let safety = 0;
-  while (
-    isDueInUserTimezone(current.nextOccurrence, timezone) &&
-    safety < 1000
-  ) {
-    safety += 1;
-    const processed = await materializeOneOccurrence(
-      current,
-      current.nextOccurrence,
-      summary,
-    );
+  const { skip, materialize } = selectCatchUpOccurrences(
+    collectDueOccurrences(recurring, timezone),
+    recurring.catchUp,
+    getLocalCalendarDate(new Date(), timezone),
+  );
+
+  let current = { ...recurring };
+  if (skip.length) {
+    try {
+      current = await advanceRecurringPointer(current, skip[skip.length - 1]);
+      summary.skipped += skip.length;
+    } catch (err) {
+      summary.failures += 1;
+      console.error('materializer: failed to skip missed occurrences', {
+        recurrenceId: recurring.id,
+        skipped: skip.length,
+        error: (err as Error).message,
+      });
+      return;
+    }
+  }
+
+  for (const occDate of materialize) {
+    const processed = await materializeOneOccurrence(current, occDate, summary);
     if (!processed) {
       break;
     }
-    current.nextOccurrence = advanceOccurrencePointer(
-      current.rule,
-      current.nextOccurrence,
-    );
-    current.status = getStatusForOccurrence(
-      current.nextOccurrence,
-      current.rule.endDate,
-    );
-    if (current.status !== 'active') break;
   }
 };
 
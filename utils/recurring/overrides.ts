@@ -0,0 +1,84 @@
+import type {
+  RecurringOccurrenceOverride,
+  RecurringRule,
+  RecurringTransaction,
+} from '../../types/budget';
+import { findOccurrenceWindow } from './recurrence';
+
+type OccurrenceOverrides = Record<string, RecurringOccurrenceOverride>;
+
+export const getOccurrenceOverride = (
+  recurring: Pick<RecurringTransaction, 'overrides'>,
+  occurrenceDate: string,
+): RecurringOccurrenceOverride | undefined =>
+  recurring.overrides?.[occurrenceDate];
+
+/**
+ * Whether the user skipped the occurrence, through a live override or one
+ * that was pruned after the pointer passed it.
+ */
+export const isOccurrenceSkipped = (
+  recurring: Pick<RecurringTransaction, 'overrides' | 'skippedOccurrences'>,
+  occurrenceDate: string,
+) =>
+  !!getOccurrenceOverride(recurring, occurrenceDate)?.skip ||
+  !!recurring.skippedOccurrences?.includes(occurrenceDate);
+
+/** Date an occurrence is booked on: its scheduled date unless it was moved. */
+export const getBookedDate = (
+  recurring: Pick<RecurringTransaction, 'overrides'>,
+  occurrenceDate: string,
+) => getOccurrenceOverride(recurring, occurrenceDate)?.date ?? occurrenceDate;
+
+/** The rule as it applies to one occurrence, with a one-off amount swapped in. */
+export const applyOccurrenceAmount = (
+  recurring: RecurringTransaction,
+  occurrenceDate: string,
+): RecurringTransaction => {
+  const override = getOccurrenceOverride(recurring, occurrenceDate);
+  if (override?.baseAmount === undefined) {
+    return recurring;
+  }
+  return {
+    ...recurring,
+    amount: override.baseAmount,
+    baseAmount: override.baseAmount,
+    originalAmount: override.amount ?? override.baseAmount,
+    displayAmount: undefined,
+    displayCurrency: undefined,
+    exchangeRateSnapshot:
+      override.exchangeRateSnapshot ?? recurring.exchangeRateSnapshot,
+  };
+};
+
+/**
+ * Skipped dates to keep once the pointer moves to `nextOccurrence`: those
+ * already recorded plus the skip overrides that pruning is about to drop.
+ */
+export const collectSkippedOccurrences = (
+  recurring: Pick<RecurringTransaction, 'overrides' | 'skippedOccurrences'>,
+  nextOccurrence: string,
+): string[] | undefined => {
+  const passed = Object.entries(recurring.overrides ?? {})
+    .filter(([date, override]) => override.skip && date < nextOccurrence)
+    .map(([date]) => date);
+  const skipped = [
+    ...new Set([...(recurring.skippedOccurrences ?? []), ...passed]),
+  ].sort();
+  return skipped.length ? skipped : undefined;
+};
+
+/**
+ * Keeps the overrides that still apply: upcoming occurrences (from
+ * `nextOccurrence` on) that the rule still produces.
+ */
+export const pruneOccurrenceOverrides = (
+  overrides: OccurrenceOverrides | undefined,
+  rule: RecurringRule,
+  nextOccurrence: string,
+): OccurrenceOverrides | undefined => {
+  const kept = Object.entries(overrides ?? {}).filter(
+    ([date]) => date >= nextOccurrence && !!findOccurrenceWindow(rule, date),
+  );
+  return kept.length ? Object.fromEntries(kept) : undefined;
+};
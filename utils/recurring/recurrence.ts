@@ -41,19 +41,98 @@ const addMonthsUtc = (base: Date, months: number) => {
   return new Date(Date.UTC(nextYear, nextMonth, clamped));
 };
 
-const isValidDateString = (value?: string) =>
+export const isValidDateString = (value?: string) =>
   !!value && DATE_REGEX.test(value) && !Number.isNaN(toDate(value).getTime());
 
 const compareDates = (left: string, right: string) =>
   toDate(left).getTime() - toDate(right).getTime();
 
+const FREQUENCIES: RecurringFrequency[] = [
+  'daily',
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'yearly',
+];
+
+// Months between occurrences for the frequencies anchored to a day of month.
+const MONTH_STEPS: Partial<Record<RecurringFrequency, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+const WEEKS_OF_MONTH = [1, 2, 3, 4, -1];
+
+// Resolving a rule's end walks every occurrence, so `count` is bounded.
+export const MAX_RECURRENCE_COUNT = 1000;
+
+/** Raised for rules the client has to fix; surfaced as 400. */
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
 const getFrequencyDays = (frequency: RecurringFrequency) =>
   frequency === 'biweekly' ? 14 : 7;
 
+const hasWeekdayAnchor = (rule: RecurringRule) =>
+  !!rule.lastBusinessDay ||
+  rule.weekday !== undefined ||
+  rule.weekOfMonth !== undefined;
+
+const lastBusinessDayOfMonth = (year: number, monthIndex: number) => {
+  const last = new Date(
+    Date.UTC(year, monthIndex, daysInMonth(year, monthIndex)),
+  );
+  while (last.getUTCDay() === 0 || last.getUTCDay() === 6) {
+    last.setUTCDate(last.getUTCDate() - 1);
+  }
+  return last;
+};
+
+const nthWeekdayOfMonth = (
+  year: number,
+  monthIndex: number,
+  weekday: number,
+  weekOfMonth: number,
+) => {
+  if (weekOfMonth === -1) {
+    const lastDay = daysInMonth(year, monthIndex);
+    const lastWeekday = new Date(
+      Date.UTC(year, monthIndex, lastDay),
+    ).getUTCDay();
+    return new Date(
+      Date.UTC(year, monthIndex, lastDay - ((lastWeekday - weekday + 7) % 7)),
+    );
+  }
+  const firstWeekday = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+  const firstMatch = 1 + ((weekday - firstWeekday + 7) % 7);
+  return new Date(
+    Date.UTC(year, monthIndex, firstMatch + (weekOfMonth - 1) * 7),
+  );
+};
+
+/** Moves `base` to the rule's day within the same month. */
+const alignToRule = (base: Date, rule: RecurringRule) => {
+  const year = base.getUTCFullYear();
+  const month = base.getUTCMonth();
+  if (rule.lastBusinessDay) {
+    return lastBusinessDayOfMonth(year, month);
+  }
+  if (rule.weekday !== undefined && rule.weekOfMonth !== undefined) {
+    return nthWeekdayOfMonth(year, month, rule.weekday, rule.weekOfMonth);
+  }
+  return alignMonthlyDay(base, rule.dayOfMonth);
+};
+
 const getInterval = (rule: RecurringRule) =>
   typeof rule.interval === 'number' && rule.interval > 0 ? rule.interval : 1;
 
-const getLocalCalendarDate = (instant: Date, timeZone: string): string =>
+export const getLocalCalendarDate = (instant: Date, timeZone: string): string =>
   new Intl.DateTimeFormat('en-CA', {
     timeZone: timeZone || 'UTC',
     year: 'numeric',
@@ -63,7 +142,7 @@ const getLocalCalendarDate = (instant: Date, timeZone: string): string =>
 
 export const normalizeRecurringRule = (rule: RecurringRule): RecurringRule => {
   const dayOfMonth =
-    rule.frequency === 'monthly'
+    MONTH_STEPS[rule.frequency] && !hasWeekdayAnchor(rule)
       ? (rule.dayOfMonth ?? toDate(rule.startDate).getUTCDate())
       : undefined;
   return {
@@ -72,46 +151,115 @@ export const normalizeRecurringRule = (rule: RecurringRule): RecurringRule => {
   };
 };
 
+const validateWeekdayAnchor = (rule: RecurringRule) => {
+  if (!MONTH_STEPS[rule.frequency]) {
+    throw new RecurrenceRuleError(
+      'recurrence weekday and lastBusinessDay need a monthly, quarterly or yearly frequency',
+    );
+  }
+  if (rule.dayOfMonth !== undefined) {
+    throw new RecurrenceRuleError(
+      'recurrence dayOfMonth cannot be combined with weekday or lastBusinessDay',
+    );
+  }
+  if (rule.lastBusinessDay !== undefined) {
+    if (typeof rule.lastBusinessDay !== 'boolean') {
+      throw new RecurrenceRuleError(
+        'recurrence lastBusinessDay must be a boolean',
+      );
+    }
+    if (rule.weekday !== undefined || rule.weekOfMonth !== undefined) {
+      throw new RecurrenceRuleError(
+        'recurrence lastBusinessDay cannot be combined with weekday',
+      );
+    }
+    return;
+  }
+  if (rule.weekday === undefined || rule.weekOfMonth === undefined) {
+    throw new RecurrenceRuleError(
+      'recurrence weekday and weekOfMonth must be set together',
+    );
+  }
+  if (!Number.isInteger(rule.weekday) || rule.weekday < 0 || rule.weekday > 6) {
+    throw new RecurrenceRuleError(
+      'recurrence weekday must be between 0 (Sunday) and 6',
+    );
+  }
+  if (!WEEKS_OF_MONTH.includes(rule.weekOfMonth)) {
+    throw new RecurrenceRuleError(
+      'recurrence weekOfMonth must be 1-4, or -1 for the last one',
+    );
+  }
+};
+
 export const validateRecurringRule = (rule: RecurringRule) => {
-  if (!['weekly', 'biweekly', 'monthly'].includes(rule.frequency)) {
-    throw new Error('Unsupported recurrence frequency');
+  if (!FREQUENCIES.includes(rule.frequency)) {
+    throw new RecurrenceRuleError('Unsupported recurrence frequency');
   }
   if (!isValidDateString(rule.startDate)) {
-    throw new Error('Invalid recurrence startDate');
+    throw new RecurrenceRuleError('Invalid recurrence startDate');
   }
   if (rule.endDate && !isValidDateString(rule.endDate)) {
-    throw new Error('Invalid recurrence endDate');
+    throw new RecurrenceRuleError('Invalid recurrence endDate');
   }
   if (rule.endDate && compareDates(rule.endDate, rule.startDate) < 0) {
-    throw new Error('recurrence endDate must be after startDate');
+    throw new RecurrenceRuleError('recurrence endDate must be after startDate');
   }
-  if (rule.frequency === 'monthly') {
+  if (
+    rule.count !== undefined &&
+    (!Number.isInteger(rule.count) ||
+      rule.count < 1 ||
+      rule.count > MAX_RECURRENCE_COUNT)
+  ) {
+    throw new RecurrenceRuleError(
+      `recurrence count must be a positive integer of at most ${MAX_RECURRENCE_COUNT}`,
+    );
+  }
+  if (hasWeekdayAnchor(rule)) {
+    validateWeekdayAnchor(rule);
+  } else if (MONTH_STEPS[rule.frequency]) {
     const day = rule.dayOfMonth ?? toDate(rule.startDate).getUTCDate();
     if (day < 1 || day > 31) {
-      throw new Error('recurrence dayOfMonth must be between 1 and 31');
+      throw new RecurrenceRuleError(
+        'recurrence dayOfMonth must be between 1 and 31',
+      );
     }
   }
 };
 
+/**
+ * First occurrence of a rule. Weekday and last-business-day anchors that
+ * fall before `startDate` in the start month move on to the next period.
+ */
 export const buildInitialNextOccurrence = (rule: RecurringRule) => {
   const start = toDate(rule.startDate);
-  if (rule.frequency === 'monthly') {
-    return formatDate(alignMonthlyDay(start, rule.dayOfMonth));
+  if (!MONTH_STEPS[rule.frequency]) {
+    return formatDate(start);
   }
-  return formatDate(start);
+  const first = formatDate(alignToRule(start, rule));
+  return hasWeekdayAnchor(rule) && compareDates(first, rule.startDate) < 0
+    ? getNextOccurrence(rule, first)
+    : first;
 };
 
-export const getNextOccurrence = (rule: RecurringRule, fromDate: string) => {
+export const getNextOccurrence = (
+  rule: RecurringRule,
+  fromDate: string,
+): string => {
   const base = toDate(fromDate);
   switch (rule.frequency) {
+    case 'daily':
+      return formatDate(addDaysUtc(base, getInterval(rule)));
     case 'weekly':
     case 'biweekly':
       return formatDate(
         addDaysUtc(base, getFrequencyDays(rule.frequency) * getInterval(rule)),
       );
-    case 'monthly': {
-      const nextBase = addMonthsUtc(base, getInterval(rule));
-      return formatDate(alignMonthlyDay(nextBase, rule.dayOfMonth));
+    case 'monthly':
+    case 'quarterly':
+    case 'yearly': {
+      const months = (MONTH_STEPS[rule.frequency] ?? 1) * getInterval(rule);
+      return formatDate(alignToRule(addMonthsUtc(base, months), rule));
     }
     default:
       return formatDate(addMonthsUtc(base, 1));
@@ -153,6 +301,46 @@ export const advanceOccurrencePointer = (
   currentOccurrence: string,
 ): string => getNextOccurrence(rule, currentOccurrence);
 
+/**
+ * Last date the rule may produce an occurrence on: the earlier of `endDate`
+ * and the date of the `count`-th occurrence.
+ */
+export const getRuleEndDate = (rule: RecurringRule): string | undefined => {
+  if (!rule.count) {
+    return rule.endDate;
+  }
+  let last = buildInitialNextOccurrence(rule);
+  for (let i = 1; i < Math.min(rule.count, MAX_RECURRENCE_COUNT); i += 1) {
+    last = getNextOccurrence(rule, last);
+  }
+  return rule.endDate && compareDates(rule.endDate, last) < 0
+    ? rule.endDate
+    : last;
+};
+
+/**
+ * The occurrences either side of `date` when the rule produces it, or
+ * undefined when `date` is not one of the rule's occurrences.
+ */
+export const findOccurrenceWindow = (
+  rule: RecurringRule,
+  date: string,
+): { previous?: string; next: string } | undefined => {
+  const endDate = getRuleEndDate(rule);
+  if (endDate && compareDates(date, endDate) > 0) {
+    return undefined;
+  }
+  let previous: string | undefined;
+  let pointer = buildInitialNextOccurrence(rule);
+  while (compareDates(pointer, date) < 0) {
+    previous = pointer;
+    pointer = getNextOccurrence(rule, pointer);
+  }
+  return pointer === date
+    ? { previous, next: getNextOccurrence(rule, date) }
+    : undefined;
+};
+
 export const getStatusForOccurrence = (
   nextOccurrence: string,
   endDate?: string,
@@ -0,0 +1,147 @@
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  TransactWriteItemsCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+const client = new DynamoDBClient({});
+
+const CATEGORIES_TABLE = process.env.CATEGORIES_TABLE_NAME;
+
+const ensureTable = (name: string | undefined, key: string) => {
+  if (!name) {
+    throw new Error(`${key} is not configured`);
+  }
+  return name;
+};
+
+export interface CategorySpendAdjustment {
+  categoryId: string;
+  userId: string;
+  month: string; // yyyy-MM
+  deltaBase: number;
+}
+
+/**
+ * Setting a field inside a month that is not there yet fails, e.g. for a
+ * past month or a category created after the seeder ran, so the month is
+ * created first. Its limit is left unset for the seeder. Returns false when
+ * the category no longer exists.
+ */
+const ensureCategoryMonth = async (
+  categoryId: string,
+  userId: string,
+  month: string,
+): Promise<boolean> => {
+  try {
+    await client.send(
+      new UpdateItemCommand({
+        TableName: ensureTable(CATEGORIES_TABLE, 'CATEGORIES_TABLE_NAME'),
+        Key: marshall({ id: categoryId }, { removeUndefinedValues: true }),
+        UpdateExpression: 'SET #md.#m = if_not_exists(#md.#m, :empty)',
+        ConditionExpression: 'attribute_exists(id) AND userId = :uid',
+        ExpressionAttributeNames: { '#md': 'monthlyData', '#m': month },
+        ExpressionAttributeValues: marshall({ ':empty': {}, ':uid': userId }),
+      }),
+    );
+    return true;
+  } catch (err) {
+    if (err instanceof ConditionalCheckFailedException) return false;
+    throw err;
+  }
+};
+
+// One update per category item; its months must exist already.
+const buildCategorySpendUpdate = (
+  categoryId: string,
+  userId: string,
+  monthDeltas: Record<string, number>,
+) => {
+  const months = Object.keys(monthDeltas);
+  return {
+    TableName: ensureTable(CATEGORIES_TABLE, 'CATEGORIES_TABLE_NAME'),
+    Key: marshall({ id: categoryId }, { removeUndefinedValues: true }),
+    UpdateExpression: `SET ${months
+      .map(
+        (_, index) =>
+          `#md.#m${index}.#bs = if_not_exists(#md.#m${index}.#bs, :zero) + :d${index}, ` +
+          `#md.#m${index}.#s = if_not_exists(#md.#m${index}.#s, :zero)`,
+      )
+      .join(', ')}`,
+    ConditionExpression: 'attribute_exists(id) AND userId = :uid',
+    ExpressionAttributeNames: {
+      '#md': 'monthlyData',
+      '#bs': 'baseSpent',
+      '#s': 'spent',
+      ...Object.fromEntries(
+        months.map((month, index) => [`#m${index}`, month]),
+      ),
+    },
+    ExpressionAttributeValues: marshall({
+      ':zero': 0,
+      ':uid': userId,
+      ...Object.fromEntries(
+        months.map((month, index) => [`:d${index}`, monthDeltas[month]]),
+      ),
+    }),
+  };
+};
+
+export const adjustCategorySpend = async (
+  categoryId: string,
+  userId: string,
+  month: string,
+  deltaBase: number,
+): Promise<void> => {
+  if (!deltaBase || !(await ensureCategoryMonth(categoryId, userId, month))) {
+    return;
+  }
+  try {
+    await client.send(
+      new UpdateItemCommand(
+        buildCategorySpendUpdate(categoryId, userId, { [month]: deltaBase }),
+      ),
+    );
+  } catch (err) {
+    if (err instanceof ConditionalCheckFailedException) return;
+    throw err;
+  }
+};
+
+/**
+ * Books several spend adjustments in one transaction, so a retried stream
+ * record never applies part of them twice. `requestToken` makes a repeat of
+ * the same call within ten minutes a no-op. Categories that no longer exist
+ * are skipped.
+ */
+export const adjustCategorySpendAtomically = async (
+  adjustments: CategorySpendAdjustment[],
+  requestToken?: string,
+): Promise<void> => {
+  const byCategory = new Map<
+    string,
+    { userId: string; monthDeltas: Record<string, number> }
+  >();
+  for (const { categoryId, userId, month, deltaBase } of adjustments) {
+    if (!deltaBase || !(await ensureCategoryMonth(categoryId, userId, month))) {
+      continue;
+    }
+    const entry = byCategory.get(categoryId) ?? { userId, monthDeltas: {} };
+    entry.monthDeltas[month] = (entry.monthDeltas[month] ?? 0) + deltaBase;
+    byCategory.set(categoryId, entry);
+  }
+  if (!byCategory.size) return;
+
+  await client.send(
+    new TransactWriteItemsCommand({
+      ClientRequestToken: requestToken,
+      TransactItems: [...byCategory].map(
+        ([categoryId, { userId, monthDeltas }]) => ({
+          Update: buildCategorySpendUpdate(categoryId, userId, monthDeltas),
+        }),
+      ),
+    }),
+  );
+};
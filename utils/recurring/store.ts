@@ -4,12 +4,20 @@ import {
   GetItemCommand,
   PutItemCommand,
   QueryCommand,
-  UpdateItemCommand,
   paginateQuery,
 } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import type { RecurringTransaction, Transaction } from '../../types/budget';
-import { advanceOccurrencePointer, getStatusForOccurrence } from './recurrence';
+import {
+  advanceOccurrencePointer,
+  getRuleEndDate,
+  getStatusForOccurrence,
+} from './recurrence';
+import {
+  collectSkippedOccurrences,
+  pruneOccurrenceOverrides,
+} from './overrides';
+import { adjustCategorySpend } from './spend-store';
 
 const client = new DynamoDBClient({});
 
@@ -64,41 +72,7 @@ const incrementCategorySpend = async (
   deltaBase: number,
 ): Promise<void> => {
   if (!deltaBase || deltaBase <= 0) return;
-  const table = ensureTable(CATEGORIES_TABLE, 'CATEGORIES_TABLE_NAME');
-  try {
-    await client.send(
-      new UpdateItemCommand({
-        TableName: table,
-        Key: marshall({ id: categoryId }, { removeUndefinedValues: true }),
-        UpdateExpression: `
-          SET #md.#m.#bs = if_not_exists(#md.#m.#bs, :zero) + :delta,
-              #md.#m.#bl = if_not_exists(#md.#m.#bl, :zero),
-              #md.#m.#l = if_not_exists(#md.#m.#l, :zero),
-              #md.#m.#s = if_not_exists(#md.#m.#s, :zero)
-        `,
-        ConditionExpression: 'attribute_exists(id) AND userId = :uid',
-        ExpressionAttributeNames: {
-          '#md': 'monthlyData',
-          '#m': month,
-          '#bs': 'baseSpent',
-          '#bl': 'baseLimit',
-          '#l': 'limit',
-          '#s': 'spent',
-        },
-        ExpressionAttributeValues: marshall(
-          {
-            ':zero': 0,
-            ':delta': deltaBase,
-            ':uid': userId,
-          },
-          { removeUndefinedValues: true },
-        ),
-      }),
-    );
-  } catch (err) {
-    if (err instanceof ConditionalCheckFailedException) return;
-    throw err;
-  }
+  await adjustCategorySpend(categoryId, userId, month, deltaBase);
 };
 
 const advanceRecurringPointer = async (
@@ -110,11 +84,20 @@ const advanceRecurringPointer = async (
     'RECURRING_TRANSACTIONS_TABLE_NAME',
   );
   const next = advanceOccurrencePointer(recurring.rule, lastOccurrence);
-  const newStatus = getStatusForOccurrence(next, recurring.rule.endDate);
+  const newStatus = getStatusForOccurrence(
+    next,
+    getRuleEndDate(recurring.rule),
+  );
   const updated: RecurringTransaction = {
     ...recurring,
     nextOccurrence: next,
     status: newStatus,
+    overrides: pruneOccurrenceOverrides(
+      recurring.overrides,
+      recurring.rule,
+      next,
+    ),
+    skippedOccurrences: collectSkippedOccurrences(recurring, next),
   };
   await client.send(
     new PutItemCommand({
@@ -213,6 +196,7 @@ const scanAllRecurring = async (): Promise<RecurringTransaction[]> => {
 export {
   transactionExists,
   putTransactionIfNotExists,
+  adjustCategorySpend,
   incrementCategorySpend,
   advanceRecurringPointer,
   resolveCategoryId,
@@ -0,0 +1,39 @@
+import { toCurrencyNumber } from './currency';
+
+type AllocatableTransaction = {
+  category?: unknown;
+  amount?: unknown;
+  baseAmount?: unknown;
+  splits?: unknown;
+};
+
+export interface CategoryAllocation {
+  category: string;
+  baseAmount: number;
+}
+
+/**
+ * Spreads a stored transaction over the categories it counts towards: its
+ * splits when present, otherwise the whole base amount on `category`.
+ */
+export const allocateTransactionAmount = (
+  transaction: AllocatableTransaction,
+): CategoryAllocation[] => {
+  const { splits } = transaction;
+  if (Array.isArray(splits) && splits.length) {
+    return splits.map((split: Record<string, unknown>) => ({
+      category: String(split.category ?? ''),
+      baseAmount: toCurrencyNumber(split.baseAmount ?? split.amount ?? 0),
+    }));
+  }
+
+  return [
+    {
+      category:
+        typeof transaction.category === 'string' ? transaction.category : '',
+      baseAmount: toCurrencyNumber(
+        transaction.baseAmount ?? transaction.amount ?? 0,
+      ),
+    },
+  ];
+};
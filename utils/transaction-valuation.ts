@@ -0,0 +1,105 @@
+import type {
+  CurrencyCode,
+  ExchangeRateSnapshot,
+  Transaction,
+  TransactionValuation,
+} from '../types/budget';
+import {
+  BASE_CURRENCY_CODE,
+  convertFromBaseCurrency,
+  toCurrencyNumber,
+} from './currency';
+import type { RateContext } from './currency';
+import { roundToMinorUnits } from './currency-metadata';
+
+export const TRANSACTION_VALUATIONS: TransactionValuation[] = [
+  'historical',
+  'current',
+];
+
+export const isTransactionValuation = (
+  value: unknown,
+): value is TransactionValuation =>
+  TRANSACTION_VALUATIONS.includes(value as TransactionValuation);
+
+export interface TransactionValue {
+  amount: number;
+  rate: number; // base -> target, applied to splits
+  snapshot: ExchangeRateSnapshot;
+}
+
+/**
+ * Values the transaction's base amount in `targetCurrency` at the rate of its
+ * own date, so past totals do not move with today's rates. The snapshot
+ * stored at write time is used when it covers the pair; otherwise the daily
+ * rate history for the transaction's date.
+ */
+export const valueAtTransactionDate = async (
+  item: Transaction,
+  targetCurrency: CurrencyCode,
+  rateContext?: RateContext,
+): Promise<TransactionValue> => {
+  const baseAmount = toCurrencyNumber(item.baseAmount ?? item.amount ?? 0);
+  const baseCurrency = item.baseCurrency ?? BASE_CURRENCY_CODE;
+  const stored = item.exchangeRateSnapshot;
+
+  if (
+    stored &&
+    stored.rate > 0 &&
+    stored.fromCurrency === targetCurrency &&
+    stored.toCurrency === baseCurrency
+  ) {
+    // Entered in the target currency: show what was entered.
+    const amount =
+      item.originalCurrency === targetCurrency &&
+      item.originalAmount !== undefined
+        ? toCurrencyNumber(item.originalAmount)
+        : roundToMinorUnits(baseAmount / stored.rate, targetCurrency);
+    return { amount, rate: 1 / stored.rate, snapshot: stored };
+  }
+
+  if (
+    stored &&
+    stored.fromCurrency === baseCurrency &&
+    stored.toCurrency === targetCurrency
+  ) {
+    return {
+      amount: roundToMinorUnits(baseAmount * stored.rate, targetCurrency),
+      rate: stored.rate,
+      snapshot: stored,
+    };
+  }
+
+  const { amount, snapshot } = await convertFromBaseCurrency(
+    baseAmount,
+    targetCurrency,
+    rateContext,
+    item.dateKey?.split('#')[0],
+  );
+  return { amount, rate: snapshot.rate, snapshot };
+};
+
+/** Values the transaction's base amount in `targetCurrency` at today's rate. */
+export const valueAtCurrentRate = async (
+  item: Transaction,
+  targetCurrency: CurrencyCode,
+  rateContext?: RateContext,
+): Promise<TransactionValue> => {
+  const baseAmount = toCurrencyNumber(item.baseAmount ?? item.amount ?? 0);
+  const { amount, snapshot } = await convertFromBaseCurrency(
+    baseAmount,
+    targetCurrency,
+    rateContext,
+  );
+  return { amount, rate: snapshot.rate, snapshot };
+};
+
+export const valueTransaction = (
+  item: Transaction,
+  targetCurrency: CurrencyCode,
+  valuation: TransactionValuation,
+  rateContext?: RateContext,
+) =>
+  valuation === 'historical'
+    ? valueAtTransactionDate(item, targetCurrency, rateContext)
+    : valueAtCurrentRate(item, targetCurrency, rateContext);
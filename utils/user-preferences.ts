@@ -5,9 +5,9 @@ import {
 } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import type { CurrencyCode, UserPreference } from '../types/budget';
+import { BASE_CURRENCY_CODE } from './currency-config';
 
 const TABLE_NAME = process.env.USER_TABLE_NAME;
-const BASE_CURRENCY = (process.env.BASE_CURRENCY as CurrencyCode) || 'EUR';
 
 const client = new DynamoDBClient({});
 
@@ -17,7 +17,7 @@ export const getUserPreference = async (
   if (!TABLE_NAME) {
     const fallback: UserPreference = {
       userId,
-      preferredCurrency: BASE_CURRENCY,
+      preferredCurrency: BASE_CURRENCY_CODE,
       updatedAt: new Date().toISOString(),
     };
     return fallback;
@@ -33,7 +33,7 @@ export const getUserPreference = async (
   if (!res?.Item) {
     return {
       userId,
-      preferredCurrency: BASE_CURRENCY,
+      preferredCurrency: BASE_CURRENCY_CODE,
       updatedAt: new Date().toISOString(),
     };
   }
@@ -42,12 +42,16 @@ export const getUserPreference = async (
   const result: UserPreference = {
     userId,
     preferredCurrency:
-      (record.preferredCurrency as CurrencyCode) || BASE_CURRENCY,
+      (record.preferredCurrency as CurrencyCode) || BASE_CURRENCY_CODE,
     updatedAt: record.updatedAt,
   };
   if (record.timezone) {
     result.timezone = record.timezone;
   }
+  if (record.alertEmail) {
+    result.alertEmail = record.alertEmail;
+    result.alertSubscriptionArn = record.alertSubscriptionArn;
+  }
   return result;
 };
 
@@ -55,13 +59,16 @@ export const getUserPreferredCurrency = async (
   userId: string,
 ): Promise<CurrencyCode> => {
   const pref = await getUserPreference(userId);
-  return pref.preferredCurrency || BASE_CURRENCY;
+  return pref.preferredCurrency || BASE_CURRENCY_CODE;
 };
 
 export const saveUserPreference = async (
   userId: string,
   preferredCurrency: CurrencyCode,
-  timezone?: string,
+  options: Pick<
+    UserPreference,
+    'timezone' | 'alertEmail' | 'alertSubscriptionArn'
+  > = {},
 ): Promise<UserPreference> => {
   if (!TABLE_NAME) {
     throw new Error('USER_TABLE_NAME is not configured');
@@ -70,16 +77,14 @@ export const saveUserPreference = async (
   const preference: UserPreference = {
     userId,
     preferredCurrency,
+    ...options,
     updatedAt: new Date().toISOString(),
   };
-  if (timezone) {
-    preference.timezone = timezone;
-  }
 
   await client.send(
     new PutItemCommand({
       TableName: TABLE_NAME,
-      Item: marshall(preference),
+      Item: marshall(preference, { removeUndefinedValues: true }),
     }),
   );
 